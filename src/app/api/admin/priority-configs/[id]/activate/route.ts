@@ -0,0 +1,46 @@
+// ===================================
+// File: app/api/admin/priority-configs/[id]/activate/route.ts
+// API Route สำหรับเปิดใช้งาน Priority Config
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { activatePriorityConfig, getPriorityConfigById } from '@/lib/db/queries';
+import { validateWeights } from '@/lib/priority/weights';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const existing = await getPriorityConfigById(id);
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Priority config not found' },
+        { status: 404 }
+      );
+    }
+
+    const validation = validateWeights(existing.weights);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: 'Cannot activate invalid config', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const config = await activatePriorityConfig(id);
+
+    return NextResponse.json({
+      success: true,
+      config
+    });
+  } catch (error) {
+    console.error('Error activating priority config:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+// ===================================
+// File: app/api/admin/priority-configs/route.ts
+// API Route สำหรับจัดการ Priority Config (Admin)
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  activatePriorityConfig,
+  createPriorityConfigVersion,
+  getPriorityConfigs
+} from '@/lib/db/queries';
+import { validateWeights } from '@/lib/priority/weights';
+
+export async function GET(request: NextRequest) {
+  try {
+    const configName = request.nextUrl.searchParams.get('config_name') || undefined;
+    const configs = await getPriorityConfigs(configName);
+
+    return NextResponse.json({
+      success: true,
+      configs
+    });
+  } catch (error) {
+    console.error('Error fetching priority configs:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// สร้าง version ใหม่ของ config (ส่ง activate: true เพื่อใช้งานทันที)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { config_name, weights, description, created_by, activate } = body;
+
+    if (!config_name || typeof config_name !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid request: config_name required' },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateWeights(weights);
+    if (!validation.valid || !validation.weights) {
+      return NextResponse.json(
+        { error: 'Invalid weights', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const created = await createPriorityConfigVersion({
+      config_name,
+      weights: validation.weights,
+      description,
+      created_by
+    });
+    const config = activate ? await activatePriorityConfig(created.id) : created;
+
+    return NextResponse.json(
+      { success: true, config },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating priority config:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+// ===================================
+// File: app/api/admin/priority-configs/validate/route.ts
+// API Route สำหรับตรวจสอบ Weights ก่อนบันทึก
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateWeights } from '@/lib/priority/weights';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validation = validateWeights(body.weights);
+
+    return NextResponse.json(
+      {
+        success: validation.valid,
+        valid: validation.valid,
+        errors: validation.errors
+      },
+      { status: validation.valid ? 200 : 400 }
+    );
+  } catch (error) {
+    console.error('Error validating priority weights:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
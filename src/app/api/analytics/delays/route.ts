@@ -0,0 +1,45 @@
+// ===================================
+// File: app/api/analytics/delays/route.ts
+// API Route สำหรับความล่าช้าเฉลี่ย แยกตาม priority class, เขต หรือคนขับ
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseAnalyticsRange } from '@/lib/analytics/range';
+import { DELAY_DIMENSIONS, DelayDimension, getAverageDelay } from '@/lib/db/analytics';
+import { AppError } from '@/lib/errors';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const groupBy = searchParams.get('group_by') ?? 'priority_class';
+
+    if (!DELAY_DIMENSIONS.includes(groupBy as DelayDimension)) {
+      return NextResponse.json(
+        { error: `Invalid request: group_by must be one of ${DELAY_DIMENSIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const range = parseAnalyticsRange(searchParams);
+    const result = await getAverageDelay(range, groupBy as DelayDimension);
+
+    return NextResponse.json({
+      success: true,
+      range,
+      ...result
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error fetching delay analytics:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
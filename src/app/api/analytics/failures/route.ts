@@ -0,0 +1,35 @@
+// ===================================
+// File: app/api/analytics/failures/route.ts
+// API Route สำหรับอัตราส่งไม่สำเร็จ แยกตามสาเหตุ
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseAnalyticsRange } from '@/lib/analytics/range';
+import { getFailureRates } from '@/lib/db/analytics';
+import { AppError } from '@/lib/errors';
+
+export async function GET(request: NextRequest) {
+  try {
+    const range = parseAnalyticsRange(request.nextUrl.searchParams);
+    const result = await getFailureRates(range);
+
+    return NextResponse.json({
+      success: true,
+      range,
+      ...result
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error fetching failure analytics:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+// ===================================
+// File: app/api/analytics/late-critical/route.ts
+// API Route สำหรับออเดอร์ critical ที่ส่งช้า (สรุปรายช่วง + รายการที่ช้าที่สุด)
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseAnalyticsRange } from '@/lib/analytics/range';
+import { getLateCriticalDeliveries } from '@/lib/db/analytics';
+import { AppError } from '@/lib/errors';
+
+export async function GET(request: NextRequest) {
+  try {
+    const range = parseAnalyticsRange(request.nextUrl.searchParams);
+    const result = await getLateCriticalDeliveries(range);
+
+    return NextResponse.json({
+      success: true,
+      range,
+      ...result
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error fetching late critical analytics:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
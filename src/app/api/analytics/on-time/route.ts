@@ -0,0 +1,35 @@
+// ===================================
+// File: app/api/analytics/on-time/route.ts
+// API Route สำหรับอัตราส่งตรงเวลา (planned_arrival เทียบ actual_arrival) รายวัน/รายสัปดาห์
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseAnalyticsRange } from '@/lib/analytics/range';
+import { getOnTimeRate } from '@/lib/db/analytics';
+import { AppError } from '@/lib/errors';
+
+export async function GET(request: NextRequest) {
+  try {
+    const range = parseAnalyticsRange(request.nextUrl.searchParams);
+    const result = await getOnTimeRate(range);
+
+    return NextResponse.json({
+      success: true,
+      range,
+      ...result
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error fetching on-time analytics:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+// ===================================
+// File: app/api/analytics/summary/route.ts
+// API Route สำหรับสรุปจำนวนออเดอร์ตามสถานะ/priority class และยอดขาย
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseAnalyticsRange } from '@/lib/analytics/range';
+import { getOrderStatistics } from '@/lib/db/queries';
+import { AppError } from '@/lib/errors';
+
+export async function GET(request: NextRequest) {
+  try {
+    const range = parseAnalyticsRange(request.nextUrl.searchParams);
+    const statistics = await getOrderStatistics(range.start, new Date(range.end.getTime() - 1));
+
+    return NextResponse.json({
+      success: true,
+      range,
+      statistics
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error fetching order statistics:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+// ===================================
+// File: app/api/customers/[id]/address/route.ts
+// API Route สำหรับแก้ที่อยู่ลูกค้า (หาพิกัดใหม่ และปรับออเดอร์ที่ยังไม่ออกส่ง)
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { changeCustomerAddress, parseAddressUpdate } from '@/lib/address/service';
+import { AppError } from '@/lib/errors';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const input = parseAddressUpdate(body);
+
+    const result = await changeCustomerAddress(id, input, {
+      actor: typeof body?.actor === 'string' ? body.actor : undefined,
+      reason: typeof body?.reason === 'string' ? body.reason : undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error updating customer address:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+// ===================================
+// File: app/api/customers/address-review/route.ts
+// API Route สำหรับรายชื่อลูกค้าที่ที่อยู่/พิกัดต้องให้พนักงานตรวจ
+// ===================================
+
+import { NextResponse } from 'next/server';
+import { getCustomersNeedingAddressReview } from '@/lib/db/queries';
+
+export async function GET() {
+  try {
+    const customers = await getCustomersNeedingAddressReview();
+
+    return NextResponse.json({
+      success: true,
+      total_customers: customers.length,
+      customers
+    });
+  } catch (error) {
+    console.error('Error fetching customers for address review:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+// ===================================
+// File: app/api/deliveries/[id]/driver/route.ts
+// API Route สำหรับเปลี่ยนคนขับของการจัดส่ง
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { reassignDeliveryDriver } from '@/lib/db/queries';
+import { AppError } from '@/lib/errors';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { driver_id, actor, reason } = body;
+
+    if (!driver_id || typeof driver_id !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid request: driver_id required' },
+        { status: 400 }
+      );
+    }
+
+    if (!reason || typeof reason !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid request: reason required' },
+        { status: 400 }
+      );
+    }
+
+    const delivery = await reassignDeliveryDriver(id, driver_id, { actor, reason });
+
+    return NextResponse.json({
+      success: true,
+      delivery
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error reassigning driver:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
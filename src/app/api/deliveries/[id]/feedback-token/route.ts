@@ -0,0 +1,43 @@
+// ===================================
+// File: app/api/deliveries/[id]/feedback-token/route.ts
+// API Route สำหรับพนักงาน: ออกลิงก์รีวิวใหม่ (token เดิมจะใช้ไม่ได้)
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AppError } from '@/lib/errors';
+import { issueFeedbackToken } from '@/lib/feedback/service';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const invitation = await issueFeedbackToken(id);
+
+    if (!invitation) {
+      return NextResponse.json(
+        { error: 'Feedback already submitted' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, feedback_invitation: invitation },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error issuing feedback token:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
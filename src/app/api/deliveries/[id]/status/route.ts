@@ -0,0 +1,83 @@
+// ===================================
+// File: app/api/deliveries/[id]/status/route.ts
+// API Route สำหรับเปลี่ยนสถานะการจัดส่ง (ตาม state machine)
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { updateDeliveryStatus } from '@/lib/db/queries';
+import { completeDelivery } from '@/lib/deliveries/service';
+import { AppError } from '@/lib/errors';
+import { FAILURE_REASONS, isFailureReason } from '@/lib/failures/policy';
+import { DELIVERY_STATUSES, isDeliveryStatus } from '@/lib/status/transitions';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const { status, actual_arrival, failure_reason, failure_notes, actor, reason } =
+      (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+    if (!isDeliveryStatus(status)) {
+      return NextResponse.json(
+        { error: `Invalid request: status must be one of ${DELIVERY_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (status === 'failed' && !isFailureReason(failure_reason)) {
+      return NextResponse.json(
+        { error: `Invalid request: failure_reason must be one of ${FAILURE_REASONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const actualArrival = actual_arrival ? new Date(actual_arrival as string) : undefined;
+    if (actualArrival && isNaN(actualArrival.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid request: actual_arrival must be a valid date' },
+        { status: 400 }
+      );
+    }
+
+    const context = {
+      actor: typeof actor === 'string' ? actor : undefined,
+      reason: typeof reason === 'string' ? reason : undefined
+    };
+    const failureNotes = typeof failure_notes === 'string' ? failure_notes : undefined;
+
+    if (status === 'delivered' || status === 'failed') {
+      const completion = await completeDelivery(
+        id,
+        status,
+        {
+          actual_arrival: actualArrival,
+          failure_reason: isFailureReason(failure_reason) ? failure_reason : undefined,
+          failure_notes: failureNotes
+        },
+        context
+      );
+
+      return NextResponse.json({ success: true, ...completion });
+    }
+
+    const delivery = await updateDeliveryStatus(id, status, { actual_arrival: actualArrival }, context);
+
+    return NextResponse.json({ success: true, delivery });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error updating delivery status:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
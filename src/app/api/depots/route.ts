@@ -0,0 +1,51 @@
+// ===================================
+// File: app/api/depots/route.ts
+// API Route สำหรับจัดการ depot (ร้าน/คลังที่รถออกส่ง)
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createDepot, getDepots } from '@/lib/db/queries';
+import { AppError } from '@/lib/errors';
+import { parseDepotInput } from '@/lib/zones/service';
+
+export async function GET() {
+  try {
+    const depots = await getDepots();
+
+    return NextResponse.json({
+      success: true,
+      depots
+    });
+  } catch (error) {
+    console.error('Error fetching depots:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const depot = await createDepot(parseDepotInput(body));
+
+    return NextResponse.json(
+      { success: true, depot },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error creating depot:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
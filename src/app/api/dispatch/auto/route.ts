@@ -0,0 +1,100 @@
+// ===================================
+// File: app/api/dispatch/auto/route.ts
+// API Route สำหรับแบ่งออเดอร์ pending ให้รถที่ว่างอัตโนมัติ
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_DISPATCH_ORDERS } from '@/lib/dispatch/planner';
+import { autoDispatch } from '@/lib/dispatch/service';
+import { AppError } from '@/lib/errors';
+import { isValidLatLng } from '@/lib/routing/geo';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const { delivery_date, order_ids, zone_id, depot, start_time, dry_run } =
+      (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+    // น้ำหนักบรรทุกและเส้นทางคิดต่อวัน จึงต้องระบุวันส่ง (หรือเลือกออเดอร์ของวันเดียวกันเอง)
+    if (!delivery_date && order_ids === undefined) {
+      return NextResponse.json(
+        { error: 'Invalid request: delivery_date or order_ids required' },
+        { status: 400 }
+      );
+    }
+
+    const deliveryDate = delivery_date ? new Date(delivery_date as string) : undefined;
+    if (deliveryDate && isNaN(deliveryDate.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid request: delivery_date must be a valid date' },
+        { status: 400 }
+      );
+    }
+
+    const startTime = start_time ? new Date(start_time as string) : undefined;
+    if (startTime && isNaN(startTime.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid request: start_time must be a valid date' },
+        { status: 400 }
+      );
+    }
+
+    if (order_ids !== undefined && (!Array.isArray(order_ids) || order_ids.length === 0
+      || !order_ids.every(id => typeof id === 'string' && id.length > 0))) {
+      return NextResponse.json(
+        { error: 'Invalid request: order_ids must be a non-empty array of strings' },
+        { status: 400 }
+      );
+    }
+
+    if (Array.isArray(order_ids) && order_ids.length > MAX_DISPATCH_ORDERS) {
+      return NextResponse.json(
+        { error: `Invalid request: order_ids must have at most ${MAX_DISPATCH_ORDERS} entries` },
+        { status: 400 }
+      );
+    }
+
+    if (zone_id !== undefined && (typeof zone_id !== 'string' || zone_id === '')) {
+      return NextResponse.json(
+        { error: 'Invalid request: zone_id must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if (depot !== undefined && !isValidLatLng(depot)) {
+      return NextResponse.json(
+        { error: 'Invalid request: depot must have latitude and longitude' },
+        { status: 400 }
+      );
+    }
+
+    const result = await autoDispatch({
+      delivery_date: deliveryDate,
+      order_ids: Array.isArray(order_ids) ? [...new Set(order_ids as string[])] : undefined,
+      zone_id,
+      depot,
+      start_time: startTime,
+      dry_run: Boolean(dry_run)
+    });
+
+    return NextResponse.json({
+      success: true,
+      total_assigned: result.assignments.reduce((sum, a) => sum + a.order_ids.length, 0),
+      total_unassigned: result.unassigned.length,
+      ...result
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error dispatching orders:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+// ===================================
+// File: app/api/drivers/[id]/deliveries/[deliveryId]/route.ts
+// API Route สำหรับแอปคนขับ: pickup / arrive / deliver / fail พร้อมหลักฐานการส่ง
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseDriverAction, performDriverAction } from '@/lib/drivers/run';
+import { AppError } from '@/lib/errors';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+  try {
+    const { id, deliveryId } = await params;
+    const body = await request.json().catch(() => null);
+    const input = parseDriverAction(body);
+
+    const result = await performDriverAction(id, deliveryId, input);
+
+    return NextResponse.json({
+      success: true,
+      action: input.action,
+      ...result
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error recording driver action:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
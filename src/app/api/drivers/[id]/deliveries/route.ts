@@ -0,0 +1,51 @@
+// ===================================
+// File: app/api/drivers/[id]/deliveries/route.ts
+// API Route สำหรับแอปคนขับ: งานส่งของวันนั้นตามลำดับในเส้นทาง
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDeliveriesByDriver, getDriverById } from '@/lib/db/queries';
+import { toDateKey } from '@/lib/dates';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const dateParam = request.nextUrl.searchParams.get('date');
+
+    // ไม่ระบุวัน = วันนี้
+    const date = dateParam ? new Date(dateParam) : new Date();
+    if (isNaN(date.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid request: date must be a valid date' },
+        { status: 400 }
+      );
+    }
+
+    const driver = await getDriverById(id);
+    if (!driver) {
+      return NextResponse.json(
+        { error: 'Driver not found' },
+        { status: 404 }
+      );
+    }
+
+    const deliveries = await getDeliveriesByDriver(id, date);
+
+    return NextResponse.json({
+      success: true,
+      driver_id: id,
+      date: toDateKey(date),
+      total_deliveries: deliveries.length,
+      deliveries
+    });
+  } catch (error) {
+    console.error('Error fetching driver deliveries:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
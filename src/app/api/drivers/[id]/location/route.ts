@@ -0,0 +1,39 @@
+// ===================================
+// File: app/api/drivers/[id]/location/route.ts
+// API Route สำหรับแอปคนขับ: ส่งพิกัด GPS (หลายจุดต่อครั้ง) แล้วได้ ETA ของจุดที่เหลือกลับไป
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AppError } from '@/lib/errors';
+import { ingestDriverLocations, parseLocationIngest } from '@/lib/tracking/service';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const input = parseLocationIngest(body);
+
+    const result = await ingestDriverLocations(id, input);
+
+    return NextResponse.json(
+      { success: true, ...result },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error recording driver location:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+// ===================================
+// File: app/api/drivers/[id]/scorecard/route.ts
+// API Route สำหรับดูคะแนนคนขับแยกตามส่วนประกอบ (on-time, reliability, temperature, feedback)
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDriverById } from '@/lib/db/queries';
+import { getDriverScorecard } from '@/lib/drivers/rating';
+import { DRIVER_SCORE_WEIGHTS, RATING_HALF_LIFE_DAYS, RATING_LOOKBACK_DAYS } from '@/lib/drivers/scoring';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const driver = await getDriverById(id);
+    if (!driver) {
+      return NextResponse.json(
+        { error: 'Driver not found' },
+        { status: 404 }
+      );
+    }
+
+    const scorecard = await getDriverScorecard(id);
+
+    return NextResponse.json({
+      success: true,
+      driver_id: id,
+      stored_rating: driver.rating,
+      total_deliveries: driver.total_deliveries,
+      scorecard,
+      model: {
+        weights: DRIVER_SCORE_WEIGHTS,
+        half_life_days: RATING_HALF_LIFE_DAYS,
+        lookback_days: RATING_LOOKBACK_DAYS
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching driver scorecard:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
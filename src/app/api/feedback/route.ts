@@ -0,0 +1,44 @@
+// ===================================
+// File: app/api/feedback/route.ts
+// API Route สำหรับลูกค้าส่งรีวิว (ใช้ token จากลิงก์ได้ครั้งเดียว)
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AppError } from '@/lib/errors';
+import { parseFeedbackSubmission, submitFeedback } from '@/lib/feedback/service';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const input = parseFeedbackSubmission(body);
+
+    const feedback = await submitFeedback(input);
+
+    // ไม่ส่งข้อมูลภายใน (driver_id, token_hash) กลับไปให้ลูกค้า
+    return NextResponse.json(
+      {
+        success: true,
+        feedback: {
+          rating: feedback.rating,
+          tags: feedback.tags,
+          comment: feedback.comment,
+          submitted_at: feedback.submitted_at
+        }
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error submitting feedback:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+// ===================================
+// File: app/api/feedback/summary/route.ts
+// API Route สำหรับสรุปรีวิวลูกค้า แยกตามคนขับ, หมวดสินค้า หรือเขต
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseAnalyticsRange } from '@/lib/analytics/range';
+import { FEEDBACK_DIMENSIONS, FeedbackDimension, getFeedbackSummary } from '@/lib/db/analytics';
+import { AppError } from '@/lib/errors';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const groupBy = searchParams.get('group_by') ?? 'driver';
+
+    if (!FEEDBACK_DIMENSIONS.includes(groupBy as FeedbackDimension)) {
+      return NextResponse.json(
+        { error: `Invalid request: group_by must be one of ${FEEDBACK_DIMENSIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const range = parseAnalyticsRange(searchParams);
+    const result = await getFeedbackSummary(range, groupBy as FeedbackDimension);
+
+    return NextResponse.json({
+      success: true,
+      range,
+      ...result
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error fetching feedback summary:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
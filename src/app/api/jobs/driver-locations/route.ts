@@ -0,0 +1,24 @@
+// ===================================
+// File: app/api/jobs/driver-locations/route.ts
+// API Route สำหรับ cron ภายนอก: ลบพิกัดคนขับที่เก่ากว่าระยะเก็บรักษา
+// ===================================
+
+import { NextResponse } from 'next/server';
+import { pruneDriverLocations } from '@/lib/tracking/service';
+
+export async function POST() {
+  try {
+    const result = await pruneDriverLocations();
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    });
+  } catch (error) {
+    console.error('Error pruning driver locations:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+// ===================================
+// File: app/api/jobs/driver-ratings/route.ts
+// API Route สำหรับ cron ภายนอก: คำนวณ rating ของคนขับทุกคนใหม่
+// ===================================
+
+import { NextResponse } from 'next/server';
+import { refreshAllDriverRatings } from '@/lib/drivers/rating';
+
+export async function POST() {
+  try {
+    const results = await refreshAllDriverRatings();
+
+    return NextResponse.json({
+      success: true,
+      total_drivers: results.length,
+      drivers: results
+    });
+  } catch (error) {
+    console.error('Error refreshing driver ratings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+// ===================================
+// File: app/api/jobs/notifications/route.ts
+// API Route สำหรับ cron ภายนอก: สแกน event ใหม่ เข้าคิวแจ้งเตือน และส่งข้อความที่ถึงเวลา
+// ===================================
+
+import { NextResponse } from 'next/server';
+import { runNotifications } from '@/lib/notifications/scheduler';
+
+export async function POST() {
+  try {
+    const result = await runNotifications();
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Notification run already in progress' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    });
+  } catch (error) {
+    console.error('Error running notifications:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
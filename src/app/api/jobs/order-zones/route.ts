@@ -0,0 +1,24 @@
+// ===================================
+// File: app/api/jobs/order-zones/route.ts
+// API Route สำหรับผูกโซนให้ออเดอร์ที่ยังไม่ออกส่งซึ่งยังไม่มีโซน (รันหลังเพิ่ม/แก้โซน)
+// ===================================
+
+import { NextResponse } from 'next/server';
+import { tagUnzonedOrders } from '@/lib/zones/service';
+
+export async function POST() {
+  try {
+    const result = await tagUnzonedOrders();
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    });
+  } catch (error) {
+    console.error('Error tagging order zones:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
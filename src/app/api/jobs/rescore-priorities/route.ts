@@ -0,0 +1,33 @@
+// ===================================
+// File: app/api/jobs/rescore-priorities/route.ts
+// API Route สำหรับ cron ภายนอก: คำนวณ Priority ของออเดอร์ที่ยังไม่ส่งใหม่
+// ===================================
+
+import { NextResponse } from 'next/server';
+import { runPriorityRescore } from '@/lib/priority/scheduler';
+
+export async function POST() {
+  try {
+    const results = await runPriorityRescore();
+
+    if (!results) {
+      return NextResponse.json(
+        { error: 'Rescore already in progress' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      total_orders: results.reduce((sum, r) => sum + r.total_orders, 0),
+      escalated: results.flatMap(r => r.escalated_order_ids).length,
+      delivery_dates: results
+    });
+  } catch (error) {
+    console.error('Error rescoring priorities:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
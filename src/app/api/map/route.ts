@@ -0,0 +1,49 @@
+// ===================================
+// File: app/api/map/route.ts
+// API Route สำหรับแผนที่ของ dashboard: เส้นทางที่ยังไม่จบของวันและตำแหน่งล่าสุดของคนขับ
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getActiveRoutes,
+  getDeliveryProofPositionsSince,
+  getLatestDriverLocations
+} from '@/lib/db/queries';
+import {
+  DRIVER_POSITION_MAX_AGE_HOURS,
+  latestDriverPositions,
+  toMapRoute
+} from '@/lib/map/overview';
+
+export async function GET(request: NextRequest) {
+  try {
+    const dateParam = request.nextUrl.searchParams.get('date');
+
+    const date = dateParam ? new Date(dateParam) : new Date();
+    if (isNaN(date.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid request: date must be a valid date' },
+        { status: 400 }
+      );
+    }
+
+    const since = new Date(Date.now() - DRIVER_POSITION_MAX_AGE_HOURS * 60 * 60 * 1000);
+    const [routes, locations, proofs] = await Promise.all([
+      getActiveRoutes(date),
+      getLatestDriverLocations(since),
+      getDeliveryProofPositionsSince(since)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      routes: routes.map(toMapRoute),
+      driver_positions: latestDriverPositions(locations, proofs)
+    });
+  } catch (error) {
+    console.error('Error fetching map overview:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
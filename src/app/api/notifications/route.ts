@@ -0,0 +1,52 @@
+// ===================================
+// File: app/api/notifications/route.ts
+// API Route สำหรับดูประวัติการแจ้งเตือนรายผู้รับ (สถานะ, จำนวนครั้งที่ลอง, ข้อผิดพลาดล่าสุด)
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getNotificationLogs } from '@/lib/db/queries';
+
+const NOTIFICATION_STATUSES = ['pending', 'sending', 'sent', 'failed'];
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+// filter: order_id, status, limit
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get('status');
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam ? Number(limitParam) : DEFAULT_LIMIT;
+
+    if (status && !NOTIFICATION_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid request: status must be one of ${NOTIFICATION_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: `Invalid request: limit must be an integer between 1 and ${MAX_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const notifications = await getNotificationLogs({
+      order_id: searchParams.get('order_id') ?? undefined,
+      status: status ?? undefined,
+      limit
+    });
+
+    return NextResponse.json({
+      success: true,
+      notifications
+    });
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+// ===================================
+// File: app/api/orders/[id]/history/route.ts
+// API Route สำหรับดูประวัติของออเดอร์ (timeline)
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderEvents } from '@/lib/db/events';
+import { getOrderById } from '@/lib/db/queries';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const order = await getOrderById(id);
+
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      );
+    }
+
+    const history = await getOrderEvents(id);
+
+    return NextResponse.json({
+      success: true,
+      order,
+      history
+    });
+  } catch (error) {
+    console.error('Error fetching order history:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,160 @@
+// ===================================
+// File: app/api/orders/[id]/priority-override/route.ts
+// API Route สำหรับปรับลำดับความสำคัญเอง (Manual Override)
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createPriorityOverride,
+  getOrderById,
+  getPriorityOverrides,
+  revokePriorityOverrides
+} from '@/lib/db/queries';
+import { AppError } from '@/lib/errors';
+import { PRIORITY_CLASSES, PRIORITY_OVERRIDE_TYPES, PriorityClass } from '@/lib/priority/engine';
+import { recomputeOrderPriorities } from '@/lib/priority/recompute';
+import { FieldValidator } from '@/lib/validation';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const overrides = await getPriorityOverrides(id);
+
+    return NextResponse.json({
+      success: true,
+      overrides
+    });
+  } catch (error) {
+    console.error('Error fetching priority overrides:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+    const validator = new FieldValidator();
+    const overrideType = validator.requireOneOf('override_type', input.override_type, PRIORITY_OVERRIDE_TYPES);
+    const reason = validator.requireString('reason', input.reason);
+    const createdBy = validator.requireString('created_by', input.created_by, 100);
+
+    let priorityClass: PriorityClass | undefined;
+    let priorityRank: number | undefined;
+    let scoreBoost: number | undefined;
+    if (overrideType === 'pin_class') {
+      priorityClass = validator.requireOneOf('priority_class', input.priority_class, PRIORITY_CLASSES);
+    } else if (overrideType === 'pin_rank') {
+      priorityRank = validator.requireNumber('priority_rank', input.priority_rank, { min: 1, integer: true });
+    } else if (overrideType === 'boost') {
+      scoreBoost = validator.requireNumber('score_boost', input.score_boost, { min: -100, max: 100 });
+    }
+
+    let expiresAt: Date | undefined;
+    if (input.expires_at !== undefined && input.expires_at !== null) {
+      expiresAt = validator.requireDate('expires_at', input.expires_at);
+      if (expiresAt && expiresAt <= new Date()) {
+        validator.add('expires_at', 'must be in the future');
+      }
+    }
+
+    validator.throwIfInvalid();
+
+    const override = await createPriorityOverride({
+      order_id: id,
+      override_type: overrideType!,
+      priority_class: priorityClass,
+      priority_rank: priorityRank,
+      score_boost: scoreBoost,
+      reason: reason!,
+      created_by: createdBy!,
+      expires_at: expiresAt
+    });
+
+    const order = await rescoreOrderDay(id);
+
+    return NextResponse.json(
+      { success: true, override, order },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error creating priority override:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// ยกเลิก override ก่อนหมดอายุ แล้วกลับไปใช้คะแนนที่คำนวณได้
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const { actor, reason } = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+    if (!actor || typeof actor !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid request: actor required' },
+        { status: 400 }
+      );
+    }
+
+    const revoked = await revokePriorityOverrides(id, {
+      actor,
+      reason: typeof reason === 'string' ? reason : undefined
+    });
+    const order = await rescoreOrderDay(id);
+
+    return NextResponse.json({
+      success: true,
+      revoked,
+      order
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error revoking priority override:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// override มีผลกับ rank ของออเดอร์อื่นในวันเดียวกันด้วย
+async function rescoreOrderDay(orderId: string) {
+  const order = await getOrderById(orderId);
+  if (!order) {
+    return null;
+  }
+
+  await recomputeOrderPriorities(order.delivery_date, new Date());
+  return await getOrderById(orderId);
+}
@@ -0,0 +1,47 @@
+// ===================================
+// File: app/api/orders/[id]/status/route.ts
+// API Route สำหรับเปลี่ยนสถานะออเดอร์ (ตาม state machine)
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { updateOrderStatus } from '@/lib/db/queries';
+import { AppError } from '@/lib/errors';
+import { isOrderStatus, ORDER_STATUSES } from '@/lib/status/transitions';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { status, actor, reason } = body;
+
+    if (!isOrderStatus(status)) {
+      return NextResponse.json(
+        { error: `Invalid request: status must be one of ${ORDER_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const order = await updateOrderStatus(id, status, { actor, reason });
+
+    return NextResponse.json({
+      success: true,
+      order
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error updating order status:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
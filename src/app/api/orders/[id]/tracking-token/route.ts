@@ -0,0 +1,36 @@
+// ===================================
+// File: app/api/orders/[id]/tracking-token/route.ts
+// API Route สำหรับพนักงาน: ออกลิงก์ติดตามออเดอร์ใหม่ (ลิงก์เดิมจะใช้ไม่ได้)
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AppError } from '@/lib/errors';
+import { issueTrackingToken } from '@/lib/tracking/order-tracking';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const tracking = await issueTrackingToken(id);
+
+    return NextResponse.json(
+      { success: true, tracking },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error issuing tracking token:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
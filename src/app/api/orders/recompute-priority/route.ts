@@ -0,0 +1,51 @@
+// ===================================
+// File: app/api/orders/recompute-priority/route.ts
+// API Route สำหรับคำนวณ Priority ของออเดอร์ในฐานข้อมูลใหม่
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { recomputeOrderPriorities } from '@/lib/priority/recompute';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const { delivery_date, as_of } = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+    let deliveryDate: Date | undefined;
+    if (delivery_date) {
+      deliveryDate = new Date(delivery_date as string);
+      if (isNaN(deliveryDate.getTime())) {
+        return NextResponse.json(
+          { error: 'Invalid request: delivery_date must be a valid date' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // as_of = เวลาที่ใช้คำนวณ (ไม่ระบุ = ตอนนี้ เหมือน scheduler จะได้ไม่ทับคะแนนด้วยนาฬิกาคนละเรือน)
+    let asOf = new Date();
+    if (as_of) {
+      asOf = new Date(as_of as string);
+      if (isNaN(asOf.getTime())) {
+        return NextResponse.json(
+          { error: 'Invalid request: as_of must be a valid date' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const results = await recomputeOrderPriorities(deliveryDate, asOf);
+
+    return NextResponse.json({
+      success: true,
+      total_orders: results.reduce((sum, r) => sum + r.total_orders, 0),
+      delivery_dates: results
+    });
+  } catch (error) {
+    console.error('Error recomputing priorities:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+// ===================================
+// File: app/api/orders/route.ts
+// API Route สำหรับรายการออเดอร์ของ dashboard และสร้างออเดอร์ใหม่
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPendingOrders } from '@/lib/db/queries';
+import { AppError } from '@/lib/errors';
+import { toDashboardOrder } from '@/lib/orders/dashboard';
+import { createOrderFromIntake, parseOrderIntake } from '@/lib/orders/intake';
+import { PRIORITY_CLASSES, PriorityClass } from '@/lib/priority/engine';
+import { ORDER_STATUSES, OrderStatus } from '@/lib/status/transitions';
+
+// filter: delivery_date, status (ค่าเริ่มต้น pending), priority_class, zone_id
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const dateParam = searchParams.get('delivery_date');
+    const status = searchParams.get('status') ?? 'pending';
+    const priorityClass = searchParams.get('priority_class');
+
+    const deliveryDate = dateParam ? new Date(dateParam) : undefined;
+    if (deliveryDate && isNaN(deliveryDate.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid request: delivery_date must be a valid date' },
+        { status: 400 }
+      );
+    }
+
+    if (!ORDER_STATUSES.includes(status as OrderStatus)) {
+      return NextResponse.json(
+        { error: `Invalid request: status must be one of ${ORDER_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (priorityClass && !PRIORITY_CLASSES.includes(priorityClass as PriorityClass)) {
+      return NextResponse.json(
+        { error: `Invalid request: priority_class must be one of ${PRIORITY_CLASSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const orders = await getPendingOrders({
+      delivery_date: deliveryDate,
+      status,
+      priority_class: priorityClass ?? undefined,
+      zone_id: searchParams.get('zone_id') ?? undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      total_orders: orders.length,
+      orders: orders.map(toDashboardOrder)
+    });
+  } catch (error) {
+    console.error('Error fetching orders:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json(
+        { error: 'Invalid request: JSON body required' },
+        { status: 400 }
+      );
+    }
+
+    const input = parseOrderIntake(body);
+    const { order, tracking } = await createOrderFromIntake(input);
+
+    return NextResponse.json(
+      { success: true, order, tracking },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error creating order:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
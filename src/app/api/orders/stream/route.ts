@@ -0,0 +1,64 @@
+// ===================================
+// File: app/api/orders/stream/route.ts
+// API Route สำหรับ Server-Sent Events: แจ้ง dashboard เมื่อมีออเดอร์ใหม่ คำนวณ priority ใหม่ หรือเปลี่ยนสถานะ
+// ===================================
+
+import { NextRequest } from 'next/server';
+import { subscribeOrderFeed } from '@/lib/realtime/order-feed';
+
+export const dynamic = 'force-dynamic';
+
+// กัน proxy ตัดการเชื่อมต่อที่เงียบนานเกินไป
+const HEARTBEAT_INTERVAL_MS = 25000;
+const RECONNECT_DELAY_MS = 5000;
+
+export async function GET(request: NextRequest) {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribeOrderFeed(events => {
+        send(`event: orders\ndata: ${JSON.stringify({ events })}\n\n`);
+      });
+      const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // stream ถูกปิดจากฝั่ง client ไปแล้ว
+        }
+      };
+
+      request.signal.addEventListener('abort', () => cleanup());
+      send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
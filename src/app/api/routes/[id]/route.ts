@@ -0,0 +1,35 @@
+// ===================================
+// File: app/api/routes/[id]/route.ts
+// API Route สำหรับดูเส้นทางพร้อมลำดับจุดส่ง
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRouteById } from '@/lib/db/queries';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const route = await getRouteById(id);
+
+    if (!route) {
+      return NextResponse.json(
+        { error: 'Route not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      route
+    });
+  } catch (error) {
+    console.error('Error fetching route:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
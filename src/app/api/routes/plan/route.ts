@@ -0,0 +1,90 @@
+// ===================================
+// File: app/api/routes/plan/route.ts
+// API Route สำหรับวางแผนเส้นทางการจัดส่งของรถหนึ่งคัน
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AppError } from '@/lib/errors';
+import { isValidLatLng } from '@/lib/routing/geo';
+import { MAX_ROUTE_STOPS } from '@/lib/routing/planner';
+import { planRoute } from '@/lib/routing/service';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const { vehicle_id, driver_id, depot, order_ids, start_time, priority_weight, persist } =
+      (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+    if (!vehicle_id || typeof vehicle_id !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid request: vehicle_id required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidLatLng(depot)) {
+      return NextResponse.json(
+        { error: 'Invalid request: depot with latitude and longitude required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(order_ids) || order_ids.length === 0
+      || !order_ids.every(id => typeof id === 'string' && id.length > 0)) {
+      return NextResponse.json(
+        { error: 'Invalid request: order_ids must be a non-empty array of strings' },
+        { status: 400 }
+      );
+    }
+
+    if (order_ids.length > MAX_ROUTE_STOPS) {
+      return NextResponse.json(
+        { error: `Invalid request: order_ids must have at most ${MAX_ROUTE_STOPS} entries` },
+        { status: 400 }
+      );
+    }
+
+    const startTime = start_time ? new Date(start_time as string) : undefined;
+    if (startTime && isNaN(startTime.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid request: start_time must be a valid date' },
+        { status: 400 }
+      );
+    }
+
+    if (priority_weight !== undefined && (typeof priority_weight !== 'number' || priority_weight < 0)) {
+      return NextResponse.json(
+        { error: 'Invalid request: priority_weight must be a non-negative number' },
+        { status: 400 }
+      );
+    }
+
+    const result = await planRoute({
+      vehicle_id,
+      driver_id: typeof driver_id === 'string' ? driver_id : undefined,
+      depot,
+      order_ids: [...new Set(order_ids as string[])],
+      start_time: startTime,
+      priority_weight,
+      persist: persist === true
+    });
+
+    return NextResponse.json(
+      { success: true, ...result },
+      { status: result.route_id ? 201 : 200 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error planning route:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
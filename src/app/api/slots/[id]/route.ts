@@ -0,0 +1,47 @@
+// ===================================
+// File: app/api/slots/[id]/route.ts
+// API Route สำหรับตั้ง capacity ของ slot เอง (เช่นปิดรับด้วย capacity 0)
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDeliverySlotById, updateDeliverySlotCapacity } from '@/lib/db/queries';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { capacity } = body;
+
+    if (typeof capacity !== 'number' || !Number.isInteger(capacity) || capacity < 0) {
+      return NextResponse.json(
+        { error: 'Invalid request: capacity must be a non-negative integer' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getDeliverySlotById(id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Delivery slot not found' },
+        { status: 404 }
+      );
+    }
+
+    // ลด capacity ต่ำกว่ายอดจองได้ ออเดอร์ที่จองแล้วยังอยู่ แต่จะไม่รับเพิ่ม
+    const slot = await updateDeliverySlotCapacity(id, capacity);
+
+    return NextResponse.json({
+      success: true,
+      slot
+    });
+  } catch (error) {
+    console.error('Error updating delivery slot:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
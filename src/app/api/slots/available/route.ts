@@ -0,0 +1,33 @@
+// ===================================
+// File: app/api/slots/available/route.ts
+// API Route สำหรับหน้าสั่งซื้อ: ช่วงเวลาส่งที่ยังจองได้สำหรับที่อยู่และตะกร้านี้
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AppError } from '@/lib/errors';
+import { getAvailableSlots, parseSlotQuery } from '@/lib/slots/service';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const result = await getAvailableSlots(parseSlotQuery(body));
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error fetching available slots:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
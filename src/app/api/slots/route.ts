@@ -0,0 +1,60 @@
+// ===================================
+// File: app/api/slots/route.ts
+// API Route สำหรับพนักงาน: slot ทั้งหมดของโซนในวันที่เลือก พร้อมยอดจอง
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDayRange } from '@/lib/dates';
+import { getDeliverySlots, getDeliveryZoneById } from '@/lib/db/queries';
+import { ensureZoneSlots } from '@/lib/slots/service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const zoneId = searchParams.get('zone_id');
+    const dateParam = searchParams.get('date');
+
+    if (!zoneId) {
+      return NextResponse.json(
+        { error: 'Invalid request: zone_id required' },
+        { status: 400 }
+      );
+    }
+
+    const date = dateParam ? new Date(dateParam) : new Date();
+    if (isNaN(date.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid request: date must be a valid date' },
+        { status: 400 }
+      );
+    }
+
+    const zone = await getDeliveryZoneById(zoneId);
+    if (!zone) {
+      return NextResponse.json(
+        { error: 'Delivery zone not found' },
+        { status: 404 }
+      );
+    }
+
+    const { start, end } = getDayRange(date);
+    if (zone.is_active) {
+      await ensureZoneSlots(zone, start, 1);
+    }
+    const slots = await getDeliverySlots(zone.id, start, end);
+
+    return NextResponse.json({
+      success: true,
+      zone_id: zone.id,
+      total_capacity: slots.reduce((sum, slot) => sum + slot.capacity, 0),
+      total_reserved: slots.reduce((sum, slot) => sum + slot.reserved_count, 0),
+      slots
+    });
+  } catch (error) {
+    console.error('Error fetching delivery slots:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+// ===================================
+// File: app/api/telemetry/breaches/route.ts
+// API Route สำหรับรายงานคุณภาพ: ช่วงที่อุณหภูมิหลุดช่วงและ delivery ที่ได้รับผลกระทบ
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTemperatureBreaches } from '@/lib/db/queries';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    const start = from ? new Date(from) : undefined;
+    const end = to ? new Date(to) : undefined;
+    if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime()))) {
+      return NextResponse.json(
+        { error: 'Invalid request: from/to must be valid dates' },
+        { status: 400 }
+      );
+    }
+
+    const breaches = await getTemperatureBreaches({
+      start,
+      end,
+      vehicle_id: searchParams.get('vehicle_id') ?? undefined,
+      open_only: searchParams.get('open') === 'true'
+    });
+
+    return NextResponse.json({
+      success: true,
+      total_breaches: breaches.length,
+      total_breach_minutes: Math.round(breaches.reduce((sum, b) => sum + b.duration_minutes, 0) * 100) / 100,
+      breaches
+    });
+  } catch (error) {
+    console.error('Error fetching temperature breaches:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+// ===================================
+// File: app/api/telemetry/temperature/route.ts
+// API Route สำหรับรับอุณหภูมิจากเซนเซอร์ในรถ (หลาย reading ต่อครั้ง)
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AppError } from '@/lib/errors';
+import { ingestTemperatureReadings, parseTemperatureIngest } from '@/lib/telemetry/service';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const input = parseTemperatureIngest(body);
+
+    const result = await ingestTemperatureReadings(input);
+
+    return NextResponse.json(
+      { success: true, ...result },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error ingesting temperature readings:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+// ===================================
+// File: app/api/track/[token]/route.ts
+// API Route สาธารณะสำหรับลูกค้า: ดูสถานะออเดอร์ และแก้หมายเหตุ/แจ้งไม่อยู่ก่อนจ่ายงาน (ใช้ token จากลิงก์)
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { AppError } from '@/lib/errors';
+import { getTrackingView, parseTrackingUpdate, updateTracking } from '@/lib/tracking/order-tracking';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const tracking = await getTrackingView(token);
+
+    return NextResponse.json({
+      success: true,
+      tracking
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error fetching order tracking:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const body = await request.json().catch(() => null);
+    const input = parseTrackingUpdate(body);
+
+    const tracking = await updateTracking(token, input);
+
+    return NextResponse.json({
+      success: true,
+      tracking
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error updating order tracking:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+// ===================================
+// File: app/api/zones/lookup/route.ts
+// API Route สำหรับหาว่าพิกัดอยู่ในโซนส่งใด (ใช้ตรวจที่อยู่ก่อนรับออเดอร์)
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidLatLng } from '@/lib/routing/geo';
+import { findZoneForLocation, getZoneRules } from '@/lib/zones/service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const location = {
+      latitude: Number(searchParams.get('latitude')),
+      longitude: Number(searchParams.get('longitude'))
+    };
+
+    if (!searchParams.has('latitude') || !searchParams.has('longitude') || !isValidLatLng(location)) {
+      return NextResponse.json(
+        { error: 'Invalid request: latitude and longitude required' },
+        { status: 400 }
+      );
+    }
+
+    const zone = await findZoneForLocation(location);
+
+    return NextResponse.json({
+      success: true,
+      in_service_area: zone !== null,
+      zone: zone && {
+        id: zone.id,
+        name: zone.name,
+        depot: { id: zone.depot.id, name: zone.depot.name },
+        ...getZoneRules(zone)
+      }
+    });
+  } catch (error) {
+    console.error('Error looking up delivery zone:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
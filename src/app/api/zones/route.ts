@@ -0,0 +1,51 @@
+// ===================================
+// File: app/api/zones/route.ts
+// API Route สำหรับจัดการโซนส่ง (polygon, เวลาทำการ, ช่วงเวลาส่ง, ยอดขั้นต่ำ)
+// ===================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDeliveryZones } from '@/lib/db/queries';
+import { AppError } from '@/lib/errors';
+import { addDeliveryZone, parseZoneInput } from '@/lib/zones/service';
+
+export async function GET() {
+  try {
+    const zones = await getDeliveryZones();
+
+    return NextResponse.json({
+      success: true,
+      zones
+    });
+  } catch (error) {
+    console.error('Error fetching delivery zones:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const zone = await addDeliveryZone(parseZoneInput(body));
+
+    return NextResponse.json(
+      { success: true, zone },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error creating delivery zone:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import { useState } from 'react';
+import { useParams } from 'next/navigation';
+import { Star } from 'lucide-react';
+import type { FeedbackTag } from '@/lib/feedback/service';
+
+// ===================================
+// Types & Constants
+// ===================================
+
+const TAG_LABELS: Record<FeedbackTag, string> = {
+  on_time: 'ส่งตรงเวลา',
+  friendly_driver: 'คนขับสุภาพ',
+  well_packed: 'แพ็คของดี',
+  cold_food: 'อาหารไม่ร้อน/ไม่เย็น',
+  late: 'ส่งช้า',
+  damaged: 'ของเสียหาย',
+  wrong_items: 'ของไม่ครบ/ผิด',
+  rude_driver: 'คนขับไม่สุภาพ'
+};
+
+// ===================================
+// Main Component
+// ===================================
+
+export default function DeliveryFeedbackPage() {
+  const { token } = useParams<{ token: string }>();
+
+  const [rating, setRating] = useState(0);
+  const [tags, setTags] = useState<FeedbackTag[]>([]);
+  const [comment, setComment] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const toggleTag = (tag: FeedbackTag) => {
+    setTags(current => current.includes(tag) ? current.filter(item => item !== tag) : [...current, tag]);
+  };
+
+  const submitFeedback = async () => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, rating, tags, comment: comment || undefined })
+      });
+      if (!response.ok) {
+        setMessage(response.status === 409
+          ? 'ออเดอร์นี้ได้รับรีวิวแล้ว'
+          : response.status === 404 || response.status === 410
+            ? 'ลิงก์รีวิวนี้ใช้ไม่ได้หรือหมดอายุแล้ว'
+            : 'ส่งรีวิวไม่สำเร็จ กรุณาลองใหม่');
+        return;
+      }
+      setIsSubmitted(true);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-seven-green text-white shadow-lg">
+        <div className="max-w-lg mx-auto px-4 py-5 flex items-center gap-3">
+          <div className="bg-white text-seven-green px-3 py-1 rounded-lg font-bold text-lg">7-ELEVEN</div>
+          <h1 className="text-lg font-bold">ให้คะแนนการจัดส่ง</h1>
+        </div>
+      </header>
+
+      <main className="max-w-lg mx-auto px-4 py-6">
+        {isSubmitted ? (
+          <div className="bg-white rounded-xl shadow-md p-6 text-center font-semibold text-seven-green">
+            ขอบคุณสำหรับรีวิว
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-md p-5 space-y-4">
+            <div className="flex justify-center gap-2">
+              {[1, 2, 3, 4, 5].map(value => (
+                <button key={value} onClick={() => setRating(value)} aria-label={`${value} ดาว`}>
+                  <Star className={`w-9 h-9 ${
+                    value <= rating ? 'fill-seven-orange text-seven-orange' : 'text-gray-300'
+                  }`} />
+                </button>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(TAG_LABELS) as FeedbackTag[]).map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  className={`text-sm px-3 py-1 rounded-full border ${
+                    tags.includes(tag) ? 'bg-seven-green text-white border-seven-green' : 'text-gray-600'
+                  }`}
+                >
+                  {TAG_LABELS[tag]}
+                </button>
+              ))}
+            </div>
+
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              maxLength={2000}
+              rows={3}
+              className="w-full border rounded-lg px-3 py-2 text-sm"
+              placeholder="ความคิดเห็นเพิ่มเติม (ไม่บังคับ)"
+            />
+
+            <button
+              onClick={submitFeedback}
+              disabled={isSaving || rating === 0}
+              className="w-full bg-seven-green text-white font-semibold py-2 rounded-lg disabled:opacity-50"
+            >
+              ส่งรีวิว
+            </button>
+
+            {message && <p className="text-sm text-center text-gray-600">{message}</p>}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
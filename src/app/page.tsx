@@ -5,268 +5,139 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Calculator, Package, Truck, Clock, ThermometerSnowflake, AlertTriangle } from 'lucide-react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Calculator, Package, Truck, Clock, ThermometerSnowflake, AlertTriangle, MapPin } from 'lucide-react';
+import DispatchMap from '@/components/DispatchMap';
+import type { DriverPosition, MapRoute } from '@/lib/map/overview';
+import type { DashboardOrder } from '@/lib/orders/dashboard';
 
 // ===================================
-// Types & Interfaces
+// Types & Constants
 // ===================================
 
-interface Product {
-  product_id: string;
-  name: string;
-  category: 'hot_food' | 'frozen' | 'chilled' | 'beverage' | 'snack' | 'daily_goods' | 'medicine';
-  price: number;
-  quantity: number;
-  expiration_hours: number; // ชั่วโมงจนกว่าจะหมดอายุ
+interface DashboardFilters {
+  delivery_date: string;
+  status: string;
+  priority_class: string;
+  zone_id: string;
 }
 
-interface Order {
-  order_id: string;
-  customer_name: string;
-  customer_address: string;
-  delivery_latitude: number;
-  delivery_longitude: number;
-  customer_priority: 'urgent' | 'high' | 'standard' | 'economy';
-  order_time: string;
-  delivery_window_end: string;
-  products: Product[];
-  // Calculated fields
-  priority_score?: number;
-  priority_class?: string;
-  suggested_delivery_order?: number;
-  highest_temp_requirement?: string;
-  total_value?: number;
-  earliest_expiration?: number;
+interface ZoneOption {
+  id: string;
+  name: string;
 }
 
-// ===================================
-// Priority Calculator (Realistic Version)
-// ===================================
-
-class OrderPriorityCalculator {
-  // Temperature categories based on product category
-  private tempRequirements = {
-    hot_food: { temp: 'hot', score: 100, label: 'ร้อน 60-70°C', icon: '🔥', color: 'red' },
-    frozen: { temp: 'frozen', score: 90, label: 'แช่แข็ง -18°C', icon: '❄️', color: 'blue' },
-    chilled: { temp: 'chilled', score: 75, label: 'เย็น 0-4°C', icon: '🧊', color: 'cyan' },
-    beverage: { temp: 'cool', score: 40, label: 'เย็น 15-20°C', icon: '🥤', color: 'green' },
-    snack: { temp: 'ambient', score: 20, label: 'ปกติ', icon: '🍪', color: 'gray' },
-    daily_goods: { temp: 'ambient', score: 20, label: 'ปกติ', icon: '📦', color: 'gray' },
-    medicine: { temp: 'ambient', score: 60, label: 'ปกติ (ยา)', icon: '💊', color: 'purple' }
-  };
-
-  private customerPriorityScores = {
-    urgent: 100,
-    high: 75,
-    standard: 50,
-    economy: 25
-  };
-
-  calculateOrderPriority(order: Order): Order {
-    const now = new Date(order.order_time);
-    
-    // 1. หา Temperature Requirement สูงสุดในออเดอร์
-    const tempScores = order.products.map(p => 
-      this.tempRequirements[p.category]?.score || 20
-    );
-    const maxTempScore = Math.max(...tempScores);
-    const highestTempProduct = order.products.find(p => 
-      this.tempRequirements[p.category]?.score === maxTempScore
-    );
-    const tempRequirement = this.tempRequirements[highestTempProduct?.category || 'snack'];
-
-    // 2. หาอายุสั้นที่สุด (Earliest Expiration)
-    const expirations = order.products.map(p => p.expiration_hours);
-    const minExpiration = Math.min(...expirations);
-    const expirationScore = this.scoreExpiration(minExpiration);
-
-    // 3. Customer Priority
-    const customerScore = this.customerPriorityScores[order.customer_priority] || 50;
-
-    // 4. Total Order Value
-    const totalValue = order.products.reduce((sum, p) => sum + (p.price * p.quantity), 0);
-    const valueScore = this.scoreValue(totalValue);
-
-    // 5. Delivery Window Urgency
-    const deliveryEnd = new Date(order.delivery_window_end);
-    const minutesRemaining = (deliveryEnd.getTime() - now.getTime()) / (1000 * 60);
-    const windowScore = this.scoreDeliveryWindow(minutesRemaining);
-
-    // 6. Fragility (Medicine = fragile)
-    const hasMedicine = order.products.some(p => p.category === 'medicine');
-    const fragilityScore = hasMedicine ? 100 : 30;
-
-    // Calculate weighted score
-    const weights = {
-      temperature: 0.30,      // เพิ่มน้ำหนักเพราะสำคัญที่สุด
-      expiration: 0.25,       // เพิ่มเพราะเกี่ยวกับของเสีย
-      customer_priority: 0.15,
-      value: 0.10,
-      delivery_window: 0.15,
-      fragility: 0.05
-    };
-
-    const totalScore = 
-      (maxTempScore * weights.temperature) +
-      (expirationScore * weights.expiration) +
-      (customerScore * weights.customer_priority) +
-      (valueScore * weights.value) +
-      (windowScore * weights.delivery_window) +
-      (fragilityScore * weights.fragility);
-
-    // Classify priority
-    const priorityClass = this.classifyPriority(totalScore);
-
-    return {
-      ...order,
-      priority_score: Math.round(totalScore * 100) / 100,
-      priority_class: priorityClass,
-      highest_temp_requirement: tempRequirement.label,
-      total_value: totalValue,
-      earliest_expiration: minExpiration
-    };
-  }
-
-  private scoreExpiration(hours: number): number {
-    if (hours <= 3) return 100;  // อาหารร้อน
-    if (hours <= 8) return 90;   // แซนด์วิช
-    if (hours <= 24) return 70;
-    if (hours <= 168) return 50; // 1 สัปดาห์
-    return 30;
-  }
-
-  private scoreValue(value: number): number {
-    if (value >= 500) return 100;
-    if (value >= 200) return 80;
-    if (value >= 100) return 60;
-    if (value >= 50) return 40;
-    return 20;
-  }
-
-  private scoreDeliveryWindow(minutes: number): number {
-    if (minutes <= 15) return 100;
-    if (minutes <= 30) return 90;
-    if (minutes <= 60) return 70;
-    if (minutes <= 120) return 50;
-    return 30;
-  }
-
-  private classifyPriority(score: number): string {
-    if (score >= 75) return 'critical';
-    if (score >= 60) return 'high';
-    if (score >= 40) return 'medium';
-    return 'low';
-  }
+const ORDER_STATUS_LABELS: Record<string, string> = {
+  pending: 'รอจ่ายงาน',
+  assigned: 'จ่ายงานแล้ว',
+  in_transit: 'กำลังจัดส่ง',
+  delivered: 'ส่งสำเร็จ',
+  failed: 'ส่งไม่สำเร็จ',
+  cancelled: 'ยกเลิก'
+};
+
+const PRIORITY_CLASS_LABELS: Record<string, string> = {
+  critical: '🔴 เร่งด่วนมาก',
+  high: '🟠 เร่งด่วน',
+  medium: '🔵 ปานกลาง',
+  low: '🟢 ปกติ'
+};
+
+// event ที่มาติด ๆ กัน (เช่นคำนวณ priority ใหม่ทั้งวัน) รวมเป็นการโหลดครั้งเดียว
+const REFRESH_DEBOUNCE_MS = 500;
+
+function toDateInput(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
 }
 
-// ===================================
-// Mock Data
-// ===================================
-
-const mockOrders: Order[] = [
-  {
-    order_id: 'ORD001',
-    customer_name: 'คุณสมชาย ใจดี',
-    customer_address: 'หอพัก Eton ชั้น 5 ห้อง 501',
-    delivery_latitude: 13.9660,
-    delivery_longitude: 100.5970,
-    customer_priority: 'urgent',
-    order_time: new Date().toISOString(),
-    delivery_window_end: new Date(Date.now() + 25 * 60000).toISOString(),
-    products: [
-      { product_id: 'P001', name: 'ข้าวกล่องหมูกระเพรา', category: 'hot_food', price: 65, quantity: 1, expiration_hours: 3 },
-      { product_id: 'P002', name: 'น้ำดื่ม', category: 'beverage', price: 10, quantity: 2, expiration_hours: 8760 }
-    ]
-  },
-  {
-    order_id: 'ORD002',
-    customer_name: 'คุณสมหญิง รักสวย',
-    customer_address: 'หอพักลุมพินี ตึก A ชั้น 3',
-    delivery_latitude: 13.9680,
-    delivery_longitude: 100.5980,
-    customer_priority: 'urgent',
-    order_time: new Date().toISOString(),
-    delivery_window_end: new Date(Date.now() + 30 * 60000).toISOString(),
-    products: [
-      { product_id: 'P003', name: 'ไอศกรีมวานิลลา', category: 'frozen', price: 89, quantity: 2, expiration_hours: 720 },
-      { product_id: 'P004', name: 'โค้ก', category: 'beverage', price: 20, quantity: 1, expiration_hours: 8760 }
-    ]
-  },
-  {
-    order_id: 'ORD003',
-    customer_name: 'คุณวิชัย มั่งคั่ง',
-    customer_address: 'อาคารศูนย์รังสิต มธ. อาคาร SC ห้อง 210',
-    delivery_latitude: 13.9640,
-    delivery_longitude: 100.5960,
-    customer_priority: 'high',
-    order_time: new Date().toISOString(),
-    delivery_window_end: new Date(Date.now() + 45 * 60000).toISOString(),
-    products: [
-      { product_id: 'P005', name: 'แซนด์วิชไข่ทูน่า', category: 'chilled', price: 45, quantity: 2, expiration_hours: 8 },
-      { product_id: 'P006', name: 'กาแฟเย็น', category: 'beverage', price: 40, quantity: 1, expiration_hours: 24 }
-    ]
-  },
-  {
-    order_id: 'ORD004',
-    customer_name: 'คุณนิดา สุขสันต์',
-    customer_address: 'โรงพยาบาลธรรมศาสตร์ ตึกผู้ป่วยนอก',
-    delivery_latitude: 13.9700,
-    delivery_longitude: 100.5930,
-    customer_priority: 'high',
-    order_time: new Date().toISOString(),
-    delivery_window_end: new Date(Date.now() + 60 * 60000).toISOString(),
-    products: [
-      { product_id: 'P007', name: 'ยาพาราเซตามอล', category: 'medicine', price: 120, quantity: 1, expiration_hours: 17520 },
-      { product_id: 'P008', name: 'น้ำเกลือแร่', category: 'beverage', price: 15, quantity: 3, expiration_hours: 8760 }
-    ]
-  },
-  {
-    order_id: 'ORD005',
-    customer_name: 'คุณประยุทธ อยู่เย็น',
-    customer_address: 'ตลาดรังสิต ร้านค้าเลขที่ 42',
-    delivery_latitude: 13.9620,
-    delivery_longitude: 100.5920,
-    customer_priority: 'standard',
-    order_time: new Date().toISOString(),
-    delivery_window_end: new Date(Date.now() + 120 * 60000).toISOString(),
-    products: [
-      { product_id: 'P009', name: 'มาม่า', category: 'snack', price: 25, quantity: 5, expiration_hours: 4380 },
-      { product_id: 'P010', name: 'น้ำดื่ม 6 ขวด', category: 'beverage', price: 60, quantity: 1, expiration_hours: 8760 }
-    ]
-  }
-];
-
 // ===================================
 // Main Component
 // ===================================
 
 export default function DeliveryPriorityDashboard() {
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [sortedOrders, setSortedOrders] = useState<Order[]>([]);
-  const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const [orders, setOrders] = useState<DashboardOrder[]>([]);
+  const [routes, setRoutes] = useState<MapRoute[]>([]);
+  const [driverPositions, setDriverPositions] = useState<DriverPosition[]>([]);
+  const [zones, setZones] = useState<ZoneOption[]>([]);
+  const [filters, setFilters] = useState<DashboardFilters>({
+    delivery_date: toDateInput(new Date()),
+    status: 'pending',
+    priority_class: '',
+    zone_id: ''
+  });
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
   const [currentTime, setCurrentTime] = useState(new Date());
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLive, setIsLive] = useState(false);
+  const [dispatchNotice, setDispatchNotice] = useState<string | null>(null);
+
+  const loadDashboard = useCallback(async () => {
+    const params = new URLSearchParams(
+      Object.entries(filters).filter(([, value]) => value !== '')
+    );
+
+    try {
+      const [response, mapResponse] = await Promise.all([
+        fetch(`/api/orders?${params}`, { cache: 'no-store' }),
+        fetch(`/api/map?date=${filters.delivery_date}`, { cache: 'no-store' })
+      ]);
+      const [body, mapBody] = await Promise.all([response.json(), mapResponse.json()]);
+      if (!response.ok) {
+        throw new Error(body.error ?? 'โหลดรายการออเดอร์ไม่สำเร็จ');
+      }
+      setOrders(body.orders);
+      if (mapResponse.ok) {
+        setRoutes(mapBody.routes);
+        setDriverPositions(mapBody.driver_positions);
+      }
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'โหลดรายการออเดอร์ไม่สำเร็จ');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters]);
 
+  // ให้ event จาก stream โหลดด้วย filter ล่าสุดเสมอ โดยไม่ต้องต่อ stream ใหม่
+  const loadDashboardRef = useRef(loadDashboard);
   useEffect(() => {
-    // Calculate priority for all orders
-    const calculator = new OrderPriorityCalculator();
-    const calculated = mockOrders.map(order => calculator.calculateOrderPriority(order));
-    
-    // Sort by priority score
-    const sorted = [...calculated].sort((a, b) => 
-      (b.priority_score || 0) - (a.priority_score || 0)
-    );
-    
-    // Add suggested delivery order
-    sorted.forEach((order, index) => {
-      order.suggested_delivery_order = index + 1;
+    loadDashboardRef.current = loadDashboard;
+    loadDashboard();
+  }, [loadDashboard]);
+
+  useEffect(() => {
+    fetch('/api/zones', { cache: 'no-store' })
+      .then(response => response.ok ? response.json() : { zones: [] })
+      .then(body => setZones(body.zones ?? []))
+      .catch(() => setZones([]));
+  }, []);
+
+  // Live updates: ออเดอร์ใหม่, คำนวณ priority ใหม่, เปลี่ยนสถานะ
+  useEffect(() => {
+    const source = new EventSource('/api/orders/stream');
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+    source.onopen = () => {
+      setIsLive(true);
+      // ต่อใหม่หลังหลุด อาจพลาด event ระหว่างนั้น
+      loadDashboardRef.current();
+    };
+    source.onerror = () => setIsLive(false);
+    source.addEventListener('orders', () => {
+      clearTimeout(refreshTimer);
+      refreshTimer = setTimeout(() => loadDashboardRef.current(), REFRESH_DEBOUNCE_MS);
     });
-    
-    setOrders(calculated);
-    setSortedOrders(sorted);
+
+    return () => {
+      clearTimeout(refreshTimer);
+      source.close();
+    };
   }, []);
 
-  // Update current time every minute
+  // Update current time every minute (คะแนนคำนวณใหม่ที่ server และส่งมาทาง stream)
   useEffect(() => {
     const interval = setInterval(() => {
       setCurrentTime(new Date());
@@ -274,6 +145,40 @@ export default function DeliveryPriorityDashboard() {
     return () => clearInterval(interval);
   }, []);
 
+  const updateFilter = (key: keyof DashboardFilters, value: string) => {
+    setFilters(current => ({ ...current, [key]: value }));
+  };
+
+  // ออเดอร์ในโซนเดียวกันใช้คลังของโซนนั้นวางเส้นทางต่อทันที
+  const dispatchOrders = async (orderIds: string[]) => {
+    const zoneIds = new Set(orders.filter(order => orderIds.includes(order.id)).map(order => order.zone?.id));
+    const [zoneId] = zoneIds;
+
+    const response = await fetch('/api/dispatch/auto', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        order_ids: orderIds,
+        delivery_date: filters.delivery_date,
+        zone_id: zoneIds.size === 1 && zoneId ? zoneId : undefined
+      })
+    });
+    const body = await response.json();
+
+    if (!response.ok) {
+      setDispatchNotice(`จ่ายงานไม่สำเร็จ: ${body.error}`);
+      return;
+    }
+
+    setDispatchNotice(
+      `จ่ายงานแล้ว ${body.total_assigned} ออเดอร์` +
+      (body.total_unassigned > 0 ? ` • ยังไม่ได้รถ ${body.total_unassigned} ออเดอร์` : '')
+    );
+    await loadDashboard();
+  };
+
+  const selectedOrder = orders.find(order => order.id === selectedOrderId) ?? null;
+
   const getPriorityColor = (priorityClass: string) => {
     switch (priorityClass) {
       case 'critical': return 'bg-seven-red';
@@ -308,7 +213,7 @@ export default function DeliveryPriorityDashboard() {
     total: orders.length,
     critical: orders.filter(o => o.priority_class === 'critical').length,
     high: orders.filter(o => o.priority_class === 'high').length,
-    totalValue: orders.reduce((sum, o) => sum + (o.total_value || 0), 0)
+    totalValue: Math.round(orders.reduce((sum, o) => sum + o.total_value, 0) * 100) / 100
   };
 
   return (
@@ -331,12 +236,80 @@ export default function DeliveryPriorityDashboard() {
               <div className="text-2xl font-bold">
                 {currentTime.toLocaleTimeString('th-TH', { hour: '2-digit', minute: '2-digit' })}
               </div>
+              <div className="text-xs text-green-50 mt-1">
+                {isLive ? '● อัปเดตสด' : '○ กำลังเชื่อมต่อ...'}
+              </div>
             </div>
           </div>
         </div>
       </header>
 
       <div className="container mx-auto px-4 py-6">
+        {/* Filters */}
+        <div className="bg-white rounded-xl shadow-md p-4 mb-6 grid grid-cols-1 md:grid-cols-4 gap-4">
+          <label className="text-sm">
+            <span className="block text-gray-500 font-semibold mb-1">วันที่ส่ง</span>
+            <input
+              type="date"
+              value={filters.delivery_date}
+              onChange={(e) => updateFilter('delivery_date', e.target.value)}
+              className="w-full border rounded-lg px-3 py-2"
+            />
+          </label>
+          <label className="text-sm">
+            <span className="block text-gray-500 font-semibold mb-1">สถานะ</span>
+            <select
+              value={filters.status}
+              onChange={(e) => updateFilter('status', e.target.value)}
+              className="w-full border rounded-lg px-3 py-2"
+            >
+              {Object.entries(ORDER_STATUS_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm">
+            <span className="block text-gray-500 font-semibold mb-1">ระดับความสำคัญ</span>
+            <select
+              value={filters.priority_class}
+              onChange={(e) => updateFilter('priority_class', e.target.value)}
+              className="w-full border rounded-lg px-3 py-2"
+            >
+              <option value="">ทั้งหมด</option>
+              {Object.entries(PRIORITY_CLASS_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm">
+            <span className="block text-gray-500 font-semibold mb-1">โซน</span>
+            <select
+              value={filters.zone_id}
+              onChange={(e) => updateFilter('zone_id', e.target.value)}
+              className="w-full border rounded-lg px-3 py-2"
+            >
+              <option value="">ทุกโซน</option>
+              {zones.map(zone => (
+                <option key={zone.id} value={zone.id}>{zone.name}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {/* Map */}
+        {dispatchNotice && (
+          <div className="bg-white border-l-4 border-seven-green rounded-lg shadow-sm px-4 py-3 mb-4 flex justify-between">
+            <span className="text-sm">{dispatchNotice}</span>
+            <button onClick={() => setDispatchNotice(null)} className="text-gray-400 text-sm">✕</button>
+          </div>
+        )}
+        <DispatchMap
+          orders={orders}
+          routes={routes}
+          driverPositions={driverPositions}
+          onDispatch={dispatchOrders}
+        />
+
         {/* Summary Cards */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
           <div className="bg-white rounded-xl shadow-md p-6 border-t-4 border-seven-green">
@@ -412,14 +385,20 @@ export default function DeliveryPriorityDashboard() {
           </div>
 
           <div className="divide-y">
-            {sortedOrders.map((order) => {
+            {loadError && (
+              <div className="p-6 text-seven-red font-semibold">{loadError}</div>
+            )}
+            {!loadError && !isLoading && orders.length === 0 && (
+              <div className="p-6 text-gray-500 text-center">ไม่มีออเดอร์ตามเงื่อนไขที่เลือก</div>
+            )}
+            {orders.map((order) => {
               const timeRemaining = getTimeRemaining(order.delivery_window_end);
               
               return (
                 <div 
-                  key={order.order_id}
+                  key={order.id}
                   className="p-6 hover:bg-gray-50 cursor-pointer transition-colors"
-                  onClick={() => setSelectedOrder(order)}
+                  onClick={() => setSelectedOrderId(order.id)}
                 >
                   {/* Order Header */}
                   <div className="flex items-start justify-between mb-4">
@@ -427,7 +406,7 @@ export default function DeliveryPriorityDashboard() {
                       {/* Priority Badge */}
                       <div className="flex flex-col items-center">
                         <div className={`${getPriorityColor(order.priority_class || 'low')} text-white rounded-full w-12 h-12 flex items-center justify-center font-bold text-lg`}>
-                          #{order.suggested_delivery_order}
+                          #{order.priority_rank ?? '-'}
                         </div>
                         <span className="text-xs mt-1 text-gray-500">ลำดับแนะนำ</span>
                       </div>
@@ -436,7 +415,7 @@ export default function DeliveryPriorityDashboard() {
                       <div>
                         <div className="flex items-center gap-2 mb-1">
                           <span className="text-2xl">{getPriorityIcon(order.priority_class || 'low')}</span>
-                          <h3 className="font-bold text-lg">{order.order_id}</h3>
+                          <h3 className="font-bold text-lg">{order.id.slice(0, 8).toUpperCase()}</h3>
                           <span className={`px-3 py-1 rounded-full text-xs font-bold ${
                             order.priority_class === 'critical' ? 'bg-red-50 text-seven-red border border-seven-red' :
                             order.priority_class === 'high' ? 'bg-orange-50 text-seven-orange border border-seven-orange' :
@@ -447,13 +426,21 @@ export default function DeliveryPriorityDashboard() {
                           </span>
                         </div>
                         <p className="text-gray-600">{order.customer_name}</p>
-                        <p className="text-sm text-gray-500">{order.customer_address}</p>
+                        <p className="text-sm text-gray-500">{order.delivery_address}</p>
+                        <p className="text-xs text-gray-400 mt-1 flex items-center gap-1">
+                          <MapPin className="w-3 h-3" />
+                          {order.zone?.name ?? (order.outside_service_area ? 'นอกพื้นที่ให้บริการ' : 'ไม่ระบุโซน')}
+                          {' • '}{ORDER_STATUS_LABELS[order.order_status] ?? order.order_status}
+                          {order.customer_not_home && (
+                            <span className="text-seven-red font-semibold">{' • '}ลูกค้าแจ้งว่าไม่อยู่</span>
+                          )}
+                        </p>
                       </div>
                     </div>
 
                     {/* Priority Score */}
                     <div className="text-right">
-                      <div className="text-3xl font-bold text-seven-green">{order.priority_score}</div>
+                      <div className="text-3xl font-bold text-seven-green">{order.priority_score ?? '-'}</div>
                       <div className="text-xs text-gray-500 font-semibold">คะแนนความสำคัญ</div>
                     </div>
                   </div>
@@ -465,7 +452,7 @@ export default function DeliveryPriorityDashboard() {
                         <ThermometerSnowflake className="w-4 h-4 text-gray-400" />
                         <span className="text-xs text-gray-500">อุณหภูมิที่ต้องการ</span>
                       </div>
-                      <p className="font-semibold text-sm">{order.highest_temp_requirement}</p>
+                      <p className="font-semibold text-sm">{order.highest_temp_requirement ?? '-'}</p>
                     </div>
 
                     <div className="bg-gray-50 rounded-lg p-3">
@@ -483,7 +470,7 @@ export default function DeliveryPriorityDashboard() {
                         <Package className="w-4 h-4 text-gray-400" />
                         <span className="text-xs text-gray-500">จำนวนสินค้า</span>
                       </div>
-                      <p className="font-semibold text-sm">{order.products.length} รายการ</p>
+                      <p className="font-semibold text-sm">{order.items.length} รายการ</p>
                     </div>
 
                     <div className="bg-gray-50 rounded-lg p-3">
@@ -499,9 +486,9 @@ export default function DeliveryPriorityDashboard() {
                   <div className="border-t pt-3">
                     <p className="text-xs text-gray-500 mb-2">สินค้าในออเดอร์:</p>
                     <div className="flex flex-wrap gap-2">
-                      {order.products.map((product) => (
-                        <div key={product.product_id} className="bg-gray-100 rounded-lg px-3 py-1 text-sm">
-                          {product.name} x{product.quantity}
+                      {order.items.map((item) => (
+                        <div key={item.product_id} className="bg-gray-100 rounded-lg px-3 py-1 text-sm">
+                          {item.name} x{item.quantity}
                         </div>
                       ))}
                     </div>
@@ -516,7 +503,7 @@ export default function DeliveryPriorityDashboard() {
         {selectedOrder && (
           <div 
             className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
-            onClick={() => setSelectedOrder(null)}
+            onClick={() => setSelectedOrderId(null)}
           >
             <div 
               className="bg-white rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-auto"
@@ -524,9 +511,9 @@ export default function DeliveryPriorityDashboard() {
             >
               <div className={`${getPriorityColor(selectedOrder.priority_class || 'low')} p-6 text-white`}>
                 <div className="flex items-center justify-between mb-2">
-                  <h2 className="text-2xl font-bold">{selectedOrder.order_id}</h2>
+                  <h2 className="text-2xl font-bold">{selectedOrder.id.slice(0, 8).toUpperCase()}</h2>
                   <button 
-                    onClick={() => setSelectedOrder(null)}
+                    onClick={() => setSelectedOrderId(null)}
                     className="text-white/80 hover:text-white text-3xl"
                   >
                     ×
@@ -539,7 +526,7 @@ export default function DeliveryPriorityDashboard() {
                 <div className="bg-gradient-to-br from-seven-green/10 to-green-50 rounded-xl p-6 mb-4 border-2 border-seven-green/20">
                   <div className="text-center">
                     <div className="text-6xl font-bold text-seven-green mb-2">
-                      {selectedOrder.priority_score}
+                      {selectedOrder.priority_score ?? '-'}
                     </div>
                     <div className="text-sm text-gray-600 uppercase tracking-wide font-semibold">
                       คะแนนความสำคัญรวม
@@ -550,23 +537,41 @@ export default function DeliveryPriorityDashboard() {
                 <div className="space-y-3">
                   <div>
                     <h3 className="font-bold mb-2">ที่อยู่จัดส่ง</h3>
-                    <p className="text-gray-700">{selectedOrder.customer_address}</p>
+                    <p className="text-gray-700">{selectedOrder.delivery_address}</p>
+                    <p className="text-sm text-gray-500">
+                      ส่งระหว่าง {new Date(selectedOrder.delivery_window_start).toLocaleTimeString('th-TH', { hour: '2-digit', minute: '2-digit' })}
+                      {' - '}{new Date(selectedOrder.delivery_window_end).toLocaleTimeString('th-TH', { hour: '2-digit', minute: '2-digit' })}
+                    </p>
                   </div>
 
+                  {selectedOrder.priority_factors && (
+                    <div>
+                      <h3 className="font-bold mb-2">ที่มาของคะแนน</h3>
+                      <div className="grid grid-cols-2 gap-2">
+                        {Object.entries(selectedOrder.priority_factors).map(([factor, score]) => (
+                          <div key={factor} className="flex justify-between bg-gray-50 rounded-lg px-3 py-2 text-sm">
+                            <span className="text-gray-600">{factor}</span>
+                            <span className="font-semibold">{score}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   <div>
                     <h3 className="font-bold mb-2">สินค้าในออเดอร์</h3>
                     <div className="space-y-2">
-                      {selectedOrder.products.map((product) => (
-                        <div key={product.product_id} className="flex justify-between items-center bg-gray-50 rounded-lg p-3">
+                      {selectedOrder.items.map((item) => (
+                        <div key={item.product_id} className="flex justify-between items-center bg-gray-50 rounded-lg p-3">
                           <div>
-                            <p className="font-semibold">{product.name}</p>
+                            <p className="font-semibold">{item.name}</p>
                             <p className="text-sm text-gray-500">
-                              {product.category} • หมดอายุใน {product.expiration_hours}h
+                              {item.category} • หมดอายุ {new Date(item.expiration_datetime).toLocaleString('th-TH', { dateStyle: 'short', timeStyle: 'short' })}
                             </p>
                           </div>
                           <div className="text-right">
-                            <p className="font-bold">฿{product.price * product.quantity}</p>
-                            <p className="text-sm text-gray-500">x{product.quantity}</p>
+                            <p className="font-bold">฿{item.unit_price * item.quantity}</p>
+                            <p className="text-sm text-gray-500">x{item.quantity}</p>
                           </div>
                         </div>
                       ))}
@@ -582,7 +587,7 @@ export default function DeliveryPriorityDashboard() {
                 </div>
 
                 <button
-                  onClick={() => setSelectedOrder(null)}
+                  onClick={() => setSelectedOrderId(null)}
                   className="w-full mt-6 bg-seven-green hover:bg-seven-green-dark text-white font-bold py-3 rounded-lg transition-colors shadow-md"
                 >
                   ปิด
@@ -0,0 +1,239 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { Clock, Home, Package, Truck } from 'lucide-react';
+import type { TrackingView } from '@/lib/tracking/order-tracking';
+
+// ===================================
+// Types & Constants
+// ===================================
+
+const STATUS_STEPS = [
+  { status: 'pending', label: 'รับออเดอร์แล้ว' },
+  { status: 'assigned', label: 'เตรียมจัดส่ง' },
+  { status: 'in_transit', label: 'กำลังไปส่ง' },
+  { status: 'delivered', label: 'ส่งถึงแล้ว' }
+];
+
+const STATUS_MESSAGES: Record<string, string> = {
+  failed: 'การจัดส่งครั้งนี้ไม่สำเร็จ ทางร้านจะติดต่อกลับเพื่อนัดส่งใหม่',
+  cancelled: 'ออเดอร์นี้ถูกยกเลิกแล้ว'
+};
+
+const VEHICLE_LABELS: Record<string, string> = {
+  motorcycle: 'มอเตอร์ไซค์',
+  van: 'รถตู้',
+  truck: 'รถบรรทุก'
+};
+
+// ETA คำนวณใหม่ทุกครั้งที่คนขับส่งพิกัด
+const REFRESH_INTERVAL_MS = 30000;
+
+function formatTime(value: string): string {
+  return new Date(value).toLocaleTimeString('th-TH', { hour: '2-digit', minute: '2-digit' });
+}
+
+// ===================================
+// Main Component
+// ===================================
+
+export default function OrderTrackingPage() {
+  const { token } = useParams<{ token: string }>();
+
+  const [tracking, setTracking] = useState<TrackingView | null>(null);
+  const [notes, setNotes] = useState('');
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadTracking = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/track/${token}`, { cache: 'no-store' });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(response.status === 404 || response.status === 410
+          ? 'ลิงก์ติดตามนี้ใช้ไม่ได้หรือหมดอายุแล้ว'
+          : 'โหลดข้อมูลไม่สำเร็จ กรุณาลองใหม่');
+      }
+      setTracking(body.tracking);
+      // ไม่ทับข้อความที่ลูกค้ากำลังพิมพ์อยู่
+      setNotes(current => current === '' ? body.tracking.delivery_notes ?? '' : current);
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'โหลดข้อมูลไม่สำเร็จ กรุณาลองใหม่');
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadTracking();
+    const interval = setInterval(loadTracking, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadTracking]);
+
+  const saveUpdate = async (update: { delivery_notes?: string; not_home?: boolean }) => {
+    setIsSaving(true);
+    setSaveMessage(null);
+    try {
+      const response = await fetch(`/api/track/${token}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update)
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        setSaveMessage(response.status === 409
+          ? 'คนขับรับงานแล้ว ไม่สามารถแก้ไขได้'
+          : 'บันทึกไม่สำเร็จ กรุณาลองใหม่');
+        await loadTracking();
+        return;
+      }
+      setTracking(body.tracking);
+      setNotes(body.tracking.delivery_notes ?? '');
+      setSaveMessage('บันทึกแล้ว');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loadError && !tracking) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl shadow-md p-6 text-center text-gray-600">{loadError}</div>
+      </div>
+    );
+  }
+
+  if (!tracking) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4 text-gray-500">
+        กำลังโหลด...
+      </div>
+    );
+  }
+
+  const currentStep = STATUS_STEPS.findIndex(step => step.status === tracking.status);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-seven-green text-white shadow-lg">
+        <div className="max-w-lg mx-auto px-4 py-5 flex items-center gap-3">
+          <div className="bg-white text-seven-green px-3 py-1 rounded-lg font-bold text-lg">7-ELEVEN</div>
+          <h1 className="text-lg font-bold">ติดตามออเดอร์</h1>
+        </div>
+      </header>
+
+      <main className="max-w-lg mx-auto px-4 py-6 space-y-4">
+        {/* Status */}
+        <div className="bg-white rounded-xl shadow-md p-5">
+          {STATUS_MESSAGES[tracking.status] ? (
+            <p className="font-semibold text-seven-red">{STATUS_MESSAGES[tracking.status]}</p>
+          ) : (
+            <ol className="flex justify-between">
+              {STATUS_STEPS.map((step, index) => (
+                <li key={step.status} className="flex flex-col items-center flex-1 text-center">
+                  <div className={`w-8 h-8 rounded-full flex items-center justify-center text-white font-bold ${
+                    index <= currentStep ? 'bg-seven-green' : 'bg-gray-300'
+                  }`}>
+                    {index + 1}
+                  </div>
+                  <span className={`text-xs mt-2 ${index === currentStep ? 'font-bold' : 'text-gray-500'}`}>
+                    {step.label}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        {/* Delivery window & ETA */}
+        <div className="bg-white rounded-xl shadow-md p-5 space-y-3">
+          <div className="flex items-center gap-3">
+            <Clock className="w-5 h-5 text-seven-green" />
+            <div>
+              <p className="text-xs text-gray-500">ช่วงเวลาจัดส่ง</p>
+              <p className="font-semibold">
+                {new Date(tracking.delivery_date).toLocaleDateString('th-TH', { dateStyle: 'medium' })}
+                {' '}{formatTime(tracking.delivery_window_start)} - {formatTime(tracking.delivery_window_end)}
+              </p>
+            </div>
+          </div>
+
+          {tracking.eta && (
+            <div className="flex items-center gap-3">
+              <Package className="w-5 h-5 text-seven-orange" />
+              <div>
+                <p className="text-xs text-gray-500">คาดว่าจะถึง</p>
+                <p className="text-2xl font-bold text-seven-orange">{formatTime(tracking.eta)}</p>
+                {tracking.eta_updated_at && (
+                  <p className="text-xs text-gray-400">อัปเดตเมื่อ {formatTime(tracking.eta_updated_at)}</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {tracking.delivered_at && (
+            <p className="text-seven-green font-semibold">ส่งถึงเมื่อ {formatTime(tracking.delivered_at)}</p>
+          )}
+
+          {tracking.driver && (
+            <div className="flex items-center gap-3">
+              <Truck className="w-5 h-5 text-seven-green" />
+              <div>
+                <p className="text-xs text-gray-500">ผู้จัดส่ง</p>
+                <p className="font-semibold">
+                  {tracking.driver.first_name}
+                  {' • '}{VEHICLE_LABELS[tracking.driver.vehicle_type] ?? tracking.driver.vehicle_type}
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Customer updates (ก่อนจ่ายงานเท่านั้น) */}
+        {tracking.can_update && (
+          <div className="bg-white rounded-xl shadow-md p-5 space-y-4">
+            <label className="block">
+              <span className="block text-sm font-semibold mb-1">หมายเหตุถึงผู้จัดส่ง</span>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                maxLength={500}
+                rows={3}
+                className="w-full border rounded-lg px-3 py-2 text-sm"
+                placeholder="เช่น ฝากไว้ที่ป้อมยาม, โทรก่อนถึง"
+              />
+            </label>
+            <button
+              onClick={() => saveUpdate({ delivery_notes: notes })}
+              disabled={isSaving}
+              className="w-full bg-seven-green text-white font-semibold py-2 rounded-lg disabled:opacity-50"
+            >
+              บันทึกหมายเหตุ
+            </button>
+
+            <div className="border-t pt-4">
+              <div className="flex items-center gap-2 mb-2">
+                <Home className="w-5 h-5 text-gray-500" />
+                <span className="text-sm">
+                  {tracking.not_home_reported
+                    ? 'คุณแจ้งว่าจะไม่อยู่รับของ ร้านจะยังไม่ส่งออเดอร์นี้ออกไป'
+                    : 'ไม่สะดวกรับของในช่วงเวลานี้?'}
+                </span>
+              </div>
+              <button
+                onClick={() => saveUpdate({ not_home: !tracking.not_home_reported })}
+                disabled={isSaving}
+                className="w-full border border-seven-red text-seven-red font-semibold py-2 rounded-lg disabled:opacity-50"
+              >
+                {tracking.not_home_reported ? 'ยกเลิก ฉันอยู่รับของได้' : 'แจ้งว่าไม่อยู่บ้าน'}
+              </button>
+            </div>
+
+            {saveMessage && <p className="text-sm text-center text-gray-600">{saveMessage}</p>}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,348 @@
+'use client';
+
+import { useRef, useState, type PointerEvent } from 'react';
+import { Lasso, Move, Send, X, ZoomIn, ZoomOut } from 'lucide-react';
+import type { DashboardOrder } from '@/lib/orders/dashboard';
+import type { DriverPosition, MapRoute } from '@/lib/map/overview';
+import {
+  fitView,
+  fromScreen,
+  getVisibleTiles,
+  MAX_ZOOM,
+  MIN_ZOOM,
+  MapView,
+  ScreenPoint,
+  TILE_SIZE,
+  toScreen
+} from '@/lib/map/projection';
+import { pointInPolygon } from '@/lib/zones/geometry';
+
+// ===================================
+// Types & Constants
+// ===================================
+
+interface DispatchMapProps {
+  orders: DashboardOrder[];
+  routes: MapRoute[];
+  driverPositions: DriverPosition[];
+  onDispatch: (orderIds: string[]) => Promise<void>;
+}
+
+type MapMode = 'pan' | 'lasso';
+
+const MAP_WIDTH = 800;
+const MAP_HEIGHT = 480;
+
+// tile server ของตัวเอง หรือไฟล์ใน public/ เช่น "/tiles/{z}/{x}/{y}.png" (ไม่ตั้ง = ไม่โหลด tile เลย)
+const TILE_URL_TEMPLATE = process.env.NEXT_PUBLIC_MAP_TILE_URL;
+
+const PRIORITY_FILL: Record<string, string> = {
+  critical: 'var(--seven-red)',
+  high: 'var(--seven-orange)',
+  medium: '#3B82F6',
+  low: 'var(--seven-green)'
+};
+
+const ROUTE_COLORS = ['#7C3AED', '#0891B2', '#DB2777', '#CA8A04', '#4B5563', '#059669'];
+
+const COMPLETED_STOP_STATUSES = ['delivered', 'failed'];
+
+// ===================================
+// Component
+// ===================================
+
+export default function DispatchMap({ orders, routes, driverPositions, onDispatch }: DispatchMapProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ start: ScreenPoint; view: MapView } | null>(null);
+
+  const [mode, setMode] = useState<MapMode>('pan');
+  const [manualView, setManualView] = useState<MapView | null>(null);
+  const [lasso, setLasso] = useState<ScreenPoint[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isDispatching, setIsDispatching] = useState(false);
+
+  // ยังไม่ได้เลื่อน/ซูมเอง: ปรับกรอบให้เห็นทุกออเดอร์ เส้นทาง และคนขับ
+  const view = manualView ?? fitView(
+    [
+      ...orders.map(order => ({ latitude: order.delivery_latitude, longitude: order.delivery_longitude })),
+      ...routes.flatMap(route => [route.depot, ...route.stops]),
+      ...driverPositions
+    ],
+    MAP_WIDTH,
+    MAP_HEIGHT
+  );
+
+  const project = (point: { latitude: number; longitude: number }) =>
+    toScreen(point, view, MAP_WIDTH, MAP_HEIGHT);
+
+  // เลือกได้เฉพาะออเดอร์ pending ที่ยังอยู่ในรายการ
+  const selectedOrders = orders.filter(order =>
+    selectedIds.includes(order.id) && order.order_status === 'pending'
+  );
+
+  const toMapPoint = (event: PointerEvent<SVGSVGElement>): ScreenPoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * MAP_WIDTH / rect.width,
+      y: (event.clientY - rect.top) * MAP_HEIGHT / rect.height
+    };
+  };
+
+  const handlePointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toMapPoint(event);
+
+    if (mode === 'lasso') {
+      setLasso([point]);
+    } else {
+      dragRef.current = { start: point, view };
+    }
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    const point = toMapPoint(event);
+
+    if (mode === 'lasso') {
+      if (lasso.length > 0) {
+        setLasso(current => [...current, point]);
+      }
+      return;
+    }
+
+    const drag = dragRef.current;
+    if (drag) {
+      const center = fromScreen(
+        { x: MAP_WIDTH / 2 - (point.x - drag.start.x), y: MAP_HEIGHT / 2 - (point.y - drag.start.y) },
+        drag.view,
+        MAP_WIDTH,
+        MAP_HEIGHT
+      );
+      setManualView({ center, zoom: drag.view.zoom });
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+    if (mode !== 'lasso' || lasso.length === 0) return;
+
+    // เส้นที่ลากสั้นเกินไปถือว่าเป็นการคลิก ไม่ใช่ lasso
+    if (lasso.length >= 3) {
+      const polygon = lasso.map(point => fromScreen(point, view, MAP_WIDTH, MAP_HEIGHT));
+      setSelectedIds(
+        orders
+          .filter(order => order.order_status === 'pending')
+          .filter(order => pointInPolygon(
+            { latitude: order.delivery_latitude, longitude: order.delivery_longitude },
+            polygon
+          ))
+          .map(order => order.id)
+      );
+    }
+    setLasso([]);
+  };
+
+  const zoomBy = (delta: number) => {
+    setManualView({
+      center: view.center,
+      zoom: Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, view.zoom + delta))
+    });
+  };
+
+  const handleDispatch = async () => {
+    setIsDispatching(true);
+    try {
+      await onDispatch(selectedOrders.map(order => order.id));
+      setSelectedIds([]);
+    } finally {
+      setIsDispatching(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-md overflow-hidden mb-6">
+      <div className="bg-seven-green-dark px-6 py-4 flex items-center justify-between">
+        <h2 className="text-xl font-bold text-white">🗺️ แผนที่ออเดอร์และเส้นทาง</h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setMode('pan')}
+            className={`p-2 rounded-lg ${mode === 'pan' ? 'bg-white text-seven-green-dark' : 'bg-white/10 text-white'}`}
+            title="เลื่อนแผนที่"
+          >
+            <Move className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setMode('lasso')}
+            className={`p-2 rounded-lg ${mode === 'lasso' ? 'bg-white text-seven-green-dark' : 'bg-white/10 text-white'}`}
+            title="วาดเพื่อเลือกออเดอร์"
+          >
+            <Lasso className="w-4 h-4" />
+          </button>
+          <button onClick={() => zoomBy(1)} className="p-2 rounded-lg bg-white/10 text-white" title="ซูมเข้า">
+            <ZoomIn className="w-4 h-4" />
+          </button>
+          <button onClick={() => zoomBy(-1)} className="p-2 rounded-lg bg-white/10 text-white" title="ซูมออก">
+            <ZoomOut className="w-4 h-4" />
+          </button>
+          {manualView && (
+            <button
+              onClick={() => setManualView(null)}
+              className="px-3 py-2 rounded-lg bg-white/10 text-white text-sm"
+            >
+              พอดีจอ
+            </button>
+          )}
+        </div>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+        className={`w-full h-auto select-none touch-none ${mode === 'lasso' ? 'cursor-crosshair' : 'cursor-grab'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      >
+        <defs>
+          <pattern id="map-grid" width={TILE_SIZE / 4} height={TILE_SIZE / 4} patternUnits="userSpaceOnUse">
+            <path d={`M ${TILE_SIZE / 4} 0 L 0 0 0 ${TILE_SIZE / 4}`} fill="none" stroke="#E5E7EB" strokeWidth={1} />
+          </pattern>
+        </defs>
+        <rect width={MAP_WIDTH} height={MAP_HEIGHT} fill="#F9FAFB" />
+        <rect width={MAP_WIDTH} height={MAP_HEIGHT} fill="url(#map-grid)" />
+
+        {TILE_URL_TEMPLATE && getVisibleTiles(TILE_URL_TEMPLATE, view, MAP_WIDTH, MAP_HEIGHT).map(tile => (
+          <image
+            key={tile.key}
+            href={tile.url}
+            x={tile.left}
+            y={tile.top}
+            width={TILE_SIZE}
+            height={TILE_SIZE}
+          />
+        ))}
+
+        {/* Routes: depot -> จุดส่งตามลำดับ */}
+        {routes.map((route, index) => {
+          const color = ROUTE_COLORS[index % ROUTE_COLORS.length];
+          const depot = project(route.depot);
+          const path = [route.depot, ...route.stops].map(project);
+
+          return (
+            <g key={route.id}>
+              <polyline
+                points={path.map(point => `${point.x},${point.y}`).join(' ')}
+                fill="none"
+                stroke={color}
+                strokeWidth={3}
+                strokeOpacity={0.8}
+                strokeLinejoin="round"
+              />
+              <rect x={depot.x - 6} y={depot.y - 6} width={12} height={12} fill={color} stroke="white" strokeWidth={2}>
+                <title>{`คลัง • ${route.vehicle.license_plate}`}</title>
+              </rect>
+              {route.stops.map(stop => {
+                const point = project(stop);
+                const done = COMPLETED_STOP_STATUSES.includes(stop.delivery_status);
+                return (
+                  <g key={stop.delivery_id} opacity={done ? 0.4 : 1}>
+                    <circle
+                      cx={point.x}
+                      cy={point.y}
+                      r={9}
+                      fill="white"
+                      stroke={stop.eta_at_risk ? 'var(--seven-red)' : color}
+                      strokeWidth={stop.eta_at_risk ? 3 : 2}
+                    />
+                    <text x={point.x} y={point.y + 3.5} textAnchor="middle" fontSize={10} fontWeight="bold" fill={color}>
+                      {stop.stop_sequence ?? '?'}
+                    </text>
+                    <title>
+                      {`${route.vehicle.license_plate} • ${route.driver.name} • ${stop.delivery_status}` +
+                        (stop.estimated_arrival
+                          ? ` • ETA ${new Date(stop.estimated_arrival).toLocaleTimeString('th-TH', { hour: '2-digit', minute: '2-digit' })}`
+                          : '') +
+                        (stop.eta_at_risk ? ' • เสี่ยงส่งไม่ทัน' : '')}
+                    </title>
+                  </g>
+                );
+              })}
+            </g>
+          );
+        })}
+
+        {/* Orders: สีตาม priority_class */}
+        {orders.map(order => {
+          const point = project({ latitude: order.delivery_latitude, longitude: order.delivery_longitude });
+          const selected = selectedIds.includes(order.id);
+          return (
+            <circle
+              key={order.id}
+              cx={point.x}
+              cy={point.y}
+              r={selected ? 8 : 6}
+              fill={PRIORITY_FILL[order.priority_class ?? 'low'] ?? PRIORITY_FILL.low}
+              stroke={selected ? '#111827' : 'white'}
+              strokeWidth={2}
+            >
+              <title>{`${order.customer_name} • ${order.priority_score ?? '-'} คะแนน`}</title>
+            </circle>
+          );
+        })}
+
+        {/* Drivers: ตำแหน่งล่าสุดที่รู้ */}
+        {driverPositions.map(driver => {
+          const point = project(driver);
+          return (
+            <g key={driver.driver_id}>
+              <circle cx={point.x} cy={point.y} r={11} fill="#111827" stroke="white" strokeWidth={2} />
+              <text x={point.x} y={point.y + 4} textAnchor="middle" fontSize={11}>🚚</text>
+              <title>
+                {`${driver.name} • ${new Date(driver.recorded_at).toLocaleTimeString('th-TH', { hour: '2-digit', minute: '2-digit' })}`}
+              </title>
+            </g>
+          );
+        })}
+
+        {lasso.length > 1 && (
+          <polygon
+            points={lasso.map(point => `${point.x},${point.y}`).join(' ')}
+            fill="#00A550"
+            fillOpacity={0.1}
+            stroke="#00693E"
+            strokeDasharray="6 4"
+            strokeWidth={2}
+          />
+        )}
+      </svg>
+
+      <div className="px-6 py-4 border-t flex items-center justify-between gap-4">
+        <div className="text-sm text-gray-500">
+          {selectedOrders.length > 0
+            ? `เลือกไว้ ${selectedOrders.length} ออเดอร์`
+            : 'ใช้เครื่องมือ lasso วาดรอบกลุ่มออเดอร์ pending เพื่อส่งไปจ่ายงาน'}
+          {' • '}เส้นทาง {routes.length} • คนขับ {driverPositions.length}
+        </div>
+        {selectedOrders.length > 0 && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => setSelectedIds([])}
+              className="flex items-center gap-1 px-4 py-2 rounded-lg border text-gray-600"
+            >
+              <X className="w-4 h-4" />
+              ล้าง
+            </button>
+            <button
+              onClick={handleDispatch}
+              disabled={isDispatching}
+              className="flex items-center gap-1 px-4 py-2 rounded-lg bg-seven-green text-white font-semibold disabled:opacity-50"
+            >
+              <Send className="w-4 h-4" />
+              {isDispatching ? 'กำลังจ่ายงาน...' : 'ส่งไปจ่ายงาน'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
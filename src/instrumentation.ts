@@ -0,0 +1,22 @@
+// ===================================
+// File: src/instrumentation.ts
+// เริ่ม background jobs เมื่อ server start
+// ===================================
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  // เปิดใช้ด้วย PRIORITY_RESCORE_ENABLED=true (ปรับรอบด้วย PRIORITY_RESCORE_INTERVAL_MINUTES)
+  if (process.env.PRIORITY_RESCORE_ENABLED === 'true') {
+    const { startPriorityRescorer } = await import('./lib/priority/scheduler');
+    startPriorityRescorer();
+  }
+
+  // เปิดใช้ด้วย NOTIFICATIONS_ENABLED=true (ปรับรอบด้วย NOTIFICATION_INTERVAL_SECONDS)
+  if (process.env.NOTIFICATIONS_ENABLED === 'true') {
+    const { startNotificationWorker } = await import('./lib/notifications/scheduler');
+    startNotificationWorker();
+  }
+}
@@ -0,0 +1,71 @@
+// ===================================
+// File: src/lib/address/normalize.ts
+// จัดรูปแบบที่อยู่ และค้นหาเขต/จังหวัด/รหัสไปรษณีย์จากตารางในเครื่อง
+// ===================================
+
+import { THAI_DISTRICTS, THAI_PROVINCES, ThaiDistrict, ThaiProvince } from './thai-districts';
+
+// คำนำหน้าที่ผู้ใช้มักพิมพ์มาด้วย (ตัดออกก่อนเทียบชื่อ)
+const DISTRICT_PREFIXES = ['เขต', 'อำเภอ', 'อ.', 'khet', 'amphoe', 'amphur', 'district'];
+const PROVINCE_PREFIXES = ['จังหวัด', 'จ.', 'changwat', 'province'];
+
+export function cleanText(value: string): string {
+  return value
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s,]+|[\s,]+$/g, '')
+    .trim();
+}
+
+function toLookupKey(value: string, prefixes: string[]): string {
+  let key = cleanText(value).toLowerCase();
+  for (const prefix of prefixes) {
+    if (key.startsWith(prefix)) {
+      key = key.slice(prefix.length);
+      break;
+    }
+  }
+  return key.replace(/[\s.\-]/g, '');
+}
+
+// รับเฉพาะรหัส 5 หลัก (ตัดช่องว่าง/ขีดออก)
+export function normalizePostalCode(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const digits = value.replace(/[\s-]/g, '');
+  return /^\d{5}$/.test(digits) ? digits : null;
+}
+
+export function findProvince(city: string): ThaiProvince | null {
+  const key = toLookupKey(city, PROVINCE_PREFIXES);
+  if (!key) return null;
+
+  return THAI_PROVINCES.find(province =>
+    [province.name_th, province.name_en, ...province.aliases]
+      .some(name => toLookupKey(name, PROVINCE_PREFIXES) === key)
+  ) ?? null;
+}
+
+// "อ.เมือง" ต้องรู้จังหวัดถึงจะหาเขตได้
+export function findDistrict(name: string, provinceName?: string): ThaiDistrict | null {
+  let key = toLookupKey(name, DISTRICT_PREFIXES);
+  if (!key) return null;
+
+  if ((key === 'เมือง' || key === 'mueang') && provinceName) {
+    key = toLookupKey(`เมือง${provinceName}`, DISTRICT_PREFIXES);
+  }
+
+  const matches = THAI_DISTRICTS.filter(district =>
+    [district.name_th, district.name_en].some(candidate => toLookupKey(candidate, DISTRICT_PREFIXES) === key)
+  );
+
+  if (provinceName) {
+    return matches.find(district => district.province === provinceName) ?? null;
+  }
+  return matches.length === 1 ? matches[0] : null;
+}
+
+export function findDistrictsByPostalCode(postalCode: string, provinceName?: string): ThaiDistrict[] {
+  return THAI_DISTRICTS.filter(district =>
+    district.postal_codes.includes(postalCode) &&
+    (!provinceName || district.province === provinceName)
+  );
+}
@@ -0,0 +1,83 @@
+// ===================================
+// File: src/lib/address/offline-geocoder.ts
+// Geocoder สำรองแบบไม่ต้องต่ออินเทอร์เน็ต: ได้พิกัดกลางของเขต (ความละเอียดระดับเขต)
+// ===================================
+
+import { AddressInput, GeocodeResult, GeocodingProvider } from './provider';
+import {
+  cleanText,
+  findDistrict,
+  findDistrictsByPostalCode,
+  findProvince,
+  normalizePostalCode
+} from './normalize';
+
+export class OfflineGeocoder implements GeocodingProvider {
+  readonly name = 'offline';
+
+  async geocode(address: AddressInput): Promise<GeocodeResult> {
+    const province = findProvince(address.city);
+    const postalCode = normalizePostalCode(address.postal_code);
+    const byName = findDistrict(address.district, province?.name_th);
+    const byPostal = postalCode ? findDistrictsByPostalCode(postalCode, province?.name_th) : [];
+
+    const result: GeocodeResult = {
+      provider: this.name,
+      normalized: {
+        address_line1: cleanText(address.address_line1),
+        address_line2: address.address_line2 ? cleanText(address.address_line2) || null : null,
+        district: cleanText(address.district),
+        city: province?.name_th ?? cleanText(address.city),
+        postal_code: postalCode
+      },
+      location: null,
+      confidence: null,
+      match_level: null
+    };
+
+    const district = byName ?? (byPostal.length === 1 ? byPostal[0] : null);
+
+    if (district) {
+      result.normalized.district = district.name_th;
+      result.normalized.city = district.province;
+      result.normalized.postal_code = postalCode
+        ?? (district.postal_codes.length === 1 ? district.postal_codes[0] : null);
+      result.location = { latitude: district.latitude, longitude: district.longitude };
+
+      if (byName && postalCode) {
+        // รหัสไปรษณีย์ขัดกับเขต: ไม่รู้ว่าอันไหนผิด ต้องให้คนตรวจ
+        const consistent = byName.postal_codes.includes(postalCode);
+        result.confidence = consistent ? 'high' : 'low';
+        result.match_level = consistent ? 'exact' : 'district';
+      } else {
+        result.confidence = 'medium';
+        result.match_level = byName ? 'district' : 'postal_code';
+      }
+      return result;
+    }
+
+    // รหัสไปรษณีย์ครอบคลุมหลายเขต: ใช้จุดกึ่งกลางของทุกเขต
+    if (byPostal.length > 1) {
+      result.location = {
+        latitude: average(byPostal.map(d => d.latitude)),
+        longitude: average(byPostal.map(d => d.longitude))
+      };
+      result.normalized.city = byPostal[0].province;
+      result.confidence = 'low';
+      result.match_level = 'postal_code';
+      return result;
+    }
+
+    if (province) {
+      result.location = { latitude: province.latitude, longitude: province.longitude };
+      result.confidence = 'low';
+      result.match_level = 'province';
+    }
+
+    return result;
+  }
+}
+
+function average(values: number[]): number {
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 1e6) / 1e6;
+}
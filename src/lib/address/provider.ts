@@ -0,0 +1,40 @@
+// ===================================
+// File: src/lib/address/provider.ts
+// Geocoding Provider Interface (เปลี่ยนผู้ให้บริการได้โดยไม่แก้ส่วนอื่น)
+// ===================================
+
+import { LatLng } from '../routing/geo';
+
+export interface AddressInput {
+  address_line1: string;
+  address_line2?: string | null;
+  district: string;
+  city: string;
+  postal_code?: string | null;
+}
+
+export interface NormalizedAddress {
+  address_line1: string;
+  address_line2: string | null;
+  district: string;
+  city: string;
+  postal_code: string | null;
+}
+
+// high = เขตและรหัสไปรษณีย์ตรงกัน, medium = ตรงอย่างใดอย่างหนึ่ง, low = ขัดกันหรือรู้แค่จังหวัด
+export type GeocodeConfidence = 'high' | 'medium' | 'low';
+
+export type GeocodeMatchLevel = 'exact' | 'district' | 'postal_code' | 'province';
+
+export interface GeocodeResult {
+  provider: string;
+  normalized: NormalizedAddress;
+  location: LatLng | null;          // null = หาพิกัดไม่ได้
+  confidence: GeocodeConfidence | null;
+  match_level: GeocodeMatchLevel | null;
+}
+
+export interface GeocodingProvider {
+  readonly name: string;
+  geocode(address: AddressInput): Promise<GeocodeResult>;
+}
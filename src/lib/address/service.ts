@@ -0,0 +1,179 @@
+// ===================================
+// File: src/lib/address/service.ts
+// Address Service: จัดรูปแบบที่อยู่ หาพิกัด และตั้งธงให้ตรวจเมื่อความมั่นใจต่ำ
+// ===================================
+
+import { getCustomerById, updateCustomerAddress } from '../db/queries';
+import { EventContext } from '../db/events';
+import { NotFoundError, ValidationError } from '../errors';
+import { resumeAddressReviewOrders } from '../failures/service';
+import { haversineKm, LatLng } from '../routing/geo';
+import { FieldValidator } from '../validation';
+import { locateServiceArea } from '../zones/service';
+import { OfflineGeocoder } from './offline-geocoder';
+import { AddressInput, GeocodeConfidence, GeocodingProvider, NormalizedAddress } from './provider';
+
+export interface ResolvedAddress extends NormalizedAddress {
+  latitude: number;
+  longitude: number;
+  geocode_source: string;          // ชื่อ provider หรือ manual
+  geocode_confidence: GeocodeConfidence;
+  address_needs_review: boolean;
+}
+
+// พิกัดที่ผู้ใช้ส่งมาห่างจากเขตที่ระบุเกินนี้ = น่าจะผิดอย่างใดอย่างหนึ่ง
+const MAX_MANUAL_OFFSET_KM = 15;
+
+// เพิ่ม provider อื่น (เช่นบริการแผนที่ภายนอก) ได้ที่นี่ เลือกด้วย GEOCODING_PROVIDER
+const PROVIDERS: Record<string, () => GeocodingProvider> = {
+  offline: () => new OfflineGeocoder()
+};
+
+let provider: GeocodingProvider | null = null;
+
+export function getGeocodingProvider(): GeocodingProvider {
+  if (!provider) {
+    const name = process.env.GEOCODING_PROVIDER ?? 'offline';
+    const factory = PROVIDERS[name];
+    if (!factory) {
+      throw new Error(`Unknown GEOCODING_PROVIDER: ${name}`);
+    }
+    provider = factory();
+  }
+  return provider;
+}
+
+// คืน null ถ้าหาพิกัดไม่ได้และผู้ใช้ไม่ได้ส่งพิกัดมา
+export async function resolveAddress(
+  address: AddressInput,
+  manualLocation?: LatLng | null
+): Promise<ResolvedAddress | null> {
+  const geocoder = getGeocodingProvider();
+  const result = await geocoder.geocode(address);
+
+  if (manualLocation) {
+    const offsetKm = result.location ? haversineKm(manualLocation, result.location) : 0;
+    const disagrees = offsetKm > MAX_MANUAL_OFFSET_KM;
+    return {
+      ...result.normalized,
+      latitude: manualLocation.latitude,
+      longitude: manualLocation.longitude,
+      geocode_source: 'manual',
+      geocode_confidence: disagrees ? 'low' : 'high',
+      address_needs_review: disagrees
+    };
+  }
+
+  if (!result.location || !result.confidence) {
+    return null;
+  }
+
+  return {
+    ...result.normalized,
+    latitude: result.location.latitude,
+    longitude: result.location.longitude,
+    geocode_source: result.provider,
+    geocode_confidence: result.confidence,
+    address_needs_review: result.confidence === 'low'
+  };
+}
+
+// ที่อยู่แบบบรรทัดเดียวที่เก็บซ้ำไว้ใน Order.delivery_address
+export function formatDeliveryAddress(customer: {
+  address_line1: string;
+  address_line2: string | null;
+  district: string;
+  city: string;
+  postal_code: string | null;
+}): string {
+  return [
+    customer.address_line1,
+    customer.address_line2,
+    customer.district,
+    customer.city,
+    customer.postal_code
+  ].filter(Boolean).join(', ');
+}
+
+export interface AddressUpdateInput {
+  address: AddressInput;
+  location: LatLng | null;
+  confirmed: boolean;   // พนักงานตรวจแล้ว: ล้างธง address_needs_review
+}
+
+export function parseAddressUpdate(body: unknown): AddressUpdateInput {
+  const validator = new FieldValidator();
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  const addressLine1 = validator.requireString('address_line1', input.address_line1);
+  const addressLine2 = validator.optionalString('address_line2', input.address_line2);
+  const district = validator.requireString('district', input.district, 100);
+  const city = validator.requireString('city', input.city, 100);
+  const postalCode = validator.optionalString('postal_code', input.postal_code, 10);
+
+  let location: LatLng | null = null;
+  if (input.latitude !== undefined || input.longitude !== undefined) {
+    const latitude = validator.requireNumber('latitude', input.latitude, { min: -90, max: 90 });
+    const longitude = validator.requireNumber('longitude', input.longitude, { min: -180, max: 180 });
+    if (latitude !== undefined && longitude !== undefined) {
+      location = { latitude, longitude };
+    }
+  }
+
+  validator.throwIfInvalid();
+
+  return {
+    address: {
+      address_line1: addressLine1!,
+      address_line2: addressLine2,
+      district: district!,
+      city: city!,
+      postal_code: postalCode
+    },
+    location,
+    confirmed: input.confirmed === true
+  };
+}
+
+export async function changeCustomerAddress(
+  customerId: string,
+  input: AddressUpdateInput,
+  context: EventContext = {}
+) {
+  const existing = await getCustomerById(customerId);
+  if (!existing) {
+    throw new NotFoundError('Customer not found');
+  }
+
+  const address = await resolveAddress(input.address, input.location);
+  if (!address) {
+    throw new ValidationError([
+      { field: 'district', message: 'address could not be located; provide latitude and longitude' }
+    ]);
+  }
+
+  const serviceArea = await locateServiceArea({ latitude: address.latitude, longitude: address.longitude });
+
+  const result = await updateCustomerAddress(customerId, {
+    address_line1: address.address_line1,
+    address_line2: address.address_line2,
+    district: address.district,
+    city: address.city,
+    postal_code: address.postal_code,
+    latitude: address.latitude,
+    longitude: address.longitude,
+    geocode_source: address.geocode_source,
+    geocode_confidence: address.geocode_confidence,
+    address_needs_review: input.confirmed ? false : address.address_needs_review,
+    delivery_address: formatDeliveryAddress(address),
+    zone_id: serviceArea.zone_id,
+    outside_service_area: serviceArea.outside_service_area
+  }, context);
+
+  // ยืนยันที่อยู่แล้ว: ออเดอร์ที่ส่งไม่สำเร็จเพราะที่อยู่ผิดนัดส่งใหม่ไปที่อยู่นี้
+  const failureResolutions = input.confirmed
+    ? await resumeAddressReviewOrders(customerId, context)
+    : [];
+
+  return { ...result, failure_resolutions: failureResolutions };
+}
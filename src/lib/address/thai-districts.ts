@@ -0,0 +1,101 @@
+// ===================================
+// File: src/lib/address/thai-districts.ts
+// ตารางเขต/อำเภอ รหัสไปรษณีย์ และพิกัดกลางโดยประมาณ (ใช้กับ offline geocoder)
+// ===================================
+
+export interface ThaiProvince {
+  name_th: string;
+  name_en: string;
+  aliases: string[];
+  latitude: number;
+  longitude: number;
+}
+
+export interface ThaiDistrict {
+  name_th: string;
+  name_en: string;
+  province: string;         // name_th ของจังหวัด
+  postal_codes: string[];
+  latitude: number;         // จุดกลางเขตโดยประมาณ
+  longitude: number;
+}
+
+export const THAI_PROVINCES: ThaiProvince[] = [
+  {
+    name_th: 'กรุงเทพมหานคร',
+    name_en: 'Bangkok',
+    aliases: ['กทม', 'กทม.', 'กรุงเทพ', 'กรุงเทพฯ', 'bkk', 'krung thep', 'krung thep maha nakhon'],
+    latitude: 13.7563,
+    longitude: 100.5018
+  },
+  { name_th: 'นนทบุรี', name_en: 'Nonthaburi', aliases: [], latitude: 13.8621, longitude: 100.5144 },
+  { name_th: 'สมุทรปราการ', name_en: 'Samut Prakan', aliases: [], latitude: 13.5991, longitude: 100.5998 },
+  { name_th: 'ปทุมธานี', name_en: 'Pathum Thani', aliases: [], latitude: 14.0208, longitude: 100.5250 }
+];
+
+const BANGKOK = 'กรุงเทพมหานคร';
+
+export const THAI_DISTRICTS: ThaiDistrict[] = [
+  // กรุงเทพมหานคร (50 เขต)
+  { name_th: 'พระนคร', name_en: 'Phra Nakhon', province: BANGKOK, postal_codes: ['10200'], latitude: 13.7563, longitude: 100.4990 },
+  { name_th: 'ดุสิต', name_en: 'Dusit', province: BANGKOK, postal_codes: ['10300'], latitude: 13.7770, longitude: 100.5130 },
+  { name_th: 'หนองจอก', name_en: 'Nong Chok', province: BANGKOK, postal_codes: ['10530'], latitude: 13.8560, longitude: 100.8620 },
+  { name_th: 'บางรัก', name_en: 'Bang Rak', province: BANGKOK, postal_codes: ['10500'], latitude: 13.7300, longitude: 100.5240 },
+  { name_th: 'บางเขน', name_en: 'Bang Khen', province: BANGKOK, postal_codes: ['10220'], latitude: 13.8730, longitude: 100.5960 },
+  { name_th: 'บางกะปิ', name_en: 'Bang Kapi', province: BANGKOK, postal_codes: ['10240'], latitude: 13.7650, longitude: 100.6470 },
+  { name_th: 'ปทุมวัน', name_en: 'Pathum Wan', province: BANGKOK, postal_codes: ['10330'], latitude: 13.7440, longitude: 100.5300 },
+  { name_th: 'ป้อมปราบศัตรูพ่าย', name_en: 'Pom Prap Sattru Phai', province: BANGKOK, postal_codes: ['10100'], latitude: 13.7580, longitude: 100.5130 },
+  { name_th: 'พระโขนง', name_en: 'Phra Khanong', province: BANGKOK, postal_codes: ['10260'], latitude: 13.7020, longitude: 100.6010 },
+  { name_th: 'มีนบุรี', name_en: 'Min Buri', province: BANGKOK, postal_codes: ['10510'], latitude: 13.8130, longitude: 100.7480 },
+  { name_th: 'ลาดกระบัง', name_en: 'Lat Krabang', province: BANGKOK, postal_codes: ['10520'], latitude: 13.7220, longitude: 100.7590 },
+  { name_th: 'ยานนาวา', name_en: 'Yan Nawa', province: BANGKOK, postal_codes: ['10120'], latitude: 13.6960, longitude: 100.5430 },
+  { name_th: 'สัมพันธวงศ์', name_en: 'Samphanthawong', province: BANGKOK, postal_codes: ['10100'], latitude: 13.7390, longitude: 100.5130 },
+  { name_th: 'พญาไท', name_en: 'Phaya Thai', province: BANGKOK, postal_codes: ['10400'], latitude: 13.7800, longitude: 100.5420 },
+  { name_th: 'ธนบุรี', name_en: 'Thon Buri', province: BANGKOK, postal_codes: ['10600'], latitude: 13.7250, longitude: 100.4860 },
+  { name_th: 'บางกอกใหญ่', name_en: 'Bangkok Yai', province: BANGKOK, postal_codes: ['10600'], latitude: 13.7230, longitude: 100.4760 },
+  { name_th: 'ห้วยขวาง', name_en: 'Huai Khwang', province: BANGKOK, postal_codes: ['10310'], latitude: 13.7770, longitude: 100.5790 },
+  { name_th: 'คลองสาน', name_en: 'Khlong San', province: BANGKOK, postal_codes: ['10600'], latitude: 13.7300, longitude: 100.5090 },
+  { name_th: 'ตลิ่งชัน', name_en: 'Taling Chan', province: BANGKOK, postal_codes: ['10170'], latitude: 13.7770, longitude: 100.4560 },
+  { name_th: 'บางกอกน้อย', name_en: 'Bangkok Noi', province: BANGKOK, postal_codes: ['10700'], latitude: 13.7700, longitude: 100.4680 },
+  { name_th: 'บางขุนเทียน', name_en: 'Bang Khun Thian', province: BANGKOK, postal_codes: ['10150'], latitude: 13.6600, longitude: 100.4350 },
+  { name_th: 'ภาษีเจริญ', name_en: 'Phasi Charoen', province: BANGKOK, postal_codes: ['10160'], latitude: 13.7150, longitude: 100.4370 },
+  { name_th: 'หนองแขม', name_en: 'Nong Khaem', province: BANGKOK, postal_codes: ['10160'], latitude: 13.7040, longitude: 100.3490 },
+  { name_th: 'ราษฎร์บูรณะ', name_en: 'Rat Burana', province: BANGKOK, postal_codes: ['10140'], latitude: 13.6820, longitude: 100.5050 },
+  { name_th: 'บางพลัด', name_en: 'Bang Phlat', province: BANGKOK, postal_codes: ['10700'], latitude: 13.7940, longitude: 100.5050 },
+  { name_th: 'ดินแดง', name_en: 'Din Daeng', province: BANGKOK, postal_codes: ['10400'], latitude: 13.7700, longitude: 100.5530 },
+  { name_th: 'บึงกุ่ม', name_en: 'Bueng Kum', province: BANGKOK, postal_codes: ['10230', '10240'], latitude: 13.7850, longitude: 100.6690 },
+  { name_th: 'สาทร', name_en: 'Sathon', province: BANGKOK, postal_codes: ['10120'], latitude: 13.7080, longitude: 100.5260 },
+  { name_th: 'บางซื่อ', name_en: 'Bang Sue', province: BANGKOK, postal_codes: ['10800'], latitude: 13.8090, longitude: 100.5370 },
+  { name_th: 'จตุจักร', name_en: 'Chatuchak', province: BANGKOK, postal_codes: ['10900'], latitude: 13.8280, longitude: 100.5600 },
+  { name_th: 'บางคอแหลม', name_en: 'Bang Kho Laem', province: BANGKOK, postal_codes: ['10120'], latitude: 13.6930, longitude: 100.5030 },
+  { name_th: 'ประเวศ', name_en: 'Prawet', province: BANGKOK, postal_codes: ['10250'], latitude: 13.7170, longitude: 100.6940 },
+  { name_th: 'คลองเตย', name_en: 'Khlong Toei', province: BANGKOK, postal_codes: ['10110'], latitude: 13.7080, longitude: 100.5840 },
+  { name_th: 'สวนหลวง', name_en: 'Suan Luang', province: BANGKOK, postal_codes: ['10250'], latitude: 13.7300, longitude: 100.6510 },
+  { name_th: 'จอมทอง', name_en: 'Chom Thong', province: BANGKOK, postal_codes: ['10150'], latitude: 13.6770, longitude: 100.4840 },
+  { name_th: 'ดอนเมือง', name_en: 'Don Mueang', province: BANGKOK, postal_codes: ['10210'], latitude: 13.9130, longitude: 100.5890 },
+  { name_th: 'ราชเทวี', name_en: 'Ratchathewi', province: BANGKOK, postal_codes: ['10400'], latitude: 13.7590, longitude: 100.5340 },
+  { name_th: 'ลาดพร้าว', name_en: 'Lat Phrao', province: BANGKOK, postal_codes: ['10230'], latitude: 13.8030, longitude: 100.6070 },
+  { name_th: 'วัฒนา', name_en: 'Watthana', province: BANGKOK, postal_codes: ['10110'], latitude: 13.7420, longitude: 100.5860 },
+  { name_th: 'บางแค', name_en: 'Bang Khae', province: BANGKOK, postal_codes: ['10160'], latitude: 13.6960, longitude: 100.4090 },
+  { name_th: 'หลักสี่', name_en: 'Lak Si', province: BANGKOK, postal_codes: ['10210'], latitude: 13.8870, longitude: 100.5790 },
+  { name_th: 'สายไหม', name_en: 'Sai Mai', province: BANGKOK, postal_codes: ['10220'], latitude: 13.9190, longitude: 100.6460 },
+  { name_th: 'คันนายาว', name_en: 'Khan Na Yao', province: BANGKOK, postal_codes: ['10230'], latitude: 13.8270, longitude: 100.6780 },
+  { name_th: 'สะพานสูง', name_en: 'Saphan Sung', province: BANGKOK, postal_codes: ['10240', '10250'], latitude: 13.7690, longitude: 100.6850 },
+  { name_th: 'วังทองหลาง', name_en: 'Wang Thonglang', province: BANGKOK, postal_codes: ['10310'], latitude: 13.7800, longitude: 100.6050 },
+  { name_th: 'คลองสามวา', name_en: 'Khlong Sam Wa', province: BANGKOK, postal_codes: ['10510'], latitude: 13.8600, longitude: 100.7040 },
+  { name_th: 'บางนา', name_en: 'Bang Na', province: BANGKOK, postal_codes: ['10260'], latitude: 13.6680, longitude: 100.6040 },
+  { name_th: 'ทวีวัฒนา', name_en: 'Thawi Watthana', province: BANGKOK, postal_codes: ['10170'], latitude: 13.7730, longitude: 100.3530 },
+  { name_th: 'ทุ่งครุ', name_en: 'Thung Khru', province: BANGKOK, postal_codes: ['10140'], latitude: 13.6110, longitude: 100.4960 },
+  { name_th: 'บางบอน', name_en: 'Bang Bon', province: BANGKOK, postal_codes: ['10150'], latitude: 13.6590, longitude: 100.3690 },
+
+  // ปริมณฑล
+  { name_th: 'เมืองนนทบุรี', name_en: 'Mueang Nonthaburi', province: 'นนทบุรี', postal_codes: ['11000'], latitude: 13.8620, longitude: 100.5140 },
+  { name_th: 'ปากเกร็ด', name_en: 'Pak Kret', province: 'นนทบุรี', postal_codes: ['11120'], latitude: 13.9130, longitude: 100.4980 },
+  { name_th: 'บางบัวทอง', name_en: 'Bang Bua Thong', province: 'นนทบุรี', postal_codes: ['11110'], latitude: 13.9100, longitude: 100.4240 },
+  { name_th: 'เมืองสมุทรปราการ', name_en: 'Mueang Samut Prakan', province: 'สมุทรปราการ', postal_codes: ['10270'], latitude: 13.5990, longitude: 100.5970 },
+  { name_th: 'บางพลี', name_en: 'Bang Phli', province: 'สมุทรปราการ', postal_codes: ['10540'], latitude: 13.6050, longitude: 100.7070 },
+  { name_th: 'เมืองปทุมธานี', name_en: 'Mueang Pathum Thani', province: 'ปทุมธานี', postal_codes: ['12000'], latitude: 14.0200, longitude: 100.5250 },
+  { name_th: 'คลองหลวง', name_en: 'Khlong Luang', province: 'ปทุมธานี', postal_codes: ['12120'], latitude: 14.0650, longitude: 100.6460 },
+  { name_th: 'ธัญบุรี', name_en: 'Thanyaburi', province: 'ปทุมธานี', postal_codes: ['12110'], latitude: 14.0000, longitude: 100.7300 },
+  { name_th: 'ลำลูกกา', name_en: 'Lam Luk Ka', province: 'ปทุมธานี', postal_codes: ['12150'], latitude: 13.9650, longitude: 100.7450 }
+];
@@ -0,0 +1,63 @@
+// ===================================
+// File: src/lib/analytics/range.ts
+// ช่วงวันที่และการแบ่งช่วง (รายวัน/รายสัปดาห์) ของ Analytics API
+// ===================================
+
+import { getDayRange } from '../dates';
+import { FieldValidator } from '../validation';
+
+export const ANALYTICS_GRANULARITIES = ['day', 'week'] as const;
+export type AnalyticsGranularity = typeof ANALYTICS_GRANULARITIES[number];
+
+export interface AnalyticsRange {
+  start: Date;
+  end: Date;                          // ไม่รวม (start <= t < end)
+  granularity: AnalyticsGranularity;
+  tolerance_minutes: number;          // ช้าไม่เกินนี้ยังนับว่าตรงเวลา
+}
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const DEFAULT_TOLERANCE_MINUTES = 5;
+
+// from/to เป็นวัน (to รวมทั้งวัน) ไม่ระบุ = 30 วันล่าสุด
+export function parseAnalyticsRange(searchParams: URLSearchParams): AnalyticsRange {
+  const validator = new FieldValidator();
+
+  const to = searchParams.get('to');
+  const from = searchParams.get('from');
+  const toDate = to ? validator.requireDate('to', to) : new Date();
+  const fromDate = from
+    ? validator.requireDate('from', from)
+    : toDate && new Date(toDate.getTime() - (DEFAULT_RANGE_DAYS - 1) * 24 * 60 * 60 * 1000);
+
+  const granularity = searchParams.has('granularity')
+    ? validator.requireOneOf('granularity', searchParams.get('granularity'), ANALYTICS_GRANULARITIES)
+    : 'day';
+
+  const tolerance = searchParams.has('tolerance_minutes')
+    ? validator.requireNumber('tolerance_minutes', Number(searchParams.get('tolerance_minutes')), { min: 0, max: 240 })
+    : DEFAULT_TOLERANCE_MINUTES;
+
+  let start: Date | undefined;
+  let end: Date | undefined;
+  if (fromDate && toDate) {
+    start = getDayRange(fromDate).start;
+    end = getDayRange(toDate).end;
+    const days = (end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000);
+    if (end <= start) {
+      validator.add('to', 'must not be before from');
+    } else if (days > MAX_RANGE_DAYS) {
+      validator.add('from', `range must be at most ${MAX_RANGE_DAYS} days`);
+    }
+  }
+
+  validator.throwIfInvalid();
+
+  return {
+    start: start!,
+    end: end!,
+    granularity: granularity!,
+    tolerance_minutes: tolerance!
+  };
+}
@@ -0,0 +1,22 @@
+// ===================================
+// File: src/lib/dates.ts
+// Date Helpers (ไม่แก้ไข Date ที่ส่งเข้ามา)
+// ===================================
+
+export function getDayRange(date: Date) {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+
+  return { start, end };
+}
+
+// YYYY-MM-DD ตามเวลาท้องถิ่นของเซิร์ฟเวอร์
+export function toDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
@@ -0,0 +1,394 @@
+// ===================================
+// File: src/lib/db/analytics.ts
+// Delivery Performance Analytics (รวมผลในฐานข้อมูล ไม่โหลดทุกแถวมาที่ server)
+// ===================================
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { AnalyticsRange } from '../analytics/range';
+
+export type DelayDimension = 'priority_class' | 'district' | 'driver' | 'zone';
+
+export const DELAY_DIMENSIONS: DelayDimension[] = ['priority_class', 'district', 'driver', 'zone'];
+
+// นาทีที่ช้ากว่าแผน (delivery เก่าที่ไม่มี delay_minutes คำนวณจากเวลาจริง)
+const DELAY_MINUTES = Prisma.sql`COALESCE(
+  d.delay_minutes::float,
+  GREATEST(0, EXTRACT(EPOCH FROM (d.actual_arrival - d.planned_arrival)) / 60)
+)`;
+
+// ช่วงเวลา (วัน/สัปดาห์) ตามเวลาที่วางแผนส่ง — ตัดตาม timezone ของฐานข้อมูล
+function period(range: AnalyticsRange, column: Prisma.Sql) {
+  return Prisma.sql`date_trunc(${range.granularity}::text, ${column})`;
+}
+
+// delivery ที่ส่งสำเร็จและมีทั้งเวลาตามแผนและเวลาจริง
+function deliveredInRange(range: AnalyticsRange) {
+  return Prisma.sql`
+    d.delivery_status = 'delivered'
+    AND d.planned_arrival IS NOT NULL
+    AND d.actual_arrival IS NOT NULL
+    AND d.planned_arrival >= ${range.start}
+    AND d.planned_arrival < ${range.end}
+  `;
+}
+
+function toRate(part: number, total: number): number | null {
+  return total > 0 ? Math.round((part / total) * 10000) / 10000 : null;
+}
+
+function roundOrNull(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 100) / 100;
+}
+
+// ===================================
+// On-time Rate
+// ===================================
+
+export async function getOnTimeRate(range: AnalyticsRange) {
+  const rows = await prisma.$queryRaw<{
+    period: Date;
+    delivered: number;
+    on_time: number;
+    avg_delay_minutes: number | null;
+  }[]>`
+    SELECT
+      ${period(range, Prisma.sql`d.planned_arrival`)} AS period,
+      COUNT(*)::int AS delivered,
+      COUNT(*) FILTER (WHERE ${DELAY_MINUTES} <= ${range.tolerance_minutes})::int AS on_time,
+      AVG(${DELAY_MINUTES})::float AS avg_delay_minutes
+    FROM "Delivery" d
+    WHERE ${deliveredInRange(range)}
+    GROUP BY 1
+    ORDER BY 1
+  `;
+
+  const delivered = rows.reduce((sum, row) => sum + row.delivered, 0);
+  const onTime = rows.reduce((sum, row) => sum + row.on_time, 0);
+
+  return {
+    delivered,
+    on_time: onTime,
+    on_time_rate: toRate(onTime, delivered),
+    periods: rows.map(row => ({
+      period: row.period,
+      delivered: row.delivered,
+      on_time: row.on_time,
+      on_time_rate: toRate(row.on_time, row.delivered),
+      avg_delay_minutes: roundOrNull(row.avg_delay_minutes)
+    }))
+  };
+}
+
+// ===================================
+// Average Delay by Dimension
+// ===================================
+
+const DIMENSION_COLUMNS: Record<DelayDimension, { key: Prisma.Sql; label: Prisma.Sql }> = {
+  priority_class: {
+    key: Prisma.sql`COALESCE(o.priority_class, 'unknown')`,
+    label: Prisma.sql`COALESCE(o.priority_class, 'unknown')`
+  },
+  district: {
+    key: Prisma.sql`c.district`,
+    label: Prisma.sql`c.district`
+  },
+  driver: {
+    key: Prisma.sql`d.driver_id`,
+    label: Prisma.sql`dr.first_name || ' ' || dr.last_name`
+  },
+  zone: {
+    key: Prisma.sql`COALESCE(o.zone_id, 'none')`,
+    label: Prisma.sql`COALESCE(z.name, 'no zone')`
+  }
+};
+
+export async function getAverageDelay(range: AnalyticsRange, dimension: DelayDimension) {
+  const { key, label } = DIMENSION_COLUMNS[dimension];
+
+  const rows = await prisma.$queryRaw<{
+    period: Date;
+    key: string;
+    label: string;
+    delivered: number;
+    late: number;
+    avg_delay_minutes: number | null;
+    max_delay_minutes: number | null;
+  }[]>`
+    SELECT
+      ${period(range, Prisma.sql`d.planned_arrival`)} AS period,
+      ${key} AS key,
+      ${label} AS label,
+      COUNT(*)::int AS delivered,
+      COUNT(*) FILTER (WHERE ${DELAY_MINUTES} > ${range.tolerance_minutes})::int AS late,
+      AVG(${DELAY_MINUTES})::float AS avg_delay_minutes,
+      MAX(${DELAY_MINUTES})::float AS max_delay_minutes
+    FROM "Delivery" d
+    JOIN "Order" o ON o.id = d.order_id
+    JOIN "Customer" c ON c.id = o.customer_id
+    JOIN "Driver" dr ON dr.id = d.driver_id
+    LEFT JOIN "DeliveryZone" z ON z.id = o.zone_id
+    WHERE ${deliveredInRange(range)}
+    GROUP BY 1, 2, 3
+    ORDER BY 1, 2
+  `;
+
+  return {
+    dimension,
+    rows: rows.map(row => ({
+      period: row.period,
+      key: row.key,
+      label: row.label,
+      delivered: row.delivered,
+      late: row.late,
+      avg_delay_minutes: roundOrNull(row.avg_delay_minutes),
+      max_delay_minutes: roundOrNull(row.max_delay_minutes)
+    }))
+  };
+}
+
+// ===================================
+// Critical Orders Delivered Late
+// ===================================
+
+const MAX_LATE_CRITICAL_ROWS = 500;
+
+export async function getLateCriticalDeliveries(range: AnalyticsRange) {
+  const periods = await prisma.$queryRaw<{
+    period: Date;
+    delivered: number;
+    late: number;
+  }[]>`
+    SELECT
+      ${period(range, Prisma.sql`d.planned_arrival`)} AS period,
+      COUNT(*)::int AS delivered,
+      COUNT(*) FILTER (WHERE ${DELAY_MINUTES} > ${range.tolerance_minutes})::int AS late
+    FROM "Delivery" d
+    JOIN "Order" o ON o.id = d.order_id
+    WHERE ${deliveredInRange(range)}
+      AND o.priority_class = 'critical'
+    GROUP BY 1
+    ORDER BY 1
+  `;
+
+  const deliveries = await prisma.$queryRaw<{
+    delivery_id: string;
+    order_id: string;
+    driver_id: string;
+    driver_name: string;
+    district: string;
+    priority_score: number | null;
+    planned_arrival: Date;
+    actual_arrival: Date;
+    delay_minutes: number;
+  }[]>`
+    SELECT
+      d.id AS delivery_id,
+      o.id AS order_id,
+      d.driver_id,
+      dr.first_name || ' ' || dr.last_name AS driver_name,
+      c.district,
+      o.priority_score,
+      d.planned_arrival,
+      d.actual_arrival,
+      ${DELAY_MINUTES} AS delay_minutes
+    FROM "Delivery" d
+    JOIN "Order" o ON o.id = d.order_id
+    JOIN "Customer" c ON c.id = o.customer_id
+    JOIN "Driver" dr ON dr.id = d.driver_id
+    WHERE ${deliveredInRange(range)}
+      AND o.priority_class = 'critical'
+      AND ${DELAY_MINUTES} > ${range.tolerance_minutes}
+    ORDER BY delay_minutes DESC
+    LIMIT ${MAX_LATE_CRITICAL_ROWS}
+  `;
+
+  const delivered = periods.reduce((sum, row) => sum + row.delivered, 0);
+  const late = periods.reduce((sum, row) => sum + row.late, 0);
+
+  return {
+    delivered,
+    late,
+    late_rate: toRate(late, delivered),
+    periods: periods.map(row => ({
+      ...row,
+      late_rate: toRate(row.late, row.delivered)
+    })),
+    deliveries: deliveries.map(row => ({
+      ...row,
+      delay_minutes: roundOrNull(row.delay_minutes)
+    }))
+  };
+}
+
+// ===================================
+// Failure Rate by Category
+// ===================================
+
+export async function getFailureRates(range: AnalyticsRange) {
+  // delivery ที่ยังไม่มีแผนเวลา ใช้เวลาสร้างแทน
+  const serviceTime = Prisma.sql`COALESCE(d.planned_arrival, d.created_at)`;
+
+  const attempts = await prisma.$queryRaw<{
+    period: Date;
+    attempts: number;
+    failed: number;
+  }[]>`
+    SELECT
+      ${period(range, serviceTime)} AS period,
+      COUNT(*)::int AS attempts,
+      COUNT(*) FILTER (WHERE d.delivery_status = 'failed')::int AS failed
+    FROM "Delivery" d
+    WHERE d.delivery_status IN ('delivered', 'failed')
+      AND ${serviceTime} >= ${range.start}
+      AND ${serviceTime} < ${range.end}
+    GROUP BY 1
+    ORDER BY 1
+  `;
+
+  const byReason = await prisma.$queryRaw<{
+    period: Date;
+    failure_reason: string;
+    failed: number;
+  }[]>`
+    SELECT
+      ${period(range, serviceTime)} AS period,
+      COALESCE(d.failure_reason, 'other') AS failure_reason,
+      COUNT(*)::int AS failed
+    FROM "Delivery" d
+    WHERE d.delivery_status = 'failed'
+      AND ${serviceTime} >= ${range.start}
+      AND ${serviceTime} < ${range.end}
+    GROUP BY 1, 2
+    ORDER BY 1, 2
+  `;
+
+  const totalAttempts = attempts.reduce((sum, row) => sum + row.attempts, 0);
+  const totalFailed = attempts.reduce((sum, row) => sum + row.failed, 0);
+
+  const totalsByReason: Record<string, number> = {};
+  for (const row of byReason) {
+    totalsByReason[row.failure_reason] = (totalsByReason[row.failure_reason] ?? 0) + row.failed;
+  }
+
+  return {
+    attempts: totalAttempts,
+    failed: totalFailed,
+    failure_rate: toRate(totalFailed, totalAttempts),
+    by_reason: Object.entries(totalsByReason).map(([reason, failed]) => ({
+      failure_reason: reason,
+      failed,
+      failure_rate: toRate(failed, totalAttempts)
+    })),
+    periods: attempts.map(row => ({
+      period: row.period,
+      attempts: row.attempts,
+      failed: row.failed,
+      failure_rate: toRate(row.failed, row.attempts),
+      by_reason: byReason
+        .filter(reason => reason.period.getTime() === row.period.getTime())
+        .map(reason => ({
+          failure_reason: reason.failure_reason,
+          failed: reason.failed,
+          failure_rate: toRate(reason.failed, row.attempts)
+        }))
+    }))
+  };
+}
+
+// ===================================
+// Customer Feedback Summary
+// ===================================
+
+export type FeedbackDimension = 'driver' | 'category' | 'district' | 'zone';
+
+export const FEEDBACK_DIMENSIONS: FeedbackDimension[] = ['driver', 'category', 'district', 'zone'];
+
+// ออเดอร์ที่มีสินค้าหลายหมวด นับรีวิวนั้นในทุกหมวดที่มี
+const FEEDBACK_GROUPS: Record<FeedbackDimension, { join: Prisma.Sql; key: Prisma.Sql; label: Prisma.Sql }> = {
+  driver: {
+    join: Prisma.sql`JOIN "Driver" dr ON dr.id = f.driver_id`,
+    key: Prisma.sql`f.driver_id`,
+    label: Prisma.sql`dr.first_name || ' ' || dr.last_name`
+  },
+  category: {
+    join: Prisma.sql`JOIN (
+      SELECT DISTINCT oi.order_id, p.category
+      FROM "OrderItem" oi
+      JOIN "Product" p ON p.id = oi.product_id
+    ) cat ON cat.order_id = f.order_id`,
+    key: Prisma.sql`cat.category`,
+    label: Prisma.sql`cat.category`
+  },
+  district: {
+    join: Prisma.sql`JOIN "Customer" c ON c.id = f.customer_id`,
+    key: Prisma.sql`c.district`,
+    label: Prisma.sql`c.district`
+  },
+  zone: {
+    join: Prisma.sql`JOIN "Order" o ON o.id = f.order_id
+      LEFT JOIN "DeliveryZone" z ON z.id = o.zone_id`,
+    key: Prisma.sql`COALESCE(o.zone_id, 'none')`,
+    label: Prisma.sql`COALESCE(z.name, 'no zone')`
+  }
+};
+
+export async function getFeedbackSummary(range: AnalyticsRange, dimension: FeedbackDimension) {
+  const { join, key, label } = FEEDBACK_GROUPS[dimension];
+  const submittedInRange = Prisma.sql`
+    f.submitted_at IS NOT NULL
+    AND f.submitted_at >= ${range.start}
+    AND f.submitted_at < ${range.end}
+  `;
+
+  const groups = await prisma.$queryRaw<{
+    key: string;
+    label: string;
+    feedback_count: number;
+    avg_rating: number | null;
+    low_ratings: number;
+  }[]>`
+    SELECT
+      ${key} AS key,
+      ${label} AS label,
+      COUNT(*)::int AS feedback_count,
+      AVG(f.rating)::float AS avg_rating,
+      COUNT(*) FILTER (WHERE f.rating <= 2)::int AS low_ratings
+    FROM "DeliveryFeedback" f
+    ${join}
+    WHERE ${submittedInRange}
+    GROUP BY 1, 2
+    ORDER BY 4 ASC, 3 DESC
+  `;
+
+  const tags = await prisma.$queryRaw<{
+    key: string;
+    tag: string;
+    count: number;
+  }[]>`
+    SELECT
+      ${key} AS key,
+      t.tag,
+      COUNT(*)::int AS count
+    FROM "DeliveryFeedback" f
+    ${join}
+    CROSS JOIN LATERAL jsonb_array_elements_text(COALESCE(f.tags, '[]'::jsonb)) AS t(tag)
+    WHERE ${submittedInRange}
+    GROUP BY 1, 2
+    ORDER BY 3 DESC
+  `;
+
+  return {
+    dimension,
+    groups: groups.map(group => ({
+      key: group.key,
+      label: group.label,
+      feedback_count: group.feedback_count,
+      avg_rating: roundOrNull(group.avg_rating),
+      low_rating_rate: toRate(group.low_ratings, group.feedback_count),
+      tags: Object.fromEntries(
+        tags.filter(tag => tag.key === group.key).map(tag => [tag.tag, tag.count])
+      )
+    }))
+  };
+}
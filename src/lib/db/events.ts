@@ -0,0 +1,77 @@
+// ===================================
+// File: src/lib/db/events.ts
+// Order Event Log (append-only: มีแค่ insert และ read)
+// ===================================
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+export type OrderEventType =
+  | 'order_created'
+  | 'order_status_changed'
+  | 'delivery_status_changed'
+  | 'delivery_assigned'
+  | 'delivery_arrived'
+  | 'delivery_eta_risk_changed'
+  | 'driver_reassigned'
+  | 'priority_recalculated'
+  | 'priority_overridden'
+  | 'priority_override_revoked'
+  | 'order_rescheduled'
+  | 'order_cancelled'
+  | 'address_review_requested'
+  | 'temperature_breach_detected'
+  | 'feedback_submitted'
+  | 'delivery_address_changed'
+  | 'delivery_notes_changed'
+  | 'customer_not_home_reported';
+
+// ผู้ทำรายการและเหตุผล ส่งต่อจาก API ลงไปถึง query
+export interface EventContext {
+  actor?: string;
+  reason?: string;
+}
+
+export const SYSTEM_ACTOR = 'system';
+
+type DbClient = Prisma.TransactionClient | typeof prisma;
+
+export async function recordOrderEvent(
+  client: DbClient,
+  data: {
+    order_id: string;
+    delivery_id?: string;
+    event_type: OrderEventType;
+    from_value?: string | null;
+    to_value?: string | null;
+    payload?: Prisma.InputJsonValue;
+  },
+  context: EventContext = {}
+) {
+  return await client.orderEvent.create({
+    data: {
+      ...data,
+      actor: context.actor || SYSTEM_ACTOR,
+      reason: context.reason
+    }
+  });
+}
+
+export async function getOrderEvents(orderId: string) {
+  return await prisma.orderEvent.findMany({
+    where: { order_id: orderId },
+    orderBy: { created_at: 'asc' }
+  });
+}
+
+// ใช้โดย live feed ของ dashboard (ดึง event ใหม่เป็นระยะ)
+export async function getOrderEventsSince(since: Date, eventTypes: OrderEventType[], limit = 1000) {
+  return await prisma.orderEvent.findMany({
+    where: {
+      created_at: { gte: since },
+      event_type: { in: eventTypes }
+    },
+    orderBy: { created_at: 'asc' },
+    take: limit
+  });
+}
@@ -3,19 +3,63 @@
 // Database Queries
 // ===================================
 
+import { OrderEvent, Prisma } from '@prisma/client';
 import { prisma } from './prisma';
+import { EventContext, recordOrderEvent, SYSTEM_ACTOR } from './events';
+import { getDayRange } from '../dates';
+import { AppError, NotFoundError } from '../errors';
+import { CancellationReason, FailureReason, RetryDecision } from '../failures/policy';
+import {
+  assertDeliveryTransition,
+  assertOrderTransition,
+  canTransitionDelivery,
+  canTransitionOrder,
+  DELIVERY_STATUS_FOR_ORDER,
+  DeliveryStatus,
+  getDeliveryTimestamps,
+  InvalidStatusTransitionError,
+  ORDER_STATUS_FOR_DELIVERY,
+  OrderStatus
+} from '../status/transitions';
 
 // ===================================
 // Order Queries
 // ===================================
 
-export async function getPendingOrders() {
+// override ที่ยังไม่ถูกยกเลิกและยังไม่หมดอายุ (ล่าสุดก่อน)
+function activePriorityOverrides() {
+  return {
+    where: {
+      revoked_at: null,
+      OR: [
+        { expires_at: null },
+        { expires_at: { gt: new Date() } }
+      ]
+    },
+    orderBy: {
+      created_at: 'desc' as const
+    },
+    take: 1
+  };
+}
+
+// ค่าเริ่มต้น = ออเดอร์ pending ตั้งแต่วันนี้ไป (dashboard ส่ง filter สถานะ/วัน/class/โซนได้)
+export async function getPendingOrders(filters: {
+  delivery_date?: Date;
+  status?: string;
+  priority_class?: string;
+  zone_id?: string;
+} = {}) {
+  const deliveryDate = filters.delivery_date
+    ? { gte: getDayRange(filters.delivery_date).start, lt: getDayRange(filters.delivery_date).end }
+    : { gte: getDayRange(new Date()).start };
+
   return await prisma.order.findMany({
     where: {
-      order_status: 'pending',
-      delivery_date: {
-        gte: new Date()
-      }
+      order_status: filters.status ?? 'pending',
+      delivery_date: deliveryDate,
+      priority_class: filters.priority_class,
+      zone_id: filters.zone_id
     },
     include: {
       customer: true,
@@ -23,6 +67,9 @@ export async function getPendingOrders() {
         include: {
           product: true
         }
+      },
+      zone: {
+        select: { id: true, name: true }
       }
     },
     orderBy: {
@@ -52,9 +99,14 @@ export async function getOrderById(orderId: string) {
 }
 
 export async function getOrdersByDeliveryDate(deliveryDate: Date) {
+  const { start, end } = getDayRange(deliveryDate);
+
   return await prisma.order.findMany({
     where: {
-      delivery_date: deliveryDate,
+      delivery_date: {
+        gte: start,
+        lt: end
+      },
       order_status: {
         in: ['pending', 'assigned']
       }
@@ -65,7 +117,17 @@ export async function getOrdersByDeliveryDate(deliveryDate: Date) {
         include: {
           product: true
         }
-      }
+      },
+      deliveries: {
+        where: {
+          delivery_status: { not: 'failed' }
+        },
+        orderBy: {
+          created_at: 'desc'
+        },
+        take: 1
+      },
+      priority_overrides: activePriorityOverrides()
     },
     orderBy: [
       { priority_score: 'desc' },
@@ -74,238 +136,2512 @@ export async function getOrdersByDeliveryDate(deliveryDate: Date) {
   });
 }
 
-export async function updateOrderPriority(
-  orderId: string,
-  priorityScore: number,
-  priorityClass: string,
-  priorityBreakdown: any
-) {
-  return await prisma.order.update({
-    where: { id: orderId },
-    data: {
-      priority_score: priorityScore,
-      priority_class: priorityClass,
-      priority_breakdown: priorityBreakdown
-    }
+// ออเดอร์ที่ยังไม่ออกจัดส่ง (pending/assigned) ทุกวันส่ง รวมออเดอร์ค้างจากวันก่อนที่เร่งด่วนที่สุด
+export async function getActiveOrders() {
+  return await prisma.order.findMany({
+    where: {
+      order_status: {
+        in: ['pending', 'assigned']
+      }
+    },
+    include: {
+      customer: true,
+      order_items: {
+        include: {
+          product: true
+        }
+      },
+      deliveries: {
+        where: {
+          delivery_status: { not: 'failed' }
+        },
+        orderBy: {
+          created_at: 'desc'
+        },
+        take: 1
+      },
+      priority_overrides: activePriorityOverrides()
+    },
+    orderBy: [
+      { delivery_date: 'asc' },
+      { priority_score: 'desc' }
+    ]
   });
 }
 
-export async function updateOrderStatus(orderId: string, status: string) {
-  return await prisma.order.update({
-    where: { id: orderId },
-    data: {
-      order_status: status,
-      updated_at: new Date()
+// ลูกค้าใหม่ (new_customer) สร้างใน transaction เดียวกับออเดอร์ ออเดอร์ล้มก็ไม่เหลือลูกค้าค้าง
+export async function createOrderWithItems(data: {
+  customer_id?: string;
+  new_customer?: CustomerCreateData;
+  delivery_date: Date;
+  delivery_window_start: Date;
+  delivery_window_end: Date;
+  customer_priority: string;
+  delivery_address: string;
+  delivery_latitude: number;
+  delivery_longitude: number;
+  zone_id?: string | null;
+  outside_service_area?: boolean;
+  slot_id?: string | null;
+  tracking_token_hash?: string;
+  items: {
+    product_id: string;
+    quantity: number;
+    unit_price: number;
+    expiration_datetime: Date;
+  }[];
+}) {
+  const { items, new_customer, customer_id, ...orderData } = data;
+
+  return await prisma.$transaction(async (tx) => {
+    if (orderData.slot_id) {
+      await reserveDeliverySlot(tx, orderData.slot_id);
+    }
+
+    const customerId = new_customer ? (await insertCustomer(tx, new_customer)).id : customer_id;
+    if (!customerId) {
+      throw new Error('createOrderWithItems requires customer_id or new_customer');
     }
+
+    const order = await tx.order.create({
+      data: {
+        ...orderData,
+        customer_id: customerId,
+        order_items: {
+          create: items
+        }
+      },
+      include: {
+        customer: true,
+        order_items: {
+          include: {
+            product: true
+          }
+        }
+      }
+    });
+
+    await recordOrderEvent(tx, {
+      order_id: order.id,
+      event_type: 'order_created',
+      to_value: order.order_status,
+      payload: {
+        zone_id: order.zone_id,
+        slot_id: order.slot_id
+      }
+    });
+
+    return order;
   });
 }
 
-// ===================================
-// Customer Queries
-// ===================================
-
-export async function getCustomerByPhone(phone: string) {
-  return await prisma.customer.findUnique({
-    where: { phone },
+export async function getOrdersByIds(orderIds: string[]) {
+  return await prisma.order.findMany({
+    where: {
+      id: { in: orderIds }
+    },
     include: {
-      orders: {
+      customer: true,
+      order_items: {
+        include: {
+          product: true
+        }
+      },
+      deliveries: {
+        where: {
+          delivery_status: { not: 'failed' }
+        },
         orderBy: {
           created_at: 'desc'
         },
-        take: 10
-      }
+        take: 1
+      },
+      priority_overrides: activePriorityOverrides()
     }
   });
 }
 
-export async function createCustomer(data: {
-  name: string;
-  phone: string;
-  email?: string;
-  address_line1: string;
-  address_line2?: string;
-  district: string;
-  city: string;
-  postal_code?: string;
-  latitude: number;
-  longitude: number;
-  delivery_notes?: string;
+export async function updateOrderPriority(
+  orderId: string,
+  priorityScore: number,
+  priorityClass: string,
+  priorityBreakdown: Prisma.InputJsonValue,
+  priorityRank?: number,
+  context: EventContext = {}
+) {
+  return await prisma.$transaction(async (tx) => {
+    const previous = await tx.order.findUnique({
+      where: { id: orderId },
+      select: { priority_score: true, priority_class: true }
+    });
+
+    const updated = await tx.order.update({
+      where: { id: orderId },
+      data: {
+        priority_score: priorityScore,
+        priority_class: priorityClass,
+        priority_breakdown: priorityBreakdown,
+        priority_rank: priorityRank
+      }
+    });
+
+    await recordOrderEvent(tx, {
+      order_id: orderId,
+      event_type: 'priority_recalculated',
+      from_value: previous?.priority_class,
+      to_value: priorityClass,
+      payload: {
+        previous_score: previous?.priority_score ?? null,
+        priority_score: priorityScore,
+        priority_rank: priorityRank ?? null,
+        breakdown: priorityBreakdown
+      }
+    }, context);
+
+    return updated;
+  });
+}
+
+export async function recordPriorityEscalation(data: {
+  order_id: string;
+  from_class: string;
+  to_class: string;
+  from_score?: number | null;
+  to_score: number;
+  escalated_at?: Date;
 }) {
-  return await prisma.customer.create({
+  return await prisma.priorityEscalation.create({
     data
   });
 }
 
-// ===================================
-// Product Queries
-// ===================================
+// เปลี่ยนสถานะตาม state machine และปรับ delivery ที่ยังไม่จบให้ตรงกัน
+export async function updateOrderStatus(
+  orderId: string,
+  status: OrderStatus,
+  context: EventContext = {}
+) {
+  return await prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      include: {
+        deliveries: {
+          where: {
+            delivery_status: { notIn: ['delivered', 'failed'] }
+          }
+        }
+      }
+    });
 
-export async function getActiveProducts() {
-  return await prisma.product.findMany({
-    where: {
-      is_active: true
-    },
-    orderBy: {
-      name: 'asc'
+    if (!order) {
+      throw new NotFoundError('Order not found');
+    }
+
+    assertOrderTransition(order.order_status, status);
+
+    const now = new Date();
+    const deliveryStatus = DELIVERY_STATUS_FOR_ORDER[status];
+
+    for (const delivery of order.deliveries) {
+      if (status === 'pending' && delivery.delivery_status === 'pending') {
+        // ยกเลิกการจ่ายงาน: delivery ที่ยังไม่รับของถูกลบออก
+        await tx.delivery.delete({ where: { id: delivery.id } });
+      } else if (deliveryStatus && canTransitionDelivery(delivery.delivery_status, deliveryStatus)) {
+        await tx.delivery.update({
+          where: { id: delivery.id },
+          data: {
+            delivery_status: deliveryStatus,
+            ...getDeliveryTimestamps(delivery, deliveryStatus, now)
+          }
+        });
+        await recordOrderEvent(tx, {
+          order_id: orderId,
+          delivery_id: delivery.id,
+          event_type: 'delivery_status_changed',
+          from_value: delivery.delivery_status,
+          to_value: deliveryStatus
+        }, context);
+      }
+    }
+
+    // ยกเลิกก่อนจ่ายงาน: คืนที่ใน slot (การยกเลิกหลังส่งไม่สำเร็จใช้ cancelFailedOrder ที่ตั้งยอดคืนเงินด้วย)
+    const cancellationReason = context.reason || 'cancelled_by_staff';
+    if (status === 'cancelled' && order.slot_id) {
+      await releaseDeliverySlot(tx, order.slot_id);
+    }
+
+    const updated = await tx.order.update({
+      where: { id: orderId },
+      data: {
+        order_status: status,
+        updated_at: now,
+        ...(status === 'cancelled' && {
+          cancelled_at: now,
+          cancellation_reason: cancellationReason
+        })
+      }
+    });
+
+    await recordOrderEvent(tx, {
+      order_id: orderId,
+      event_type: 'order_status_changed',
+      from_value: order.order_status,
+      to_value: status
+    }, context);
+
+    if (status === 'cancelled') {
+      await recordOrderEvent(tx, {
+        order_id: orderId,
+        event_type: 'order_cancelled',
+        to_value: cancellationReason
+      }, context);
     }
+
+    return updated;
   });
 }
 
-export async function getProductsByCategory(category: string) {
-  return await prisma.product.findMany({
+type OrderWithItems = Prisma.OrderGetPayload<{ include: { order_items: true } }>;
+
+// ผลที่เกิดจริงหลังตัดสินใจ (reschedule ได้ window ที่จอง slot ได้ตัวแรก)
+export type FailureOutcome =
+  | {
+    decision: 'reschedule';
+    delivery_date: Date;
+    delivery_window_start: Date;
+    delivery_window_end: Date;
+    slot_id: string | null;
+  }
+  | {
+    decision: 'review';
+    review_reason: FailureReason;
+  }
+  | {
+    decision: 'cancel';
+    cancellation_reason: CancellationReason;
+  };
+
+export type RetryDecider = (order: OrderWithItems, failedAt: Date) => RetryDecision;
+
+// ออเดอร์ที่ส่งไม่สำเร็จเพราะที่อยู่ผิดและรอพนักงานตรวจที่อยู่ของลูกค้า
+export async function getOrdersAwaitingAddressReview(customerId: string) {
+  return await prisma.order.findMany({
     where: {
-      category,
-      is_active: true
+      customer_id: customerId,
+      order_status: 'failed',
+      last_failure_reason: 'wrong_address'
     },
-    orderBy: {
-      name: 'asc'
-    }
+    select: { id: true }
   });
 }
 
-// ===================================
-// Driver & Vehicle Queries
-// ===================================
+// ตัดสินออเดอร์ที่ค้างสถานะ failed อีกครั้ง (เช่น หลังพนักงานแก้ที่อยู่)
+export async function resolveFailedOrderById(
+  orderId: string,
+  decide: RetryDecider,
+  data: { failure_reason: FailureReason; failed_at: Date },
+  context: EventContext = {}
+) {
+  return await prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      include: { order_items: true }
+    });
 
-export async function getAvailableDrivers() {
-  return await prisma.driver.findMany({
-    where: {
-      status: 'active'
-    },
-    orderBy: {
-      rating: 'desc'
+    if (!order) {
+      throw new NotFoundError('Order not found');
+    }
+
+    if (order.order_status !== 'failed') {
+      return null;
     }
+
+    return await resolveFailedOrder(tx, order, decide(order, data.failed_at), data, context);
   });
 }
 
-export async function getAvailableVehicles() {
-  return await prisma.vehicle.findMany({
-    where: {
-      current_status: 'available'
-    },
-    orderBy: {
-      vehicle_type: 'asc'
+async function resolveFailedOrder(
+  tx: Prisma.TransactionClient,
+  order: OrderWithItems,
+  decision: RetryDecision,
+  data: { failure_reason: FailureReason; failed_at: Date },
+  context: EventContext
+): Promise<FailureOutcome> {
+  switch (decision.decision) {
+    case 'reschedule': {
+      // window ใหม่จอง slot ของโซนเหมือนตอนรับออเดอร์ (ไม่มี slot ตรง window = ไม่ต้องจอง)
+      for (const window of decision.windows) {
+        const slot = order.zone_id
+          ? await tx.deliverySlot.findUnique({
+            where: {
+              zone_id_window_start_window_end: {
+                zone_id: order.zone_id,
+                window_start: window.start,
+                window_end: window.end
+              }
+            }
+          })
+          : null;
+
+        if (slot && !await tryReserveDeliverySlot(tx, slot.id)) {
+          continue;
+        }
+
+        const deliveryDate = new Date(window.start);
+        deliveryDate.setHours(0, 0, 0, 0);
+
+        await rescheduleFailedOrder(tx, order, {
+          delivery_date: deliveryDate,
+          delivery_window_start: window.start,
+          delivery_window_end: window.end,
+          slot_id: slot?.id ?? null,
+          ...data
+        }, context);
+
+        return {
+          decision: 'reschedule',
+          delivery_date: deliveryDate,
+          delivery_window_start: window.start,
+          delivery_window_end: window.end,
+          slot_id: slot?.id ?? null
+        };
+      }
+
+      await cancelFailedOrder(tx, order, { cancellation_reason: 'no_slot_available', ...data }, context);
+      return { decision: 'cancel', cancellation_reason: 'no_slot_available' };
     }
-  });
+    case 'review':
+      await requestAddressReview(tx, order, data, context);
+      return decision;
+    case 'cancel':
+      await cancelFailedOrder(tx, order, { cancellation_reason: decision.cancellation_reason, ...data }, context);
+      return decision;
+  }
 }
 
-// ===================================
-// Delivery Queries
-// ===================================
+// ส่งไม่สำเร็จ → นัดส่งใหม่ใน window ถัดไป (failed → pending)
+async function rescheduleFailedOrder(
+  tx: Prisma.TransactionClient,
+  order: OrderWithItems,
+  data: {
+    delivery_date: Date;
+    delivery_window_start: Date;
+    delivery_window_end: Date;
+    slot_id: string | null;
+    failure_reason: string;
+    failed_at: Date;
+  },
+  context: EventContext
+) {
+  assertOrderTransition(order.order_status, 'pending');
 
-export async function createDelivery(data: {
-  order_id: string;
-  driver_id: string;
-  vehicle_id: string;
-  planned_arrival?: Date;
-}) {
-  return await prisma.delivery.create({
+  if (order.slot_id) {
+    await releaseDeliverySlot(tx, order.slot_id);
+  }
+
+  const updated = await tx.order.update({
+    where: { id: order.id },
     data: {
-      ...data,
-      delivery_status: 'pending'
-    },
-    include: {
-      order: {
-        include: {
-          customer: true,
-          order_items: {
-            include: {
-              product: true
-            }
-          }
-        }
-      },
-      driver: true,
-      vehicle: true
+      order_status: 'pending',
+      delivery_date: data.delivery_date,
+      delivery_window_start: data.delivery_window_start,
+      delivery_window_end: data.delivery_window_end,
+      slot_id: data.slot_id,
+      retry_count: { increment: 1 },
+      last_failure_reason: data.failure_reason,
+      last_failed_at: data.failed_at
     }
   });
+
+  await recordOrderEvent(tx, {
+    order_id: order.id,
+    event_type: 'order_status_changed',
+    from_value: order.order_status,
+    to_value: 'pending'
+  }, context);
+
+  await recordOrderEvent(tx, {
+    order_id: order.id,
+    event_type: 'order_rescheduled',
+    from_value: order.delivery_window_start.toISOString(),
+    to_value: data.delivery_window_start.toISOString(),
+    payload: {
+      failure_reason: data.failure_reason,
+      retry_count: updated.retry_count,
+      delivery_window_end: data.delivery_window_end.toISOString(),
+      slot_id: data.slot_id
+    }
+  }, context);
+
+  return updated;
 }
 
-export async function updateDeliveryStatus(
-  deliveryId: string,
-  status: string,
-  timestamps?: {
-    pickup_time?: Date;
-    delivery_time?: Date;
-    actual_arrival?: Date;
-  }
+// ส่งไม่สำเร็จเพราะที่อยู่ผิด → ค้างสถานะ failed และติดธงให้ตรวจที่อยู่ลูกค้า
+async function requestAddressReview(
+  tx: Prisma.TransactionClient,
+  order: OrderWithItems,
+  data: { failure_reason: string; failed_at: Date },
+  context: EventContext
 ) {
-  return await prisma.delivery.update({
-    where: { id: deliveryId },
+  await tx.order.update({
+    where: { id: order.id },
     data: {
-      delivery_status: status,
-      ...timestamps
+      last_failure_reason: data.failure_reason,
+      last_failed_at: data.failed_at
     }
   });
+
+  await tx.customer.update({
+    where: { id: order.customer_id },
+    data: { address_needs_review: true }
+  });
+
+  await recordOrderEvent(tx, {
+    order_id: order.id,
+    event_type: 'address_review_requested',
+    to_value: data.failure_reason
+  }, context);
 }
 
-export async function getDeliveriesByDriver(driverId: string, date?: Date) {
-  const whereClause: any = {
-    driver_id: driverId
-  };
+// ส่งไม่สำเร็จและส่งซ้ำไม่ได้ → ยกเลิก และตั้งยอดคืนเงินรอฝ่ายการเงินดำเนินการ
+async function cancelFailedOrder(
+  tx: Prisma.TransactionClient,
+  order: OrderWithItems,
+  data: {
+    cancellation_reason: string;
+    failure_reason: string;
+    failed_at: Date;
+  },
+  context: EventContext
+) {
+  assertOrderTransition(order.order_status, 'cancelled');
 
-  if (date) {
-    whereClause.created_at = {
-      gte: new Date(date.setHours(0, 0, 0, 0)),
-      lt: new Date(date.setHours(23, 59, 59, 999))
-    };
+  if (order.slot_id) {
+    await releaseDeliverySlot(tx, order.slot_id);
   }
 
-  return await prisma.delivery.findMany({
-    where: whereClause,
-    include: {
-      order: {
-        include: {
-          customer: true,
-          order_items: {
-            include: {
-              product: true
-            }
-          }
-        }
-      },
-      vehicle: true
-    },
-    orderBy: {
-      created_at: 'desc'
+  const refundAmount = order.order_items.reduce(
+    (sum, item) => sum + item.unit_price * item.quantity,
+    0
+  );
+
+  const updated = await tx.order.update({
+    where: { id: order.id },
+    data: {
+      order_status: 'cancelled',
+      cancelled_at: data.failed_at,
+      cancellation_reason: data.cancellation_reason,
+      last_failure_reason: data.failure_reason,
+      last_failed_at: data.failed_at,
+      refund_amount: Math.round(refundAmount * 100) / 100,
+      refund_status: 'pending'
     }
   });
-}
+
+  await recordOrderEvent(tx, {
+    order_id: order.id,
+    event_type: 'order_status_changed',
+    from_value: order.order_status,
+    to_value: 'cancelled'
+  }, context);
+
+  await recordOrderEvent(tx, {
+    order_id: order.id,
+    event_type: 'order_cancelled',
+    to_value: data.cancellation_reason,
+    payload: {
+      failure_reason: data.failure_reason,
+      refund_amount: updated.refund_amount
+    }
+  }, context);
+
+  return updated;
+}
+
+// ===================================
+// Priority Override Queries
+// ===================================
+
+export async function getPriorityOverrides(orderId: string) {
+  return await prisma.priorityOverride.findMany({
+    where: { order_id: orderId },
+    orderBy: { created_at: 'desc' }
+  });
+}
+
+// ออเดอร์หนึ่งมี override ที่ใช้งานได้ครั้งละหนึ่งรายการ (รายการเก่าถูกยกเลิก)
+export async function createPriorityOverride(data: {
+  order_id: string;
+  override_type: string;
+  priority_class?: string;
+  priority_rank?: number;
+  score_boost?: number;
+  reason: string;
+  created_by: string;
+  expires_at?: Date;
+}) {
+  return await prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({
+      where: { id: data.order_id }
+    });
+
+    if (!order) {
+      throw new NotFoundError('Order not found');
+    }
+
+    const now = new Date();
+    await tx.priorityOverride.updateMany({
+      where: {
+        order_id: data.order_id,
+        revoked_at: null
+      },
+      data: {
+        revoked_at: now,
+        revoked_by: data.created_by
+      }
+    });
+
+    const override = await tx.priorityOverride.create({
+      data
+    });
+
+    await recordOrderEvent(tx, {
+      order_id: data.order_id,
+      event_type: 'priority_overridden',
+      to_value: data.override_type,
+      payload: {
+        override_id: override.id,
+        priority_class: data.priority_class ?? null,
+        priority_rank: data.priority_rank ?? null,
+        score_boost: data.score_boost ?? null,
+        expires_at: data.expires_at?.toISOString() ?? null
+      }
+    }, { actor: data.created_by, reason: data.reason });
+
+    return override;
+  });
+}
+
+export async function revokePriorityOverrides(
+  orderId: string,
+  context: EventContext = {}
+) {
+  return await prisma.$transaction(async (tx) => {
+    const active = await tx.priorityOverride.findMany({
+      where: {
+        order_id: orderId,
+        revoked_at: null
+      }
+    });
+
+    if (active.length === 0) {
+      throw new NotFoundError('No active priority override for this order');
+    }
+
+    await tx.priorityOverride.updateMany({
+      where: {
+        id: { in: active.map(override => override.id) }
+      },
+      data: {
+        revoked_at: new Date(),
+        revoked_by: context.actor
+      }
+    });
+
+    for (const override of active) {
+      await recordOrderEvent(tx, {
+        order_id: orderId,
+        event_type: 'priority_override_revoked',
+        from_value: override.override_type,
+        payload: { override_id: override.id }
+      }, context);
+    }
+
+    return active.length;
+  });
+}
+
+// override ที่หมดอายุแล้วแต่ยังไม่ถูกปิด: ปิดด้วยเวลาหมดอายุ คืน order_id ที่คะแนนในฐานข้อมูลยังเป็นค่าที่ถูก override
+export async function revokeExpiredPriorityOverrides(now: Date) {
+  return await prisma.$transaction(async (tx) => {
+    const expired = await tx.priorityOverride.findMany({
+      where: {
+        revoked_at: null,
+        expires_at: { lte: now }
+      }
+    });
+
+    const orderIds = new Set<string>();
+    for (const override of expired) {
+      const { count } = await tx.priorityOverride.updateMany({
+        where: { id: override.id, revoked_at: null },
+        data: {
+          revoked_at: override.expires_at,
+          revoked_by: SYSTEM_ACTOR
+        }
+      });
+      if (count === 0) continue;
+
+      await recordOrderEvent(tx, {
+        order_id: override.order_id,
+        event_type: 'priority_override_revoked',
+        from_value: override.override_type,
+        payload: { override_id: override.id }
+      }, { reason: 'expired' });
+      orderIds.add(override.order_id);
+    }
+
+    return [...orderIds];
+  });
+}
+
+// ===================================
+// Customer Queries
+// ===================================
+
+export async function getCustomerByPhone(phone: string) {
+  return await prisma.customer.findUnique({
+    where: { phone },
+    include: {
+      orders: {
+        orderBy: {
+          created_at: 'desc'
+        },
+        take: 10
+      }
+    }
+  });
+}
+
+export interface CustomerCreateData {
+  name: string;
+  phone: string;
+  email?: string;
+  address_line1: string;
+  address_line2?: string;
+  district: string;
+  city: string;
+  postal_code?: string;
+  latitude: number;
+  longitude: number;
+  delivery_notes?: string;
+  line_user_id?: string;
+  preferred_language?: string;
+  geocode_source?: string;
+  geocode_confidence?: string;
+  address_needs_review?: boolean;
+}
+
+export async function createCustomer(data: CustomerCreateData) {
+  return await insertCustomer(prisma, data);
+}
+
+async function insertCustomer(client: Prisma.TransactionClient | typeof prisma, data: CustomerCreateData) {
+  return await client.customer.create({
+    data: {
+      ...data,
+      geocoded_at: data.geocode_source ? new Date() : undefined
+    }
+  });
+}
+
+export async function getCustomerById(customerId: string) {
+  return await prisma.customer.findUnique({
+    where: { id: customerId }
+  });
+}
+
+export async function getCustomersNeedingAddressReview() {
+  return await prisma.customer.findMany({
+    where: { address_needs_review: true },
+    orderBy: { updated_at: 'asc' }
+  });
+}
+
+// เปลี่ยนที่อยู่ลูกค้า แล้วปรับที่อยู่/พิกัดที่เก็บซ้ำในออเดอร์ที่ยังไม่ออกส่งให้ตรงกัน
+export async function updateCustomerAddress(
+  customerId: string,
+  data: {
+    address_line1: string;
+    address_line2: string | null;
+    district: string;
+    city: string;
+    postal_code: string | null;
+    latitude: number;
+    longitude: number;
+    geocode_source: string;
+    geocode_confidence: string;
+    address_needs_review: boolean;
+    delivery_address: string;
+    zone_id: string | null;
+    outside_service_area: boolean;
+  },
+  context: EventContext = {}
+) {
+  return await prisma.$transaction(async (tx) => {
+    const { delivery_address, zone_id, outside_service_area, ...customerData } = data;
+
+    const customer = await tx.customer.update({
+      where: { id: customerId },
+      data: {
+        ...customerData,
+        geocoded_at: new Date()
+      }
+    });
+
+    // failed = รอตรวจที่อยู่ (ส่งไม่สำเร็จเพราะที่อยู่ผิด) จะนัดส่งใหม่ไปที่อยู่นี้
+    const openOrders = await tx.order.findMany({
+      where: {
+        customer_id: customerId,
+        order_status: { in: ['pending', 'assigned', 'failed'] }
+      },
+      select: { id: true, delivery_address: true }
+    });
+
+    await tx.order.updateMany({
+      where: {
+        id: { in: openOrders.map(order => order.id) }
+      },
+      data: {
+        delivery_address,
+        delivery_latitude: data.latitude,
+        delivery_longitude: data.longitude,
+        zone_id,
+        outside_service_area
+      }
+    });
+
+    for (const order of openOrders) {
+      await recordOrderEvent(tx, {
+        order_id: order.id,
+        event_type: 'delivery_address_changed',
+        from_value: order.delivery_address,
+        to_value: delivery_address,
+        payload: {
+          latitude: data.latitude,
+          longitude: data.longitude,
+          geocode_confidence: data.geocode_confidence,
+          zone_id
+        }
+      }, context);
+    }
+
+    return {
+      customer,
+      synced_order_ids: openOrders.map(order => order.id)
+    };
+  });
+}
+
+// ===================================
+// Product Queries
+// ===================================
+
+export async function getActiveProducts() {
+  return await prisma.product.findMany({
+    where: {
+      is_active: true
+    },
+    orderBy: {
+      name: 'asc'
+    }
+  });
+}
+
+export async function getProductsByIds(productIds: string[]) {
+  return await prisma.product.findMany({
+    where: {
+      id: { in: productIds }
+    }
+  });
+}
+
+export async function getProductsByCategory(category: string) {
+  return await prisma.product.findMany({
+    where: {
+      category,
+      is_active: true
+    },
+    orderBy: {
+      name: 'asc'
+    }
+  });
+}
+
+// ===================================
+// Order Tracking Queries (ลิงก์ติดตามของลูกค้า)
+// ===================================
+
+export async function setOrderTrackingTokenHash(orderId: string, tokenHash: string) {
+  return await prisma.order.update({
+    where: { id: orderId },
+    data: { tracking_token_hash: tokenHash }
+  });
+}
+
+export async function getOrderByTrackingTokenHash(tokenHash: string) {
+  return await prisma.order.findUnique({
+    where: { tracking_token_hash: tokenHash },
+    include: {
+      customer: {
+        select: { delivery_notes: true }
+      },
+      deliveries: {
+        where: {
+          delivery_status: { not: 'failed' }
+        },
+        include: {
+          driver: {
+            select: { first_name: true }
+          },
+          vehicle: {
+            select: { vehicle_type: true }
+          }
+        },
+        orderBy: {
+          created_at: 'desc'
+        },
+        take: 1
+      }
+    }
+  });
+}
+
+// ลูกค้าแก้ได้เฉพาะก่อนจ่ายงาน (ออเดอร์ยัง pending)
+export async function updateTrackedOrder(
+  orderId: string,
+  data: {
+    delivery_notes?: string | null;
+    not_home?: boolean;
+  },
+  context: EventContext = {}
+) {
+  return await prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      include: {
+        customer: {
+          select: { delivery_notes: true }
+        }
+      }
+    });
+
+    if (!order) {
+      throw new NotFoundError('Order not found');
+    }
+
+    if (order.order_status !== 'pending') {
+      throw new AppError('Order has already been dispatched', 409);
+    }
+
+    if (data.delivery_notes !== undefined && data.delivery_notes !== order.customer.delivery_notes) {
+      await tx.customer.update({
+        where: { id: order.customer_id },
+        data: { delivery_notes: data.delivery_notes }
+      });
+
+      await recordOrderEvent(tx, {
+        order_id: orderId,
+        event_type: 'delivery_notes_changed',
+        from_value: order.customer.delivery_notes,
+        to_value: data.delivery_notes
+      }, context);
+    }
+
+    const wasNotHome = order.customer_not_home_at !== null;
+    if (data.not_home !== undefined && data.not_home !== wasNotHome) {
+      await tx.order.update({
+        where: { id: orderId },
+        data: { customer_not_home_at: data.not_home ? new Date() : null }
+      });
+
+      await recordOrderEvent(tx, {
+        order_id: orderId,
+        event_type: 'customer_not_home_reported',
+        from_value: String(wasNotHome),
+        to_value: String(data.not_home)
+      }, context);
+    }
+  });
+}
+
+// ===================================
+// Driver & Vehicle Queries
+// ===================================
+
+// คนขับที่ยังไม่มี rating (งานยังน้อย) อยู่ท้ายรายการ
+export async function getAvailableDrivers() {
+  return await prisma.driver.findMany({
+    where: {
+      status: 'active'
+    },
+    orderBy: {
+      rating: { sort: 'desc', nulls: 'last' }
+    }
+  });
+}
+
+export async function getActiveDriverIds() {
+  const drivers = await prisma.driver.findMany({
+    where: { status: 'active' },
+    select: { id: true }
+  });
+  return drivers.map(driver => driver.id);
+}
+
+// งานที่จบแล้ว (ส่งสำเร็จ/ไม่สำเร็จ) ตั้งแต่ since ใช้คำนวณ rating
+export async function getDriverCompletedDeliveries(driverId: string, since: Date) {
+  return await prisma.delivery.findMany({
+    where: {
+      driver_id: driverId,
+      delivery_status: { in: ['delivered', 'failed'] },
+      updated_at: { gte: since }
+    },
+    select: {
+      id: true,
+      delivery_status: true,
+      delivery_time: true,
+      updated_at: true,
+      delay_minutes: true,
+      failure_reason: true,
+      temperature_breached: true,
+      feedback: {
+        select: { rating: true }
+      }
+    }
+  });
+}
+
+export async function updateDriverRating(driverId: string, rating: number | null) {
+  return await prisma.driver.update({
+    where: { id: driverId },
+    data: { rating }
+  });
+}
+
+export async function getDriverById(driverId: string) {
+  return await prisma.driver.findUnique({
+    where: { id: driverId }
+  });
+}
+
+export async function getAvailableVehicles() {
+  return await prisma.vehicle.findMany({
+    where: {
+      current_status: 'available'
+    },
+    orderBy: {
+      vehicle_type: 'asc'
+    }
+  });
+}
+
+export async function getVehicleById(vehicleId: string) {
+  return await prisma.vehicle.findUnique({
+    where: { id: vehicleId }
+  });
+}
+
+// ===================================
+// Depot & Delivery Zone Queries
+// ===================================
+
+export async function getDepots() {
+  return await prisma.depot.findMany({
+    include: { zones: true },
+    orderBy: { name: 'asc' }
+  });
+}
+
+export async function getDepotById(depotId: string) {
+  return await prisma.depot.findUnique({
+    where: { id: depotId }
+  });
+}
+
+export async function createDepot(data: {
+  name: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+}) {
+  return await prisma.depot.create({ data });
+}
+
+export async function getDeliveryZones() {
+  return await prisma.deliveryZone.findMany({
+    include: { depot: true },
+    orderBy: { name: 'asc' }
+  });
+}
+
+export async function getDeliveryZoneById(zoneId: string) {
+  return await prisma.deliveryZone.findUnique({
+    where: { id: zoneId },
+    include: { depot: true }
+  });
+}
+
+// โซนที่ใช้ตรวจพื้นที่ให้บริการ (ทั้งโซนและ depot ต้องเปิดอยู่)
+export async function getActiveDeliveryZones() {
+  return await prisma.deliveryZone.findMany({
+    where: {
+      is_active: true,
+      depot: { is_active: true }
+    },
+    include: { depot: true }
+  });
+}
+
+export async function createDeliveryZone(data: {
+  depot_id: string;
+  name: string;
+  polygon: Prisma.InputJsonValue;
+  operating_hours: Prisma.InputJsonValue;
+  delivery_windows: Prisma.InputJsonValue | null;
+  min_order_value: number;
+}) {
+  return await prisma.deliveryZone.create({
+    data: {
+      ...data,
+      delivery_windows: data.delivery_windows ?? Prisma.DbNull
+    },
+    include: { depot: true }
+  });
+}
+
+// ออเดอร์ที่ยังไม่ออกส่งและยังไม่ได้ผูกโซน (เช่นสร้างก่อนมีโซน)
+export async function getUnzonedOpenOrders() {
+  return await prisma.order.findMany({
+    where: {
+      zone_id: null,
+      order_status: { in: ['pending', 'assigned'] }
+    },
+    select: {
+      id: true,
+      delivery_latitude: true,
+      delivery_longitude: true
+    }
+  });
+}
+
+export async function updateOrderZone(
+  orderId: string,
+  data: { zone_id: string | null; outside_service_area: boolean }
+) {
+  return await prisma.order.update({
+    where: { id: orderId },
+    data
+  });
+}
+
+// ===================================
+// Delivery Slot Queries
+// ===================================
+
+// กำลังส่งที่มีอยู่ = จำนวนที่น้อยกว่าระหว่างคนขับที่ทำงานได้กับรถที่ไม่ได้ซ่อม
+export async function getFleetSize() {
+  const [drivers, vehicles] = await Promise.all([
+    prisma.driver.count({ where: { status: 'active' } }),
+    prisma.vehicle.count({ where: { current_status: { not: 'maintenance' } } })
+  ]);
+
+  return Math.min(drivers, vehicles);
+}
+
+// slot ที่มีอยู่แล้วไม่ถูกแก้ (capacity ที่ตั้งเองไม่หาย)
+export async function createDeliverySlots(slots: {
+  zone_id: string;
+  slot_date: Date;
+  window_start: Date;
+  window_end: Date;
+  capacity: number;
+}[]) {
+  return await prisma.deliverySlot.createMany({
+    data: slots,
+    skipDuplicates: true
+  });
+}
+
+export async function getDeliverySlots(zoneId: string, start: Date, end: Date) {
+  return await prisma.deliverySlot.findMany({
+    where: {
+      zone_id: zoneId,
+      slot_date: { gte: start, lt: end }
+    },
+    orderBy: { window_start: 'asc' }
+  });
+}
+
+export async function getDeliverySlotById(slotId: string) {
+  return await prisma.deliverySlot.findUnique({
+    where: { id: slotId }
+  });
+}
+
+export async function updateDeliverySlotCapacity(slotId: string, capacity: number) {
+  return await prisma.deliverySlot.update({
+    where: { id: slotId },
+    data: {
+      capacity,
+      capacity_source: 'manual'
+    }
+  });
+}
+
+// จองแบบ atomic: เพิ่ม reserved_count เฉพาะเมื่อยังไม่เต็ม (สองคำขอพร้อมกันจองที่สุดท้ายได้คนเดียว)
+async function tryReserveDeliverySlot(tx: Prisma.TransactionClient, slotId: string) {
+  const reserved = await tx.deliverySlot.updateMany({
+    where: {
+      id: slotId,
+      reserved_count: { lt: prisma.deliverySlot.fields.capacity }
+    },
+    data: {
+      reserved_count: { increment: 1 }
+    }
+  });
+
+  return reserved.count > 0;
+}
+
+async function reserveDeliverySlot(tx: Prisma.TransactionClient, slotId: string) {
+  if (!await tryReserveDeliverySlot(tx, slotId)) {
+    throw new AppError('Delivery slot is full', 409, { slot_id: slotId });
+  }
+}
+
+async function releaseDeliverySlot(tx: Prisma.TransactionClient, slotId: string) {
+  await tx.deliverySlot.updateMany({
+    where: {
+      id: slotId,
+      reserved_count: { gt: 0 }
+    },
+    data: {
+      reserved_count: { decrement: 1 }
+    }
+  });
+}
+
+// ===================================
+// Delivery Queries
+// ===================================
+
+export interface DeliveryProofInput {
+  recipient_name?: string;
+  photo_ref?: string;
+  signature_ref?: string;
+  latitude?: number;
+  longitude?: number;
+  gps_accuracy_m?: number;
+  captured_at?: Date;
+}
+
+export async function createDelivery(data: {
+  order_id: string;
+  driver_id: string;
+  vehicle_id: string;
+  planned_arrival?: Date;
+}, context: EventContext = {}) {
+  return await prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({
+      where: { id: data.order_id }
+    });
+
+    if (!order) {
+      throw new NotFoundError('Order not found');
+    }
+
+    if (order.order_status === 'pending') {
+      // เงื่อนไข pending กันการจ่ายงานซ้อนกับ request อื่น
+      const { count } = await tx.order.updateMany({
+        where: { id: order.id, order_status: 'pending' },
+        data: { order_status: 'assigned' }
+      });
+      if (count === 0) {
+        throw new AppError('Order is no longer pending', 409);
+      }
+
+      await recordOrderEvent(tx, {
+        order_id: order.id,
+        event_type: 'order_status_changed',
+        from_value: 'pending',
+        to_value: 'assigned'
+      }, context);
+    } else if (order.order_status !== 'assigned') {
+      throw new InvalidStatusTransitionError('order', order.order_status, 'assigned');
+    }
+
+    const delivery = await tx.delivery.create({
+      data: {
+        ...data,
+        delivery_status: 'pending'
+      },
+      include: {
+        order: {
+          include: {
+            customer: true,
+            order_items: {
+              include: {
+                product: true
+              }
+            }
+          }
+        },
+        driver: true,
+        vehicle: true
+      }
+    });
+
+    await recordOrderEvent(tx, {
+      order_id: order.id,
+      delivery_id: delivery.id,
+      event_type: 'delivery_assigned',
+      to_value: delivery.driver_id,
+      payload: { vehicle_id: delivery.vehicle_id }
+    }, context);
+
+    return delivery;
+  });
+}
+
+// สร้าง delivery ให้หลายออเดอร์บนรถคันเดียว (ใช้โดย auto-dispatch)
+// จองออเดอร์ด้วย updateMany แบบมีเงื่อนไข: ออเดอร์ที่ dispatch รอบอื่นจ่ายไปแล้วจะถูกข้าม (คืนใน skipped_order_ids)
+export async function assignOrdersToVehicle(data: {
+  vehicle_id: string;
+  driver_id: string;
+  order_ids: string[];
+}, context: EventContext = {}) {
+  return await prisma.$transaction(async (tx) => {
+    const deliveries = [];
+    const skippedOrderIds: string[] = [];
+
+    for (const orderId of data.order_ids) {
+      const { count } = await tx.order.updateMany({
+        where: { id: orderId, order_status: 'pending' },
+        data: { order_status: 'assigned' }
+      });
+      if (count === 0) {
+        skippedOrderIds.push(orderId);
+        continue;
+      }
+
+      await recordOrderEvent(tx, {
+        order_id: orderId,
+        event_type: 'order_status_changed',
+        from_value: 'pending',
+        to_value: 'assigned'
+      }, context);
+
+      const delivery = await tx.delivery.create({
+        data: {
+          order_id: orderId,
+          driver_id: data.driver_id,
+          vehicle_id: data.vehicle_id,
+          delivery_status: 'pending'
+        }
+      });
+      deliveries.push(delivery);
+
+      await recordOrderEvent(tx, {
+        order_id: orderId,
+        delivery_id: delivery.id,
+        event_type: 'delivery_assigned',
+        to_value: data.driver_id,
+        payload: { vehicle_id: data.vehicle_id }
+      }, context);
+    }
+
+    if (deliveries.length > 0) {
+      await tx.vehicle.update({
+        where: { id: data.vehicle_id },
+        data: {
+          current_status: 'in_use'
+        }
+      });
+    }
+
+    return { deliveries, skipped_order_ids: skippedOrderIds };
+  });
+}
+
+interface DeliveryStatusOptions {
+  actual_arrival?: Date;
+  failure_reason?: string;
+  failure_notes?: string;
+  proof?: DeliveryProofInput;
+}
+
+// เปลี่ยนสถานะตาม state machine, บันทึกเวลาอัตโนมัติ และปรับสถานะ order ให้ตรงกัน
+export async function updateDeliveryStatus(
+  deliveryId: string,
+  status: DeliveryStatus,
+  options: DeliveryStatusOptions = {},
+  context: EventContext = {}
+) {
+  return await prisma.$transaction(async (tx) => {
+    const { delivery } = await applyDeliveryStatus(tx, deliveryId, status, options, context);
+    return delivery;
+  });
+}
+
+// ส่งจบ (delivered/failed) พร้อมผลที่ตามมาใน transaction เดียว: ตัดสินออเดอร์ที่ส่งไม่สำเร็จ
+// และออกคำเชิญรีวิว — ถ้าขั้นไหนล้มจะ rollback ทั้งหมด ไม่มีออเดอร์ค้าง failed โดยไม่มีใครตัดสิน
+export async function completeDeliveryStatus(
+  deliveryId: string,
+  status: 'delivered' | 'failed',
+  options: DeliveryStatusOptions & {
+    failure_reason?: FailureReason;
+    decide_retry?: RetryDecider;
+    feedback_invitation?: { token_hash: string; token_expires_at: Date };
+  },
+  context: EventContext = {}
+) {
+  return await prisma.$transaction(async (tx) => {
+    const { delivery, order_status_event } = await applyDeliveryStatus(tx, deliveryId, status, options, context);
+
+    let failure: FailureOutcome | null = null;
+    if (status === 'failed' && options.decide_retry && order_status_event?.to_value === 'failed') {
+      const order = await tx.order.findUniqueOrThrow({
+        where: { id: delivery.order_id },
+        include: { order_items: true }
+      });
+      const data = { failure_reason: options.failure_reason ?? 'other', failed_at: delivery.updated_at };
+      failure = await resolveFailedOrder(tx, order, options.decide_retry(order, data.failed_at), data, context);
+    }
+
+    const feedback = status === 'delivered' && options.feedback_invitation
+      ? await upsertFeedbackInvitation(tx, { delivery_id: deliveryId, ...options.feedback_invitation })
+      : null;
+
+    return { delivery, order_status_event, failure, feedback };
+  });
+}
+
+async function applyDeliveryStatus(
+  tx: Prisma.TransactionClient,
+  deliveryId: string,
+  status: DeliveryStatus,
+  options: DeliveryStatusOptions,
+  context: EventContext
+) {
+  const delivery = await tx.delivery.findUnique({
+    where: { id: deliveryId },
+    include: { order: true }
+  });
+
+  if (!delivery) {
+    throw new NotFoundError('Delivery not found');
+  }
+
+  assertDeliveryTransition(delivery.delivery_status, status);
+
+  const now = new Date();
+  const updated = await tx.delivery.update({
+    where: { id: deliveryId },
+    data: {
+      delivery_status: status,
+      ...getDeliveryTimestamps(delivery, status, now, options),
+      ...(status === 'failed' && {
+        failure_reason: options.failure_reason,
+        failure_notes: options.failure_notes
+      })
+    }
+  });
+
+  const proof = options.proof
+    ? await tx.deliveryProof.create({
+      data: {
+        ...options.proof,
+        delivery_id: deliveryId,
+        proof_type: status,
+        captured_at: options.proof.captured_at ?? now
+      }
+    })
+    : null;
+
+  if (status === 'delivered') {
+    await tx.driver.update({
+      where: { id: delivery.driver_id },
+      data: {
+        total_deliveries: { increment: 1 }
+      }
+    });
+  }
+
+  await recordOrderEvent(tx, {
+    order_id: delivery.order_id,
+    delivery_id: deliveryId,
+    event_type: 'delivery_status_changed',
+    from_value: delivery.delivery_status,
+    to_value: status,
+    payload: {
+      failure_reason: status === 'failed' ? options.failure_reason ?? null : null,
+      proof_id: proof?.id ?? null
+    }
+  }, context);
+
+  const orderStatus = ORDER_STATUS_FOR_DELIVERY[status];
+  let orderStatusEvent: OrderEvent | null = null;
+  if (
+    orderStatus &&
+    delivery.order.order_status !== orderStatus &&
+    canTransitionOrder(delivery.order.order_status, orderStatus)
+  ) {
+    await tx.order.update({
+      where: { id: delivery.order_id },
+      data: {
+        order_status: orderStatus
+      }
+    });
+
+    orderStatusEvent = await recordOrderEvent(tx, {
+      order_id: delivery.order_id,
+      delivery_id: deliveryId,
+      event_type: 'order_status_changed',
+      from_value: delivery.order.order_status,
+      to_value: orderStatus
+    }, context);
+  }
+
+  return { delivery: updated, order_status_event: orderStatusEvent };
+}
+
+// คนขับถึงจุดส่งแล้ว (ยังไม่ส่งมอบ) — actual_arrival ใช้คำนวณ delay ตอน delivered
+export async function recordDeliveryArrival(
+  deliveryId: string,
+  arrivedAt: Date,
+  context: EventContext = {}
+) {
+  return await prisma.$transaction(async (tx) => {
+    const delivery = await tx.delivery.findUnique({
+      where: { id: deliveryId }
+    });
+
+    if (!delivery) {
+      throw new NotFoundError('Delivery not found');
+    }
+
+    if (delivery.delivery_status !== 'picked_up' && delivery.delivery_status !== 'in_transit') {
+      throw new InvalidStatusTransitionError('delivery', delivery.delivery_status, 'arrived');
+    }
+
+    const updated = await tx.delivery.update({
+      where: { id: deliveryId },
+      data: {
+        actual_arrival: arrivedAt
+      }
+    });
+
+    await recordOrderEvent(tx, {
+      order_id: delivery.order_id,
+      delivery_id: deliveryId,
+      event_type: 'delivery_arrived',
+      to_value: arrivedAt.toISOString()
+    }, context);
+
+    return updated;
+  });
+}
+
+// เปลี่ยนคนขับของ delivery ที่ยังไม่จบ
+export async function reassignDeliveryDriver(
+  deliveryId: string,
+  driverId: string,
+  context: EventContext = {}
+) {
+  return await prisma.$transaction(async (tx) => {
+    const delivery = await tx.delivery.findUnique({
+      where: { id: deliveryId }
+    });
+
+    if (!delivery) {
+      throw new NotFoundError('Delivery not found');
+    }
+
+    if (delivery.delivery_status === 'delivered' || delivery.delivery_status === 'failed') {
+      throw new InvalidStatusTransitionError('delivery', delivery.delivery_status, 'reassigned');
+    }
+
+    const driver = await tx.driver.findUnique({
+      where: { id: driverId }
+    });
+
+    if (!driver) {
+      throw new NotFoundError('Driver not found');
+    }
+
+    const updated = await tx.delivery.update({
+      where: { id: deliveryId },
+      data: {
+        driver_id: driverId
+      }
+    });
+
+    await recordOrderEvent(tx, {
+      order_id: delivery.order_id,
+      delivery_id: deliveryId,
+      event_type: 'driver_reassigned',
+      from_value: delivery.driver_id,
+      to_value: driverId
+    }, context);
+
+    return updated;
+  });
+}
+
+export async function getDeliveryById(deliveryId: string) {
+  return await prisma.delivery.findUnique({
+    where: { id: deliveryId },
+    include: {
+      order: {
+        include: {
+          customer: true
+        }
+      },
+      proofs: true
+    }
+  });
+}
+
+// งานของคนขับตามวันที่วางแผนส่ง เรียงตามลำดับในเส้นทาง
+// delivery ที่ยังไม่มี planned_arrival (ยังไม่วางเส้นทาง) ใช้วันส่งของออเดอร์แทน
+export async function getDeliveriesByDriver(driverId: string, date?: Date) {
+  const where: Prisma.DeliveryWhereInput = {
+    driver_id: driverId
+  };
+
+  if (date) {
+    const { start, end } = getDayRange(date);
+    where.OR = [
+      { planned_arrival: { gte: start, lt: end } },
+      { planned_arrival: null, order: { delivery_date: { gte: start, lt: end } } }
+    ];
+  }
+
+  return await prisma.delivery.findMany({
+    where,
+    include: {
+      order: {
+        include: {
+          customer: true,
+          order_items: {
+            include: {
+              product: true
+            }
+          }
+        }
+      },
+      vehicle: true,
+      proofs: true
+    },
+    orderBy: [
+      { stop_sequence: { sort: 'asc', nulls: 'last' } },
+      { planned_arrival: { sort: 'asc', nulls: 'last' } },
+      { created_at: 'asc' }
+    ]
+  });
+}
+
+// ===================================
+// Route Queries
+// ===================================
+
+// บันทึกเส้นทางพร้อม planned_arrival ของแต่ละจุด
+// ออเดอร์ที่มี delivery ค้างอยู่แล้วจะย้ายเข้าเส้นทางนี้ ไม่สร้างซ้ำ ที่เหลือต้องยัง pending ตอน claim
+// ถ้ามีออเดอร์ถูก request อื่นจ่ายงาน/ยกเลิกไประหว่างวางแผน จะ rollback ทั้งเส้นทาง
+export async function createRouteWithStops(data: {
+  vehicle_id: string;
+  driver_id: string;
+  route_date: Date;
+  depot_latitude: number;
+  depot_longitude: number;
+  planned_start: Date;
+  planned_end: Date;
+  total_distance_km: number;
+  total_travel_minutes: number;
+  stops: {
+    order_id: string;
+    stop_sequence: number;
+    planned_arrival: Date;
+  }[];
+}, context: EventContext = {}) {
+  const { stops, ...routeData } = data;
+
+  return await prisma.$transaction(async (tx) => {
+    const route = await tx.route.create({
+      data: routeData
+    });
+    const conflictedOrderIds: string[] = [];
+
+    for (const stop of stops) {
+      const assignment = {
+        driver_id: data.driver_id,
+        vehicle_id: data.vehicle_id,
+        route_id: route.id,
+        stop_sequence: stop.stop_sequence,
+        planned_arrival: stop.planned_arrival,
+        // แผนใหม่แทน ETA เดิม (คำนวณใหม่เมื่อคนขับส่งพิกัดครั้งถัดไป)
+        estimated_arrival: null,
+        eta_updated_at: null,
+        eta_at_risk: false
+      };
+
+      const existing = await tx.delivery.findFirst({
+        where: {
+          order_id: stop.order_id,
+          delivery_status: 'pending'
+        }
+      });
+
+      if (existing) {
+        // เงื่อนไข pending กัน delivery ที่เพิ่งออกรถ/ส่งจบไประหว่างนี้
+        const { count } = await tx.delivery.updateMany({
+          where: { id: existing.id, delivery_status: 'pending' },
+          data: assignment
+        });
+        if (count === 0) {
+          conflictedOrderIds.push(stop.order_id);
+          continue;
+        }
+
+        if (existing.driver_id !== data.driver_id) {
+          await recordOrderEvent(tx, {
+            order_id: stop.order_id,
+            delivery_id: existing.id,
+            event_type: 'driver_reassigned',
+            from_value: existing.driver_id,
+            to_value: data.driver_id,
+            payload: { route_id: route.id }
+          }, context);
+        }
+      } else {
+        // เงื่อนไข pending กันการจ่ายงานซ้อนกับ request อื่น
+        const { count } = await tx.order.updateMany({
+          where: { id: stop.order_id, order_status: 'pending' },
+          data: { order_status: 'assigned' }
+        });
+        if (count === 0) {
+          conflictedOrderIds.push(stop.order_id);
+          continue;
+        }
+
+        await recordOrderEvent(tx, {
+          order_id: stop.order_id,
+          event_type: 'order_status_changed',
+          from_value: 'pending',
+          to_value: 'assigned'
+        }, context);
+
+        const delivery = await tx.delivery.create({
+          data: {
+            ...assignment,
+            order_id: stop.order_id,
+            delivery_status: 'pending'
+          }
+        });
+
+        await recordOrderEvent(tx, {
+          order_id: stop.order_id,
+          delivery_id: delivery.id,
+          event_type: 'delivery_assigned',
+          to_value: data.driver_id,
+          payload: { vehicle_id: data.vehicle_id, route_id: route.id }
+        }, context);
+      }
+    }
+
+    if (conflictedOrderIds.length > 0) {
+      throw new AppError('Orders are no longer pending', 409, { order_ids: conflictedOrderIds });
+    }
+
+    return route;
+  });
+}
+
+export async function getRouteById(routeId: string) {
+  return await prisma.route.findUnique({
+    where: { id: routeId },
+    include: {
+      vehicle: true,
+      driver: true,
+      deliveries: {
+        include: {
+          order: {
+            include: {
+              customer: true
+            }
+          }
+        },
+        orderBy: {
+          stop_sequence: 'asc'
+        }
+      }
+    }
+  });
+}
+
+// เส้นทางของวันที่ยังไม่จบ (ใช้วาดบนแผนที่ของ dashboard)
+export async function getActiveRoutes(date: Date) {
+  const { start, end } = getDayRange(date);
+
+  return await prisma.route.findMany({
+    where: {
+      route_date: { gte: start, lt: end },
+      status: { in: ['planned', 'in_progress'] }
+    },
+    include: {
+      vehicle: {
+        select: { id: true, vehicle_type: true, license_plate: true }
+      },
+      driver: {
+        select: { id: true, first_name: true, last_name: true }
+      },
+      deliveries: {
+        select: {
+          id: true,
+          order_id: true,
+          stop_sequence: true,
+          delivery_status: true,
+          planned_arrival: true,
+          estimated_arrival: true,
+          eta_at_risk: true,
+          order: {
+            select: { delivery_latitude: true, delivery_longitude: true }
+          }
+        },
+        orderBy: {
+          stop_sequence: 'asc'
+        }
+      }
+    },
+    orderBy: { planned_start: 'asc' }
+  });
+}
+
+// หลักฐานการส่งที่มีพิกัด ใหม่สุดก่อน (ใช้เป็นตำแหน่งล่าสุดที่รู้ของคนขับ)
+export async function getDeliveryProofPositionsSince(since: Date) {
+  return await prisma.deliveryProof.findMany({
+    where: {
+      captured_at: { gte: since },
+      latitude: { not: null },
+      longitude: { not: null }
+    },
+    include: {
+      delivery: {
+        select: {
+          driver: {
+            select: { id: true, first_name: true, last_name: true }
+          }
+        }
+      }
+    },
+    orderBy: { captured_at: 'desc' }
+  });
+}
 
 // ===================================
-// Statistics Queries
+// Driver Location & ETA Queries
 // ===================================
 
-export async function getOrderStatistics(startDate: Date, endDate: Date) {
-  const orders = await prisma.order.findMany({
+export async function recordDriverLocations(locations: {
+  driver_id: string;
+  vehicle_id?: string;
+  latitude: number;
+  longitude: number;
+  accuracy_m?: number;
+  speed_kmh?: number;
+  heading?: number;
+  recorded_at: Date;
+}[]) {
+  return await prisma.driverLocation.createMany({
+    data: locations
+  });
+}
+
+export async function getLatestDriverLocation(driverId: string) {
+  return await prisma.driverLocation.findFirst({
+    where: { driver_id: driverId },
+    orderBy: { recorded_at: 'desc' }
+  });
+}
+
+// พิกัดล่าสุดของคนขับแต่ละคน
+export async function getLatestDriverLocations(since: Date) {
+  return await prisma.driverLocation.findMany({
+    where: { recorded_at: { gte: since } },
+    include: {
+      driver: {
+        select: { id: true, first_name: true, last_name: true }
+      }
+    },
+    orderBy: { recorded_at: 'desc' },
+    distinct: ['driver_id']
+  });
+}
+
+export async function deleteDriverLocationsBefore(before: Date) {
+  return await prisma.driverLocation.deleteMany({
+    where: { recorded_at: { lt: before } }
+  });
+}
+
+// จุดที่ยังไปไม่ถึงในเส้นทางของวันนี้ของคนขับ เรียงตามเวลาออกรถแล้วตามลำดับจุดส่ง
+export async function getDriverRemainingStops(driverId: string, date: Date) {
+  const { start, end } = getDayRange(date);
+
+  return await prisma.delivery.findMany({
+    where: {
+      driver_id: driverId,
+      delivery_status: { in: ['pending', 'picked_up', 'in_transit'] },
+      actual_arrival: null,
+      route: {
+        route_date: { gte: start, lt: end },
+        status: { in: ['planned', 'in_progress'] }
+      }
+    },
+    include: {
+      order: {
+        select: {
+          delivery_latitude: true,
+          delivery_longitude: true,
+          delivery_window_start: true,
+          delivery_window_end: true
+        }
+      },
+      vehicle: {
+        select: { vehicle_type: true }
+      },
+      route: {
+        select: { planned_start: true }
+      }
+    },
+    orderBy: [
+      { route: { planned_start: 'asc' } },
+      { stop_sequence: { sort: 'asc', nulls: 'last' } }
+    ]
+  });
+}
+
+// บันทึก ETA ใหม่ และเก็บ event เมื่อสถานะเสี่ยงส่งไม่ทันเปลี่ยน
+export async function updateDeliveryEtas(
+  etas: {
+    delivery_id: string;
+    order_id: string;
+    estimated_arrival: Date;
+    at_risk: boolean;
+    was_at_risk: boolean;
+    minutes_late: number;
+  }[],
+  updatedAt: Date,
+  context: EventContext = {}
+) {
+  return await prisma.$transaction(async (tx) => {
+    for (const eta of etas) {
+      await tx.delivery.update({
+        where: { id: eta.delivery_id },
+        data: {
+          estimated_arrival: eta.estimated_arrival,
+          eta_updated_at: updatedAt,
+          eta_at_risk: eta.at_risk
+        }
+      });
+
+      if (eta.at_risk !== eta.was_at_risk) {
+        await recordOrderEvent(tx, {
+          order_id: eta.order_id,
+          delivery_id: eta.delivery_id,
+          event_type: 'delivery_eta_risk_changed',
+          from_value: String(eta.was_at_risk),
+          to_value: String(eta.at_risk),
+          payload: {
+            estimated_arrival: eta.estimated_arrival.toISOString(),
+            minutes_late: eta.minutes_late
+          }
+        }, context);
+      }
+    }
+  });
+}
+
+// ===================================
+// Temperature Telemetry Queries
+// ===================================
+
+// delivery ที่อยู่บนรถในช่วง from-to: รับของก่อน to และยังไม่ส่งจบก่อน from
+// unloaded_at = เวลาที่ส่งสำเร็จ/ไม่สำเร็จ (null = ยังอยู่บนรถ) ใช้หาของบนรถ ณ เวลาของแต่ละ reading
+export async function getVehicleLoadBetween(vehicleId: string, from: Date, to: Date) {
+  const deliveries = await prisma.delivery.findMany({
+    where: {
+      vehicle_id: vehicleId,
+      pickup_time: { lte: to },
+      OR: [
+        { delivery_status: { in: ['picked_up', 'in_transit'] } },
+        { delivery_status: 'delivered', delivery_time: { gt: from } },
+        // updated_at ไม่ก่อนเวลาที่ส่งไม่สำเร็จ จึงใช้กรองคร่าว ๆ ก่อนอ่านเวลาจริงจาก event
+        { delivery_status: 'failed', updated_at: { gt: from } }
+      ]
+    },
+    include: {
+      order: {
+        include: {
+          order_items: {
+            include: {
+              product: true
+            }
+          }
+        }
+      }
+    }
+  });
+
+  const failedIds = deliveries
+    .filter(delivery => delivery.delivery_status === 'failed')
+    .map(delivery => delivery.id);
+  const failedEvents = failedIds.length > 0
+    ? await prisma.orderEvent.findMany({
+      where: {
+        delivery_id: { in: failedIds },
+        event_type: 'delivery_status_changed',
+        to_value: 'failed'
+      },
+      select: { delivery_id: true, created_at: true }
+    })
+    : [];
+  const failedAt = new Map(failedEvents.map(event => [event.delivery_id, event.created_at]));
+
+  return deliveries
+    .map(delivery => ({
+      ...delivery,
+      unloaded_at: delivery.delivery_status === 'delivered'
+        ? delivery.delivery_time
+        : delivery.delivery_status === 'failed'
+          ? failedAt.get(delivery.id) ?? delivery.updated_at
+          : null
+    }))
+    .filter(delivery => !delivery.unloaded_at || delivery.unloaded_at > from);
+}
+
+// บันทึก reading และเปิด/ต่อ/ปิด breach ของช่องนั้น
+// reading ที่หลุดช่วงติดกันนับเป็น breach เดียว จนกว่าจะมี reading ที่กลับเข้าช่วง
+export async function recordTemperatureReading(
+  data: {
+    vehicle_id: string;
+    zone: string;
+    temperature_c: number;
+    recorded_at: Date;
+    required_min_c: number | null;
+    required_max_c: number | null;
+    is_breach: boolean;
+    deviation_c: number;
+  },
+  affected: { delivery_id: string; order_id: string }[],
+  context: EventContext = {}
+) {
+  return await prisma.$transaction(async (tx) => {
+    const { deviation_c, ...readingData } = data;
+    const reading = await tx.temperatureReading.create({
+      data: readingData
+    });
+
+    const openBreach = await tx.temperatureBreach.findFirst({
+      where: {
+        vehicle_id: data.vehicle_id,
+        zone: data.zone,
+        ended_at: null
+      },
+      orderBy: { started_at: 'desc' }
+    });
+
+    if (!data.is_breach) {
+      // reading ที่ส่งย้อนหลังจากก่อน breach เริ่ม ไม่ได้บอกว่า breach จบแล้ว
+      if (!openBreach || data.recorded_at <= openBreach.started_at) {
+        return { reading, breach: null };
+      }
+
+      const closed = await tx.temperatureBreach.update({
+        where: { id: openBreach.id },
+        data: {
+          ended_at: data.recorded_at,
+          duration_minutes: minutesBetween(openBreach.started_at, data.recorded_at)
+        }
+      });
+      return { reading, breach: closed };
+    }
+
+    const breach = openBreach
+      ? await tx.temperatureBreach.update({
+        where: { id: openBreach.id },
+        data: {
+          ...extendBreachWindow(openBreach, data.recorded_at),
+          reading_count: { increment: 1 },
+          ...(deviation_c > openBreach.peak_deviation_c && {
+            peak_temperature_c: data.temperature_c,
+            peak_deviation_c: deviation_c
+          })
+        }
+      })
+      : await tx.temperatureBreach.create({
+        data: {
+          vehicle_id: data.vehicle_id,
+          zone: data.zone,
+          required_min_c: data.required_min_c,
+          required_max_c: data.required_max_c,
+          started_at: data.recorded_at,
+          peak_temperature_c: data.temperature_c,
+          peak_deviation_c: deviation_c
+        }
+      });
+
+    const linked = await tx.temperatureBreachDelivery.findMany({
+      where: { breach_id: breach.id },
+      select: { delivery_id: true }
+    });
+    const linkedIds = new Set(linked.map(link => link.delivery_id));
+
+    for (const delivery of affected.filter(item => !linkedIds.has(item.delivery_id))) {
+      await tx.temperatureBreachDelivery.create({
+        data: {
+          breach_id: breach.id,
+          delivery_id: delivery.delivery_id,
+          order_id: delivery.order_id
+        }
+      });
+
+      await tx.delivery.update({
+        where: { id: delivery.delivery_id },
+        data: { temperature_breached: true }
+      });
+
+      await tx.order.update({
+        where: { id: delivery.order_id },
+        data: { temperature_breached: true }
+      });
+
+      await recordOrderEvent(tx, {
+        order_id: delivery.order_id,
+        delivery_id: delivery.delivery_id,
+        event_type: 'temperature_breach_detected',
+        to_value: String(data.temperature_c),
+        payload: {
+          breach_id: breach.id,
+          zone: data.zone,
+          required_min_c: data.required_min_c,
+          required_max_c: data.required_max_c
+        }
+      }, context);
+    }
+
+    return { reading, breach };
+  });
+}
+
+export async function getTemperatureBreaches(filters: {
+  start?: Date;
+  end?: Date;
+  vehicle_id?: string;
+  open_only?: boolean;
+}) {
+  return await prisma.temperatureBreach.findMany({
     where: {
-      created_at: {
-        gte: startDate,
-        lte: endDate
+      vehicle_id: filters.vehicle_id,
+      started_at: {
+        gte: filters.start,
+        lt: filters.end
+      },
+      ...(filters.open_only && { ended_at: null })
+    },
+    include: {
+      deliveries: true
+    },
+    orderBy: {
+      started_at: 'desc'
+    }
+  });
+}
+
+function minutesBetween(from: Date, to: Date): number {
+  return Math.round(((to.getTime() - from.getTime()) / (1000 * 60)) * 100) / 100;
+}
+
+// ช่วงของ breach ที่ยังเปิดหลังได้ reading ใหม่ — reading ย้อนหลังที่เกิดก่อน started_at
+// ทำให้ breach เริ่มเร็วขึ้น ส่วนปลายยังเป็น reading ที่ช้าที่สุดที่เคยเห็น
+function extendBreachWindow(
+  breach: { started_at: Date; duration_minutes: number },
+  recordedAt: Date
+): { started_at: Date; duration_minutes: number } {
+  const startedAt = recordedAt < breach.started_at ? recordedAt : breach.started_at;
+  const lastSeenAt = new Date(Math.max(
+    breach.started_at.getTime() + breach.duration_minutes * 60 * 1000,
+    recordedAt.getTime()
+  ));
+  return { started_at: startedAt, duration_minutes: minutesBetween(startedAt, lastSeenAt) };
+}
+
+// ===================================
+// Feedback Queries
+// ===================================
+
+// ออก token ใหม่ให้ delivery (ถ้าเคยออกแล้วแต่ลูกค้ายังไม่รีวิว จะแทนที่ token เดิม)
+interface FeedbackInvitationData {
+  delivery_id: string;
+  token_hash: string;
+  token_expires_at: Date;
+}
+
+export async function createFeedbackInvitation(data: FeedbackInvitationData) {
+  return await upsertFeedbackInvitation(prisma, data);
+}
+
+async function upsertFeedbackInvitation(
+  client: Prisma.TransactionClient | typeof prisma,
+  data: FeedbackInvitationData
+) {
+  const delivery = await client.delivery.findUnique({
+    where: { id: data.delivery_id },
+    include: {
+      order: true,
+      feedback: true
+    }
+  });
+
+  if (!delivery) {
+    throw new NotFoundError('Delivery not found');
+  }
+
+  if (delivery.delivery_status !== 'delivered') {
+    throw new AppError('Feedback can only be requested for delivered deliveries', 409);
+  }
+
+  if (delivery.feedback?.submitted_at) {
+    return null;
+  }
+
+  return await client.deliveryFeedback.upsert({
+    where: { delivery_id: data.delivery_id },
+    create: {
+      delivery_id: data.delivery_id,
+      order_id: delivery.order_id,
+      customer_id: delivery.order.customer_id,
+      driver_id: delivery.driver_id,
+      token_hash: data.token_hash,
+      token_expires_at: data.token_expires_at
+    },
+    update: {
+      token_hash: data.token_hash,
+      token_expires_at: data.token_expires_at
+    }
+  });
+}
+
+export async function getFeedbackByTokenHash(tokenHash: string) {
+  return await prisma.deliveryFeedback.findUnique({
+    where: { token_hash: tokenHash }
+  });
+}
+
+// ใช้ token ได้ครั้งเดียว: update เฉพาะแถวที่ยังไม่ submit (กันส่งซ้ำพร้อมกัน)
+export async function submitDeliveryFeedback(
+  feedbackId: string,
+  data: {
+    rating: number;
+    tags: string[];
+    comment?: string;
+  }
+) {
+  return await prisma.$transaction(async (tx) => {
+    const now = new Date();
+    const { count } = await tx.deliveryFeedback.updateMany({
+      where: {
+        id: feedbackId,
+        submitted_at: null,
+        token_expires_at: { gt: now }
+      },
+      data: {
+        rating: data.rating,
+        tags: data.tags,
+        comment: data.comment,
+        submitted_at: now
       }
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const feedback = await tx.deliveryFeedback.findUniqueOrThrow({
+      where: { id: feedbackId }
+    });
+
+    await recordOrderEvent(tx, {
+      order_id: feedback.order_id,
+      delivery_id: feedback.delivery_id,
+      event_type: 'feedback_submitted',
+      to_value: String(data.rating),
+      payload: { tags: data.tags }
+    }, { actor: `customer:${feedback.customer_id}` });
+
+    return feedback;
+  });
+}
+
+// ===================================
+// Notification Queries
+// ===================================
+
+// ข้อมูลที่ใช้เลือกผู้รับและเติม template
+export async function getOrdersForNotification(orderIds: string[]) {
+  return await prisma.order.findMany({
+    where: {
+      id: { in: orderIds }
     },
     include: {
-      order_items: true
+      customer: {
+        select: {
+          name: true,
+          phone: true,
+          email: true,
+          line_user_id: true,
+          preferred_language: true
+        }
+      },
+      deliveries: {
+        where: {
+          delivery_status: { not: 'failed' }
+        },
+        select: {
+          planned_arrival: true,
+          estimated_arrival: true
+        },
+        orderBy: {
+          created_at: 'desc'
+        },
+        take: 1
+      }
+    }
+  });
+}
+
+export async function getNotificationCursor(name: string) {
+  const row = await prisma.notificationCursor.findUnique({
+    where: { name }
+  });
+  return row?.cursor ?? null;
+}
+
+export async function saveNotificationCursor(name: string, cursor: Date) {
+  await prisma.notificationCursor.upsert({
+    where: { name },
+    create: { name, cursor },
+    update: { cursor }
+  });
+}
+
+// dedupe_key ซ้ำ = เคยเข้าคิวแล้ว ข้ามไป
+export async function createNotifications(notifications: Prisma.NotificationLogCreateManyInput[]) {
+  const { count } = await prisma.notificationLog.createMany({
+    data: notifications,
+    skipDuplicates: true
+  });
+  return count;
+}
+
+// จองแถวที่ถึงเวลาส่งด้วย updateMany แบบมีเงื่อนไข (หลาย instance ไม่ส่งแถวเดียวกันซ้ำ)
+export async function claimDueNotifications(now: Date, limit: number) {
+  const due = await prisma.notificationLog.findMany({
+    where: {
+      status: 'pending',
+      next_attempt_at: { lte: now }
+    },
+    orderBy: { next_attempt_at: 'asc' },
+    take: limit
+  });
+
+  const claimed = [];
+  for (const notification of due) {
+    const { count } = await prisma.notificationLog.updateMany({
+      where: { id: notification.id, status: 'pending' },
+      data: {
+        status: 'sending',
+        attempts: { increment: 1 }
+      }
+    });
+    if (count === 1) {
+      claimed.push({ ...notification, status: 'sending', attempts: notification.attempts + 1 });
     }
+  }
+
+  return claimed;
+}
+
+// แถวที่ค้างสถานะ sending (process ตายระหว่างส่ง) กลับเข้าคิว
+export async function releaseStaleNotifications(before: Date) {
+  const { count } = await prisma.notificationLog.updateMany({
+    where: {
+      status: 'sending',
+      updated_at: { lt: before }
+    },
+    data: { status: 'pending' }
+  });
+  return count;
+}
+
+export async function markNotificationSent(id: string, providerMessageId: string | null, sentAt: Date) {
+  return await prisma.notificationLog.update({
+    where: { id },
+    data: {
+      status: 'sent',
+      provider_message_id: providerMessageId,
+      sent_at: sentAt,
+      last_error: null
+    }
+  });
+}
+
+// nextAttemptAt = null คือหมดจำนวนครั้งที่ลองแล้ว
+export async function markNotificationFailed(id: string, error: string, nextAttemptAt: Date | null) {
+  return await prisma.notificationLog.update({
+    where: { id },
+    data: nextAttemptAt
+      ? { status: 'pending', next_attempt_at: nextAttemptAt, last_error: error }
+      : { status: 'failed', last_error: error }
+  });
+}
+
+export async function getNotificationLogs(filters: {
+  order_id?: string;
+  status?: string;
+  limit: number;
+}) {
+  return await prisma.notificationLog.findMany({
+    where: {
+      order_id: filters.order_id,
+      status: filters.status
+    },
+    orderBy: { created_at: 'desc' },
+    take: filters.limit
+  });
+}
+
+// ===================================
+// Priority Config Queries
+// ===================================
+
+export async function getActivePriorityConfig() {
+  return await prisma.priorityConfig.findFirst({
+    where: {
+      is_active: true
+    },
+    orderBy: {
+      activated_at: 'desc'
+    }
+  });
+}
+
+export async function getPriorityConfigs(configName?: string) {
+  return await prisma.priorityConfig.findMany({
+    where: configName ? { config_name: configName } : undefined,
+    orderBy: [
+      { config_name: 'asc' },
+      { version: 'desc' }
+    ]
+  });
+}
+
+export async function getPriorityConfigById(configId: string) {
+  return await prisma.priorityConfig.findUnique({
+    where: { id: configId }
+  });
+}
+
+// สร้าง version ใหม่ของ config เสมอ (ไม่แก้ไข version เดิม)
+export async function createPriorityConfigVersion(data: {
+  config_name: string;
+  weights: Record<string, number>;
+  description?: string;
+  created_by?: string;
+}) {
+  return await prisma.$transaction(async (tx) => {
+    const latest = await tx.priorityConfig.findFirst({
+      where: { config_name: data.config_name },
+      orderBy: { version: 'desc' }
+    });
+
+    return await tx.priorityConfig.create({
+      data: {
+        ...data,
+        version: (latest?.version ?? 0) + 1,
+        is_active: false
+      }
+    });
+  });
+}
+
+export async function activatePriorityConfig(configId: string) {
+  return await prisma.$transaction(async (tx) => {
+    await tx.priorityConfig.updateMany({
+      where: {
+        is_active: true,
+        id: { not: configId }
+      },
+      data: {
+        is_active: false
+      }
+    });
+
+    return await tx.priorityConfig.update({
+      where: { id: configId },
+      data: {
+        is_active: true,
+        activated_at: new Date()
+      }
+    });
   });
+}
+
+// ===================================
+// Statistics Queries
+// ===================================
+
+// นับและรวมยอดในฐานข้อมูล (ไม่โหลดออเดอร์ทั้งหมดมาที่ server)
+export async function getOrderStatistics(startDate: Date, endDate: Date) {
+  const where: Prisma.OrderWhereInput = {
+    created_at: {
+      gte: startDate,
+      lte: endDate
+    }
+  };
+
+  const [totalOrders, byStatus, byPriority, revenue] = await Promise.all([
+    prisma.order.count({ where }),
+    prisma.order.groupBy({
+      by: ['order_status'],
+      where,
+      _count: { _all: true }
+    }),
+    prisma.order.groupBy({
+      by: ['priority_class'],
+      where,
+      _count: { _all: true }
+    }),
+    prisma.$queryRaw<{ total: number | null }[]>`
+      SELECT SUM(oi.unit_price * oi.quantity)::float AS total
+      FROM "OrderItem" oi
+      JOIN "Order" o ON o.id = oi.order_id
+      WHERE o.created_at >= ${startDate} AND o.created_at <= ${endDate}
+    `
+  ]);
 
-  const totalOrders = orders.length;
-  const totalRevenue = orders.reduce((sum, order) => {
-    return sum + order.order_items.reduce((itemSum, item) => {
-      return itemSum + (item.unit_price * item.quantity);
-    }, 0);
-  }, 0);
+  const totalRevenue = revenue[0]?.total ?? 0;
 
-  const ordersByStatus = orders.reduce((acc: any, order) => {
-    acc[order.order_status] = (acc[order.order_status] || 0) + 1;
-    return acc;
-  }, {});
+  const ordersByStatus: Record<string, number> = {};
+  for (const group of byStatus) {
+    ordersByStatus[group.order_status] = group._count._all;
+  }
 
-  const ordersByPriority = orders.reduce((acc: any, order) => {
-    const priority = order.priority_class || 'unknown';
-    acc[priority] = (acc[priority] || 0) + 1;
-    return acc;
-  }, {});
+  const ordersByPriority: Record<string, number> = {};
+  for (const group of byPriority) {
+    ordersByPriority[group.priority_class || 'unknown'] = group._count._all;
+  }
 
   return {
     totalOrders,
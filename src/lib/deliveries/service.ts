@@ -0,0 +1,85 @@
+// ===================================
+// File: src/lib/deliveries/service.ts
+// ส่งจบ (delivered/failed): เปลี่ยนสถานะพร้อมผลที่ตามมาใน transaction เดียว แล้วคำนวณค่าที่ขึ้นกับผลนั้นต่อ
+// ===================================
+
+import { Delivery } from '@prisma/client';
+import { completeDeliveryStatus, DeliveryProofInput } from '../db/queries';
+import { EventContext } from '../db/events';
+import { refreshDriverRating } from '../drivers/rating';
+import { FailureReason } from '../failures/policy';
+import { buildRetryDecider, FailureResolution, rescoreRescheduledOrder } from '../failures/service';
+import { createFeedbackToken, getFeedbackPath } from '../feedback/service';
+import { enqueueOrderDeliveredNotification } from '../notifications/service';
+
+export interface DeliveryCompletionInput {
+  actual_arrival?: Date;
+  failure_reason?: FailureReason;
+  failure_notes?: string;
+  proof?: DeliveryProofInput;
+}
+
+export interface DeliveryCompletion {
+  delivery: Delivery;
+  failure_resolution: FailureResolution | null;
+  feedback_invitation: { feedback_id: string; token: string; feedback_path: string; expires_at: Date } | null;
+}
+
+export async function completeDelivery(
+  deliveryId: string,
+  status: 'delivered' | 'failed',
+  input: DeliveryCompletionInput,
+  context: EventContext = {}
+): Promise<DeliveryCompletion> {
+  const failureReason = input.failure_reason ?? 'other';
+  const feedbackToken = status === 'delivered' ? createFeedbackToken() : null;
+
+  const result = await completeDeliveryStatus(deliveryId, status, {
+    ...input,
+    failure_reason: status === 'failed' ? failureReason : undefined,
+    decide_retry: status === 'failed' ? buildRetryDecider(failureReason) : undefined,
+    feedback_invitation: feedbackToken
+      ? { token_hash: feedbackToken.token_hash, token_expires_at: feedbackToken.token_expires_at }
+      : undefined
+  }, context);
+
+  const feedbackPath = result.feedback && feedbackToken ? getFeedbackPath(feedbackToken.token) : null;
+
+  // ค่าที่คำนวณต่อไม่กระทบสถานะที่ commit แล้ว ถ้าล้มจะถูกคำนวณใหม่โดย job
+  // (/api/jobs/driver-ratings และรอบ rescore ของ priority) จึงแค่บันทึก error
+  await runFollowUp('refresh driver rating', () => refreshDriverRating(result.delivery.driver_id));
+  if (result.failure) {
+    await runFollowUp('rescore rescheduled order', () => rescoreRescheduledOrder(result.failure!));
+  }
+
+  // แจ้งส่งถึงพร้อมลิงก์รีวิว (token จริงมีแค่ตอนนี้ notification scanner จึงข้าม event นี้)
+  const deliveredEvent = result.order_status_event?.to_value === 'delivered' ? result.order_status_event : null;
+  if (deliveredEvent) {
+    await runFollowUp('enqueue delivered notification', () =>
+      enqueueOrderDeliveredNotification(deliveredEvent, feedbackPath)
+    );
+  }
+
+  return {
+    delivery: result.delivery,
+    failure_resolution: result.failure
+      ? { order_id: result.delivery.order_id, failure_reason: failureReason, decision: result.failure }
+      : null,
+    feedback_invitation: result.feedback && feedbackToken && feedbackPath
+      ? {
+        feedback_id: result.feedback.id,
+        token: feedbackToken.token,
+        feedback_path: feedbackPath,
+        expires_at: feedbackToken.token_expires_at
+      }
+      : null
+  };
+}
+
+async function runFollowUp(name: string, task: () => Promise<unknown>) {
+  try {
+    await task();
+  } catch (error) {
+    console.error(`Error running ${name} after delivery completion:`, error);
+  }
+}
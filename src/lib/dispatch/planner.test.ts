@@ -0,0 +1,51 @@
+// ===================================
+// File: src/lib/dispatch/planner.test.ts
+// แบ่งออเดอร์ให้รถหลายคัน
+// ===================================
+
+import { describe, expect, it } from 'vitest';
+import { DispatchOrder, DispatchVehicle, planDispatch } from './planner';
+
+function buildVehicle(vehicleId: string, capacityWeight: number): DispatchVehicle {
+  return {
+    vehicle_id: vehicleId,
+    driver_id: `driver-${vehicleId}`,
+    vehicle_type: 'van',
+    capacity_weight: capacityWeight,
+    zones: ['ambient', 'chilled']
+  };
+}
+
+function buildOrders(count: number): DispatchOrder[] {
+  return Array.from({ length: count }, (_, index) => ({
+    order_id: `O${index + 1}`,
+    priority_score: 100 - index,
+    weight_kg: 1,
+    required_zones: ['ambient']
+  }));
+}
+
+describe('planDispatch', () => {
+  it('ส่งออเดอร์ที่เกินจำนวนจุดส่งต่อคันไปคันถัดไป', () => {
+    const plan = planDispatch(buildOrders(5), [buildVehicle('V1', 100), buildVehicle('V2', 50)], 3);
+
+    expect(plan.assignments.map(a => [a.vehicle.vehicle_id, a.orders.length])).toEqual([['V1', 2], ['V2', 3]]);
+    expect(plan.unassigned).toEqual([]);
+  });
+
+  it('ออเดอร์ที่ไม่มีรถรับจุดส่งเพิ่มได้ถูกระบุว่า route_full', () => {
+    const plan = planDispatch(buildOrders(4), [buildVehicle('V1', 100)], 3);
+
+    expect(plan.assignments[0].orders.map(order => order.order_id)).toEqual(['O1', 'O2', 'O3']);
+    expect(plan.unassigned).toEqual([
+      expect.objectContaining({ order_id: 'O4', reason: 'route_full' })
+    ]);
+  });
+
+  it('ไม่ให้ออเดอร์ที่ช่องอุณหภูมิไม่ตรงลงรถ', () => {
+    const frozen: DispatchOrder = { order_id: 'F1', priority_score: 50, weight_kg: 1, required_zones: ['frozen'] };
+    const plan = planDispatch([frozen], [buildVehicle('V1', 100)]);
+
+    expect(plan.unassigned[0].reason).toBe('no_matching_temperature_zone');
+  });
+});
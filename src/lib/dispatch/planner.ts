@@ -0,0 +1,144 @@
+// ===================================
+// File: src/lib/dispatch/planner.ts
+// แบ่งออเดอร์ให้รถหลายคัน (ตรวจ Temperature Zone และน้ำหนัก)
+// ===================================
+
+import { TemperatureLevel } from '../priority/engine';
+import { MAX_ROUTE_STOPS } from '../routing/planner';
+import { getMissingZones } from './zones';
+
+// ===================================
+// Types & Interfaces
+// ===================================
+
+export interface DispatchOrder {
+  order_id: string;
+  priority_score: number;
+  weight_kg: number;
+  required_zones: TemperatureLevel[];
+}
+
+export interface DispatchVehicle {
+  vehicle_id: string;
+  driver_id: string;
+  vehicle_type: string;
+  capacity_weight: number;
+  zones: TemperatureLevel[];
+}
+
+export type UnassignedReason =
+  | 'no_matching_temperature_zone'
+  | 'exceeds_vehicle_capacity'
+  | 'insufficient_remaining_capacity'
+  | 'route_full'              // รถที่ช่องตรงกันมีจุดส่งครบ MAX_ROUTE_STOPS แล้ว
+  | 'no_vehicle_available'
+  | 'no_longer_pending';     // dispatch รอบอื่นจ่ายไปก่อนระหว่างวางแผน
+
+export interface VehicleAssignment {
+  vehicle: DispatchVehicle;
+  orders: DispatchOrder[];
+  total_weight_kg: number;
+}
+
+export interface UnassignedOrder {
+  order_id: string;
+  reason: UnassignedReason;
+  message: string;
+}
+
+export interface DispatchPlan {
+  assignments: VehicleAssignment[];
+  unassigned: UnassignedOrder[];
+}
+
+// ===================================
+// Dispatch Planner
+// ===================================
+
+// ออเดอร์ที่เลือกเองได้สูงสุดต่อคำขอ (วางเส้นทางจำกัดที่ MAX_ROUTE_STOPS ต่อคันอยู่แล้ว)
+export const MAX_DISPATCH_ORDERS = 500;
+
+// ออเดอร์คะแนนสูงได้เลือกรถก่อน แต่ละออเดอร์ลงรถที่เหลือที่ว่างน้อยที่สุดที่ยังใส่ได้ (best fit)
+// รถที่มีจุดส่งครบ maxStops แล้วไม่รับเพิ่ม ออเดอร์จึงไปลงคันถัดไป
+export function planDispatch(
+  orders: DispatchOrder[],
+  vehicles: DispatchVehicle[],
+  maxStops: number = MAX_ROUTE_STOPS
+): DispatchPlan {
+  const assignments: VehicleAssignment[] = vehicles.map(vehicle => ({
+    vehicle,
+    orders: [],
+    total_weight_kg: 0
+  }));
+  const unassigned: UnassignedOrder[] = [];
+
+  const queue = [...orders].sort((a, b) =>
+    b.priority_score - a.priority_score || b.weight_kg - a.weight_kg
+  );
+
+  for (const order of queue) {
+    if (assignments.length === 0) {
+      unassigned.push({
+        order_id: order.order_id,
+        reason: 'no_vehicle_available',
+        message: 'No available vehicle with an active driver'
+      });
+      continue;
+    }
+
+    const zoneMatches = assignments.filter(a =>
+      getMissingZones(order.required_zones, a.vehicle.zones).length === 0
+    );
+    if (zoneMatches.length === 0) {
+      unassigned.push({
+        order_id: order.order_id,
+        reason: 'no_matching_temperature_zone',
+        message: `No available vehicle has zones: ${order.required_zones.join(', ')}`
+      });
+      continue;
+    }
+
+    const largest = Math.max(...zoneMatches.map(a => a.vehicle.capacity_weight));
+    if (order.weight_kg > largest) {
+      unassigned.push({
+        order_id: order.order_id,
+        reason: 'exceeds_vehicle_capacity',
+        message: `Order weighs ${order.weight_kg} kg, largest matching vehicle holds ${largest} kg`
+      });
+      continue;
+    }
+
+    const open = zoneMatches.filter(a => a.orders.length < maxStops);
+    if (open.length === 0) {
+      unassigned.push({
+        order_id: order.order_id,
+        reason: 'route_full',
+        message: `Every matching vehicle already has ${maxStops} stops`
+      });
+      continue;
+    }
+
+    const fits = open
+      .map(a => ({ assignment: a, remaining: a.vehicle.capacity_weight - a.total_weight_kg - order.weight_kg }))
+      .filter(candidate => candidate.remaining >= 0)
+      .sort((a, b) => a.remaining - b.remaining);
+
+    if (fits.length === 0) {
+      unassigned.push({
+        order_id: order.order_id,
+        reason: 'insufficient_remaining_capacity',
+        message: `No matching vehicle has ${order.weight_kg} kg of capacity left`
+      });
+      continue;
+    }
+
+    const target = fits[0].assignment;
+    target.orders.push(order);
+    target.total_weight_kg = Math.round((target.total_weight_kg + order.weight_kg) * 1000) / 1000;
+  }
+
+  return {
+    assignments: assignments.filter(a => a.orders.length > 0),
+    unassigned
+  };
+}
@@ -0,0 +1,201 @@
+// ===================================
+// File: src/lib/dispatch/service.ts
+// Auto-dispatch: แบ่งออเดอร์ pending ให้รถและคนขับที่ว่าง
+// ===================================
+
+import {
+  assignOrdersToVehicle,
+  getAvailableDrivers,
+  getAvailableVehicles,
+  getDeliveryZoneById,
+  getOrdersByIds,
+  getPendingOrders
+} from '../db/queries';
+import { toDateKey } from '../dates';
+import { AppError, NotFoundError } from '../errors';
+import { expirePriorityOverrides } from '../priority/recompute';
+import { LatLng } from '../routing/geo';
+import { planRoute } from '../routing/service';
+import { DispatchOrder, DispatchVehicle, planDispatch, UnassignedOrder } from './planner';
+import { getRequiredZones, parseTemperatureZones } from './zones';
+
+// ต้องระบุ delivery_date หรือ order_ids (ออเดอร์ต้องเป็นวันส่งเดียวกัน) เพราะน้ำหนักและเส้นทางคิดต่อวัน
+export interface AutoDispatchInput {
+  delivery_date?: Date;
+  order_ids?: string[];
+  zone_id?: string;    // แบ่งเฉพาะออเดอร์ในโซนนี้ (ใช้ depot ของโซนถ้าไม่ได้ระบุ depot)
+  depot?: LatLng;      // ระบุเพื่อวางแผนเส้นทางให้แต่ละคันต่อทันที
+  start_time?: Date;
+  dry_run?: boolean;
+}
+
+export interface AutoDispatchResult {
+  dry_run: boolean;
+  assignments: {
+    vehicle_id: string;
+    driver_id: string;
+    vehicle_type: string;
+    order_ids: string[];
+    total_weight_kg: number;
+    capacity_weight: number;
+    route_id: string | null;
+  }[];
+  unassigned: UnassignedOrder[];
+}
+
+type Vehicle = Awaited<ReturnType<typeof getAvailableVehicles>>[number];
+type Driver = Awaited<ReturnType<typeof getAvailableDrivers>>[number];
+type PendingOrder = Omit<Awaited<ReturnType<typeof getPendingOrders>>[number], 'zone'>;
+
+export async function autoDispatch(input: AutoDispatchInput): Promise<AutoDispatchResult> {
+  const depot = input.depot ?? await getZoneDepot(input.zone_id);
+  // ลำดับการลงรถใช้ priority_score ที่บันทึกไว้ จึงต้องไม่ค้างค่าจาก override ที่หมดอายุแล้ว
+  await expirePriorityOverrides();
+  const orders = await loadDispatchableOrders(input);
+  const [vehicles, drivers] = await Promise.all([getAvailableVehicles(), getAvailableDrivers()]);
+
+  const plan = planDispatch(
+    orders.map(toDispatchOrder),
+    pairVehiclesWithDrivers(vehicles, drivers)
+  );
+
+  const result: AutoDispatchResult = {
+    dry_run: Boolean(input.dry_run),
+    assignments: plan.assignments.map(assignment => ({
+      vehicle_id: assignment.vehicle.vehicle_id,
+      driver_id: assignment.vehicle.driver_id,
+      vehicle_type: assignment.vehicle.vehicle_type,
+      order_ids: assignment.orders.map(order => order.order_id),
+      total_weight_kg: assignment.total_weight_kg,
+      capacity_weight: assignment.vehicle.capacity_weight,
+      route_id: null
+    })),
+    unassigned: plan.unassigned
+  };
+
+  if (input.dry_run) {
+    return result;
+  }
+
+  for (const assignment of result.assignments) {
+    const { skipped_order_ids } = await assignOrdersToVehicle({
+      vehicle_id: assignment.vehicle_id,
+      driver_id: assignment.driver_id,
+      order_ids: assignment.order_ids
+    });
+
+    if (skipped_order_ids.length > 0) {
+      assignment.order_ids = assignment.order_ids.filter(id => !skipped_order_ids.includes(id));
+      result.unassigned.push(...skipped_order_ids.map(orderId => ({
+        order_id: orderId,
+        reason: 'no_longer_pending' as const,
+        message: 'Order was dispatched by another run'
+      })));
+    }
+
+    if (depot && assignment.order_ids.length > 0) {
+      const route = await planRoute({
+        vehicle_id: assignment.vehicle_id,
+        driver_id: assignment.driver_id,
+        depot,
+        order_ids: assignment.order_ids,
+        start_time: input.start_time
+      });
+      assignment.route_id = route.route_id;
+    }
+  }
+
+  result.assignments = result.assignments.filter(assignment => assignment.order_ids.length > 0);
+
+  return result;
+}
+
+async function loadDispatchableOrders(input: AutoDispatchInput): Promise<PendingOrder[]> {
+  if (input.order_ids) {
+    const orders = await getOrdersByIds(input.order_ids);
+    const missing = input.order_ids.filter(id => !orders.some(order => order.id === id));
+    if (missing.length > 0) {
+      throw new NotFoundError('Orders not found', { order_ids: missing });
+    }
+
+    const notPending = orders.filter(order => order.order_status !== 'pending');
+    if (notPending.length > 0) {
+      throw new AppError('Only pending orders can be dispatched', 400, {
+        order_ids: notPending.map(order => order.id)
+      });
+    }
+
+    const dateKeys = new Set(orders.map(order => toDateKey(order.delivery_date)));
+    if (input.delivery_date) {
+      dateKeys.add(toDateKey(input.delivery_date));
+    }
+    if (dateKeys.size > 1) {
+      throw new AppError('Orders must share one delivery date', 400, {
+        delivery_dates: [...dateKeys]
+      });
+    }
+
+    return orders;
+  }
+
+  if (!input.delivery_date) {
+    throw new AppError('delivery_date or order_ids is required', 400);
+  }
+
+  // ออเดอร์ที่อยู่นอกพื้นที่ให้บริการต้องให้พนักงานตรวจก่อน และออเดอร์ที่ลูกค้าแจ้งว่าไม่อยู่ต้องรอลูกค้ายกเลิก
+  // (ระบุ order_ids เพื่อแบ่งเอง)
+  const pending = await getPendingOrders({ delivery_date: input.delivery_date });
+  return pending.filter(order =>
+    !order.outside_service_area &&
+    !order.customer_not_home_at &&
+    (!input.zone_id || order.zone_id === input.zone_id)
+  );
+}
+
+async function getZoneDepot(zoneId: string | undefined): Promise<LatLng | undefined> {
+  if (!zoneId) return undefined;
+
+  const zone = await getDeliveryZoneById(zoneId);
+  if (!zone) {
+    throw new NotFoundError('Delivery zone not found');
+  }
+  return { latitude: zone.depot.latitude, longitude: zone.depot.longitude };
+}
+
+function toDispatchOrder(order: PendingOrder): DispatchOrder {
+  const weight = order.order_items.reduce(
+    (sum, item) => sum + item.product.weight_kg * item.quantity,
+    0
+  );
+
+  return {
+    order_id: order.id,
+    priority_score: order.priority_score ?? 0,
+    weight_kg: Math.round(weight * 1000) / 1000,
+    required_zones: getRequiredZones(order.order_items.map(item => item.product.temperature_requirement))
+  };
+}
+
+// รถที่มีคนขับประจำใช้คนขับนั้น รถที่เหลือได้คนขับว่างตาม rating
+function pairVehiclesWithDrivers(vehicles: Vehicle[], drivers: Driver[]): DispatchVehicle[] {
+  const freeDrivers = drivers.filter(driver =>
+    !vehicles.some(vehicle => vehicle.driver_id === driver.id)
+  );
+
+  const paired: DispatchVehicle[] = [];
+  for (const vehicle of vehicles) {
+    const ownDriver = drivers.find(driver => driver.id === vehicle.driver_id);
+    const driver = ownDriver ?? freeDrivers.shift();
+    if (!driver) continue;
+
+    paired.push({
+      vehicle_id: vehicle.id,
+      driver_id: driver.id,
+      vehicle_type: vehicle.vehicle_type,
+      capacity_weight: vehicle.capacity_weight,
+      zones: parseTemperatureZones(vehicle.temperature_zones)
+    });
+  }
+
+  return paired;
+}
@@ -0,0 +1,57 @@
+// ===================================
+// File: src/lib/dispatch/zones.ts
+// Temperature Zones ของรถ และความต้องการของสินค้า
+// ===================================
+
+import { TemperatureLevel } from '../priority/engine';
+
+// สินค้าที่ต้องมีช่องอุณหภูมิเฉพาะในรถ (cool/ambient ใส่ช่องไหนก็ได้)
+export const ZONED_TEMPERATURES: TemperatureLevel[] = ['hot', 'frozen', 'chilled'];
+
+const TEMPERATURE_LEVELS: TemperatureLevel[] = ['hot', 'frozen', 'chilled', 'cool', 'ambient'];
+
+function toTemperatureLevel(value: unknown): TemperatureLevel | null {
+  if (typeof value !== 'string') return null;
+  const normalized = value.trim().toLowerCase();
+  return TEMPERATURE_LEVELS.includes(normalized as TemperatureLevel)
+    ? normalized as TemperatureLevel
+    : null;
+}
+
+// รองรับ Vehicle.temperature_zones หลายรูปแบบ:
+// ["frozen", "chilled"], [{ "zone": "frozen" }] หรือ { "frozen": true }
+export function parseTemperatureZones(value: unknown): TemperatureLevel[] {
+  if (!value) return [];
+
+  const zones: (TemperatureLevel | null)[] = [];
+
+  if (Array.isArray(value)) {
+    for (const entry of value) {
+      if (entry && typeof entry === 'object') {
+        const { zone, type, temperature } = entry as Record<string, unknown>;
+        zones.push(toTemperatureLevel(zone ?? type ?? temperature));
+      } else {
+        zones.push(toTemperatureLevel(entry));
+      }
+    }
+  } else if (typeof value === 'object') {
+    for (const [zone, enabled] of Object.entries(value as Record<string, unknown>)) {
+      if (enabled) zones.push(toTemperatureLevel(zone));
+    }
+  }
+
+  return [...new Set(zones.filter((zone): zone is TemperatureLevel => zone !== null))];
+}
+
+// ช่องอุณหภูมิที่ออเดอร์ต้องใช้ จาก Product.temperature_requirement
+export function getRequiredZones(temperatureRequirements: string[]): TemperatureLevel[] {
+  const required = temperatureRequirements
+    .map(toTemperatureLevel)
+    .filter((level): level is TemperatureLevel => level !== null && ZONED_TEMPERATURES.includes(level));
+
+  return [...new Set(required)];
+}
+
+export function getMissingZones(required: TemperatureLevel[], available: TemperatureLevel[]): TemperatureLevel[] {
+  return required.filter(zone => !available.includes(zone));
+}
@@ -0,0 +1,55 @@
+// ===================================
+// File: src/lib/drivers/rating.ts
+// คำนวณและบันทึก Driver.rating จากงานที่ส่งจบแล้ว
+// ===================================
+
+import {
+  getActiveDriverIds,
+  getDriverById,
+  getDriverCompletedDeliveries,
+  updateDriverRating
+} from '../db/queries';
+import { NotFoundError } from '../errors';
+import { CompletedDelivery, DriverScorecard, RATING_LOOKBACK_DAYS, scoreDriver } from './scoring';
+
+export async function getDriverScorecard(driverId: string, asOf: Date = new Date()): Promise<DriverScorecard> {
+  const since = new Date(asOf.getTime() - RATING_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const deliveries = await getDriverCompletedDeliveries(driverId, since);
+
+  const completed: CompletedDelivery[] = deliveries.map(delivery => ({
+    delivery_status: delivery.delivery_status as CompletedDelivery['delivery_status'],
+    completed_at: delivery.delivery_time ?? delivery.updated_at,
+    delay_minutes: delivery.delay_minutes,
+    failure_reason: delivery.failure_reason,
+    temperature_breached: delivery.temperature_breached,
+    feedback_rating: delivery.feedback?.rating ?? null
+  }));
+
+  return scoreDriver(completed, asOf);
+}
+
+// เรียกเมื่อ delivery ของคนขับจบ (delivered/failed)
+export async function refreshDriverRating(driverId: string, asOf: Date = new Date()) {
+  const driver = await getDriverById(driverId);
+  if (!driver) {
+    throw new NotFoundError('Driver not found');
+  }
+
+  const scorecard = await getDriverScorecard(driverId, asOf);
+  await updateDriverRating(driverId, scorecard.rating);
+  return scorecard;
+}
+
+// งานที่เก่าเกิน RATING_LOOKBACK_DAYS หลุดออกจากการคำนวณเอง จึงควรให้ cron เรียกวันละครั้ง
+export async function refreshAllDriverRatings(asOf: Date = new Date()) {
+  const driverIds = await getActiveDriverIds();
+  const results = [];
+
+  for (const driverId of driverIds) {
+    const scorecard = await getDriverScorecard(driverId, asOf);
+    await updateDriverRating(driverId, scorecard.rating);
+    results.push({ driver_id: driverId, rating: scorecard.rating });
+  }
+
+  return results;
+}
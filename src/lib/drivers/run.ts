@@ -0,0 +1,144 @@
+// ===================================
+// File: src/lib/drivers/run.ts
+// งานของคนขับระหว่างวัน: รับของ, ถึงจุดส่ง, ส่งสำเร็จ/ไม่สำเร็จ พร้อมหลักฐานการส่ง
+// ===================================
+
+import { Delivery } from '@prisma/client';
+import {
+  DeliveryProofInput,
+  getDeliveryById,
+  recordDeliveryArrival,
+  updateDeliveryStatus
+} from '../db/queries';
+import { NotFoundError } from '../errors';
+import { completeDelivery } from '../deliveries/service';
+import { FAILURE_REASONS, FailureReason } from '../failures/policy';
+import { FailureResolution } from '../failures/service';
+import { isValidLatLng } from '../routing/geo';
+import { FieldValidator } from '../validation';
+
+export const DRIVER_ACTIONS = ['pickup', 'arrive', 'deliver', 'fail'] as const;
+export type DriverAction = typeof DRIVER_ACTIONS[number];
+
+export interface DriverActionInput {
+  action: DriverAction;
+  at?: Date;              // เวลาถึงจุดส่ง (action = arrive) ถ้าแอปส่งย้อนหลังตอนกลับมาออนไลน์
+  proof?: DeliveryProofInput;
+  failure_reason?: FailureReason;
+  failure_notes?: string;
+}
+
+export function parseDriverAction(body: unknown): DriverActionInput {
+  const validator = new FieldValidator();
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  const action = validator.requireOneOf('action', input.action, DRIVER_ACTIONS);
+  const at = input.at === undefined ? undefined : validator.requireDate('at', input.at);
+
+  let proof: DeliveryProofInput | undefined;
+  if (input.proof !== undefined && input.proof !== null) {
+    proof = parseProof(validator, input.proof);
+  }
+
+  // ส่งสำเร็จต้องมีหลักฐานอย่างน้อยหนึ่งอย่าง
+  if (action === 'deliver' && !(proof?.recipient_name || proof?.photo_ref || proof?.signature_ref)) {
+    validator.add('proof', 'must include recipient_name, photo_ref or signature_ref');
+  }
+
+  let failureReason: FailureReason | undefined;
+  let failureNotes: string | undefined;
+  if (action === 'fail') {
+    failureReason = validator.requireOneOf('failure_reason', input.failure_reason, FAILURE_REASONS);
+    failureNotes = validator.optionalString('failure_notes', input.failure_notes, 1000);
+  }
+
+  validator.throwIfInvalid();
+
+  return {
+    action: action!,
+    at,
+    proof,
+    failure_reason: failureReason,
+    failure_notes: failureNotes
+  };
+}
+
+function parseProof(validator: FieldValidator, raw: unknown): DeliveryProofInput | undefined {
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    validator.add('proof', 'must be an object');
+    return undefined;
+  }
+
+  const input = raw as Record<string, unknown>;
+  const proof: DeliveryProofInput = {
+    recipient_name: validator.optionalString('proof.recipient_name', input.recipient_name, 200),
+    photo_ref: validator.optionalString('proof.photo_ref', input.photo_ref, 500),
+    signature_ref: validator.optionalString('proof.signature_ref', input.signature_ref, 500)
+  };
+
+  if (input.latitude !== undefined || input.longitude !== undefined) {
+    const location = { latitude: input.latitude, longitude: input.longitude };
+    if (!isValidLatLng(location)) {
+      validator.add('proof.latitude', 'latitude/longitude must be a valid GPS fix');
+    } else {
+      proof.latitude = location.latitude;
+      proof.longitude = location.longitude;
+    }
+  }
+
+  if (input.gps_accuracy_m !== undefined) {
+    proof.gps_accuracy_m = validator.requireNumber('proof.gps_accuracy_m', input.gps_accuracy_m, { min: 0 });
+  }
+
+  if (input.captured_at !== undefined) {
+    proof.captured_at = validator.requireDate('proof.captured_at', input.captured_at);
+  }
+
+  return proof;
+}
+
+// คนขับเปลี่ยนได้เฉพาะ delivery ของตัวเอง
+// ส่งไม่สำเร็จ: นัดส่งใหม่หรือยกเลิกออเดอร์ทันทีตามนโยบาย (ดู failures/policy.ts)
+export async function performDriverAction(
+  driverId: string,
+  deliveryId: string,
+  input: DriverActionInput
+): Promise<{ delivery: Delivery; failure_resolution?: FailureResolution | null }> {
+  const delivery = await getDeliveryById(deliveryId);
+  if (!delivery || delivery.driver_id !== driverId) {
+    throw new NotFoundError('Delivery not found for this driver');
+  }
+
+  const context = {
+    actor: `driver:${driverId}`,
+    reason: input.failure_reason
+  };
+
+  switch (input.action) {
+    case 'pickup':
+      return { delivery: await updateDeliveryStatus(deliveryId, 'picked_up', {}, context) };
+    case 'arrive':
+      return { delivery: await recordDeliveryArrival(deliveryId, input.at ?? new Date(), context) };
+    case 'deliver': {
+      // ลิงก์รีวิวเป็นของลูกค้า ไม่ส่งกลับไปที่แอปคนขับ
+      const { delivery: delivered } = await completeDelivery(deliveryId, 'delivered', { proof: input.proof }, context);
+      return { delivery: delivered };
+    }
+    case 'fail': {
+      const completion = await completeDelivery(
+        deliveryId,
+        'failed',
+        {
+          failure_reason: input.failure_reason,
+          failure_notes: input.failure_notes,
+          proof: input.proof
+        },
+        context
+      );
+      return {
+        delivery: completion.delivery,
+        failure_resolution: completion.failure_resolution
+      };
+    }
+  }
+}
@@ -0,0 +1,131 @@
+// ===================================
+// File: src/lib/drivers/scoring.ts
+// คะแนนคนขับจากงานที่ส่งจบแล้ว (งานล่าสุดมีน้ำหนักมากกว่า)
+// ===================================
+
+import { FailureReason } from '../failures/policy';
+
+export interface CompletedDelivery {
+  delivery_status: 'delivered' | 'failed';
+  completed_at: Date;
+  delay_minutes: number | null;     // null = ไม่มีเวลาตามแผน (ไม่นับ on-time)
+  failure_reason: string | null;
+  temperature_breached: boolean;
+  feedback_rating: number | null;   // 1-5 ดาวจากลูกค้า
+}
+
+export type DriverScoreComponent = 'on_time' | 'reliability' | 'temperature' | 'feedback';
+
+export const DRIVER_SCORE_WEIGHTS: Record<DriverScoreComponent, number> = {
+  on_time: 0.4,
+  reliability: 0.25,
+  temperature: 0.15,
+  feedback: 0.2
+};
+
+export interface ComponentScore {
+  score: number | null;   // 0-1 (null = ยังไม่มีข้อมูล น้ำหนักถูกแบ่งให้ส่วนอื่น)
+  weight: number;         // น้ำหนักที่ใช้จริงหลังแบ่งใหม่
+  samples: number;
+}
+
+export interface DriverScorecard {
+  rating: number | null;  // 1-5 (null = งานยังน้อยเกินไป)
+  score: number | null;   // 0-100
+  completed_deliveries: number;
+  components: Record<DriverScoreComponent, ComponentScore>;
+  scored_at: string;
+}
+
+// งานเมื่อ 30 วันก่อนมีน้ำหนักครึ่งหนึ่งของงานวันนี้
+export const RATING_HALF_LIFE_DAYS = 30;
+export const RATING_LOOKBACK_DAYS = 180;
+const MIN_DELIVERIES_FOR_RATING = 5;
+const ON_TIME_TOLERANCE_MINUTES = 5;
+
+// ส่งไม่สำเร็จเพราะลูกค้าหรือข้อมูลผิด ไม่นับเป็นความผิดของคนขับ
+const NON_DRIVER_FAILURES: FailureReason[] = ['customer_absent', 'wrong_address', 'customer_refused'];
+
+export function recencyWeight(completedAt: Date, asOf: Date): number {
+  const ageDays = Math.max(0, (asOf.getTime() - completedAt.getTime()) / (1000 * 60 * 60 * 24));
+  return Math.pow(0.5, ageDays / RATING_HALF_LIFE_DAYS);
+}
+
+export function scoreDriver(deliveries: CompletedDelivery[], asOf: Date = new Date()): DriverScorecard {
+  const weighted = deliveries.map(delivery => ({
+    delivery,
+    weight: recencyWeight(delivery.completed_at, asOf)
+  }));
+
+  const delivered = weighted.filter(({ delivery }) => delivery.delivery_status === 'delivered');
+  const attributable = weighted.filter(({ delivery }) =>
+    delivery.delivery_status === 'delivered' ||
+    !NON_DRIVER_FAILURES.includes(delivery.failure_reason as FailureReason)
+  );
+  const timed = delivered.filter(({ delivery }) => delivery.delay_minutes !== null);
+  const rated = weighted.filter(({ delivery }) => delivery.feedback_rating !== null);
+
+  const raw: Record<DriverScoreComponent, { score: number | null; samples: number }> = {
+    on_time: {
+      score: weightedShare(timed, ({ delivery }) => delivery.delay_minutes! <= ON_TIME_TOLERANCE_MINUTES),
+      samples: timed.length
+    },
+    reliability: {
+      score: weightedShare(attributable, ({ delivery }) => delivery.delivery_status === 'delivered'),
+      samples: attributable.length
+    },
+    temperature: {
+      score: weightedShare(weighted, ({ delivery }) => !delivery.temperature_breached),
+      samples: weighted.length
+    },
+    feedback: {
+      score: weightedAverage(rated, ({ delivery }) => (delivery.feedback_rating! - 1) / 4),
+      samples: rated.length
+    }
+  };
+
+  // แบ่งน้ำหนักของส่วนที่ไม่มีข้อมูลให้ส่วนที่มี
+  const availableWeight = (Object.keys(raw) as DriverScoreComponent[])
+    .filter(component => raw[component].score !== null)
+    .reduce((sum, component) => sum + DRIVER_SCORE_WEIGHTS[component], 0);
+
+  const components = {} as Record<DriverScoreComponent, ComponentScore>;
+  let total = 0;
+  for (const component of Object.keys(raw) as DriverScoreComponent[]) {
+    const { score, samples } = raw[component];
+    const weight = score !== null && availableWeight > 0 ? DRIVER_SCORE_WEIGHTS[component] / availableWeight : 0;
+    components[component] = {
+      score: score === null ? null : round(score, 4),
+      weight: round(weight, 4),
+      samples
+    };
+    total += (score ?? 0) * weight;
+  }
+
+  const hasEnoughData = deliveries.length >= MIN_DELIVERIES_FOR_RATING && availableWeight > 0;
+
+  return {
+    rating: hasEnoughData ? round(1 + total * 4, 2) : null,
+    score: hasEnoughData ? round(total * 100, 2) : null,
+    completed_deliveries: deliveries.length,
+    components,
+    scored_at: asOf.toISOString()
+  };
+}
+
+function weightedShare<T extends { weight: number }>(items: T[], predicate: (item: T) => boolean): number | null {
+  const total = items.reduce((sum, item) => sum + item.weight, 0);
+  if (total === 0) return null;
+  return items.filter(predicate).reduce((sum, item) => sum + item.weight, 0) / total;
+}
+
+function weightedAverage<T extends { weight: number }>(items: T[], value: (item: T) => number): number | null {
+  const total = items.reduce((sum, item) => sum + item.weight, 0);
+  if (total === 0) return null;
+  return items.reduce((sum, item) => sum + value(item) * item.weight, 0) / total;
+}
+
+function round(value: number, digits: number): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,34 @@
+// ===================================
+// File: src/lib/errors.ts
+// Error Classes (API routes แปลงเป็น HTTP status)
+// ===================================
+
+export class AppError extends Error {
+  constructor(
+    message: string,
+    public status: number = 400,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'AppError';
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(message, 404, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export class ValidationError extends AppError {
+  constructor(public fieldErrors: FieldError[]) {
+    super('Validation failed', 400, fieldErrors);
+    this.name = 'ValidationError';
+  }
+}
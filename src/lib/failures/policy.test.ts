@@ -0,0 +1,77 @@
+// ===================================
+// File: src/lib/failures/policy.test.ts
+// นโยบายนัดส่งใหม่ / ตรวจที่อยู่ / ยกเลิก หลังส่งไม่สำเร็จ
+// ===================================
+
+import { describe, expect, it } from 'vitest';
+import { decideRetry, RetryPolicyInput } from './policy';
+
+const FAILED_AT = new Date('2025-01-15T10:30:00');
+
+function buildInput(overrides: Partial<RetryPolicyInput> = {}): RetryPolicyInput {
+  return {
+    failure_reason: 'customer_absent',
+    retry_count: 0,
+    delivery_window_start: new Date('2025-01-15T10:00:00'),
+    delivery_window_end: new Date('2025-01-15T12:00:00'),
+    failed_at: FAILED_AT,
+    item_expirations: [new Date('2025-02-15T00:00:00')],
+    ...overrides
+  };
+}
+
+describe('decideRetry', () => {
+  it('นัดส่งใหม่ในช่วงเวลาเดิมของวันถัด ๆ ไปตามลำดับ', () => {
+    const decision = decideRetry(buildInput());
+
+    expect(decision.decision).toBe('reschedule');
+    if (decision.decision !== 'reschedule') return;
+    expect(decision.windows[0]).toEqual({
+      start: new Date('2025-01-16T10:00:00'),
+      end: new Date('2025-01-16T12:00:00')
+    });
+    expect(decision.windows).toHaveLength(7);
+  });
+
+  it('ส่งที่อยู่ผิดไปตรวจแทนการส่งซ้ำที่เดิม', () => {
+    expect(decideRetry(buildInput({ failure_reason: 'wrong_address' }))).toEqual({
+      decision: 'review',
+      review_reason: 'wrong_address'
+    });
+  });
+
+  it('นัดส่งใหม่หลังพนักงานยืนยันที่อยู่แล้ว', () => {
+    const decision = decideRetry(buildInput({ failure_reason: 'wrong_address', address_confirmed: true }));
+
+    expect(decision.decision).toBe('reschedule');
+  });
+
+  it('ยกเลิกเมื่อนัดใหม่ครบแล้วแม้ที่อยู่ผิด', () => {
+    expect(decideRetry(buildInput({ failure_reason: 'wrong_address', retry_count: 2 }))).toEqual({
+      decision: 'cancel',
+      cancellation_reason: 'max_retries_exceeded'
+    });
+  });
+
+  it('ยกเลิกเมื่อสินค้าเสีย', () => {
+    expect(decideRetry(buildInput({ failure_reason: 'damaged_goods' }))).toEqual({
+      decision: 'cancel',
+      cancellation_reason: 'damaged_goods'
+    });
+  });
+
+  it('ตัด window ที่สินค้าจะหมดอายุก่อนจบ', () => {
+    const decision = decideRetry(buildInput({ item_expirations: [new Date('2025-01-17T13:00:00')] }));
+
+    expect(decision.decision).toBe('reschedule');
+    if (decision.decision !== 'reschedule') return;
+    expect(decision.windows.map(window => window.start.getDate())).toEqual([16, 17]);
+  });
+
+  it('ยกเลิกเมื่อสินค้าหมดอายุก่อน window ถัดไปจบ', () => {
+    expect(decideRetry(buildInput({ item_expirations: [new Date('2025-01-16T11:00:00')] }))).toEqual({
+      decision: 'cancel',
+      cancellation_reason: 'perishable_expiry'
+    });
+  });
+});
@@ -0,0 +1,122 @@
+// ===================================
+// File: src/lib/failures/policy.ts
+// เหตุผลที่ส่งไม่สำเร็จ และนโยบายนัดส่งใหม่ / ยกเลิกและคืนเงิน
+// ===================================
+
+export const FAILURE_REASONS = [
+  'customer_absent',
+  'wrong_address',
+  'temperature_breach',
+  'customer_refused',
+  'damaged_goods',
+  'vehicle_issue',
+  'other'
+] as const;
+export type FailureReason = typeof FAILURE_REASONS[number];
+
+export const FAILURE_REASON_LABELS: Record<FailureReason, string> = {
+  customer_absent: 'ลูกค้าไม่อยู่',
+  wrong_address: 'ที่อยู่ไม่ถูกต้อง',
+  temperature_breach: 'อุณหภูมิสินค้าผิดช่วง',
+  customer_refused: 'ลูกค้าปฏิเสธรับสินค้า',
+  damaged_goods: 'สินค้าเสียหาย',
+  vehicle_issue: 'รถมีปัญหา',
+  other: 'อื่น ๆ'
+};
+
+// ของที่เสียแล้วส่งซ้ำไม่ได้ ต้องยกเลิกและคืนเงินทันที
+const NON_RETRYABLE_REASONS: FailureReason[] = ['temperature_breach', 'customer_refused', 'damaged_goods'];
+
+export const MAX_DELIVERY_RETRIES = 2;
+
+// ต้องมีเวลาเตรียมของและจัดรถก่อน window ใหม่เริ่ม
+const RETRY_LEAD_MINUTES = 60;
+const MAX_RETRY_DAYS_AHEAD = 7;
+
+// ที่อยู่ผิดส่งซ้ำที่เดิมก็ไม่สำเร็จ ต้องให้พนักงานตรวจที่อยู่ก่อน (ดู address/service.ts)
+const ADDRESS_REVIEW_REASONS: FailureReason[] = ['wrong_address'];
+
+export type CancellationReason = 'max_retries_exceeded' | 'perishable_expiry' | 'no_slot_available' | FailureReason;
+
+export interface DeliveryWindow {
+  start: Date;
+  end: Date;
+}
+
+// reschedule: windows เรียงตามลำดับที่ควรลอง (window แรกที่ slot ยังว่างได้ไป)
+export type RetryDecision =
+  | {
+    decision: 'reschedule';
+    windows: DeliveryWindow[];
+  }
+  | {
+    decision: 'review';
+    review_reason: FailureReason;
+  }
+  | {
+    decision: 'cancel';
+    cancellation_reason: CancellationReason;
+  };
+
+export interface RetryPolicyInput {
+  failure_reason: FailureReason;
+  retry_count: number;          // จำนวนครั้งที่นัดส่งใหม่ไปแล้ว (ไม่นับครั้งนี้)
+  delivery_window_start: Date;
+  delivery_window_end: Date;
+  failed_at: Date;              // หลังตรวจที่อยู่แล้ว = เวลาที่ยืนยันที่อยู่
+  item_expirations: Date[];     // OrderItem.expiration_datetime
+  address_confirmed?: boolean;  // พนักงานยืนยันที่อยู่ใหม่แล้ว ไม่ต้องส่งไปตรวจอีก
+}
+
+export function isFailureReason(value: unknown): value is FailureReason {
+  return FAILURE_REASONS.includes(value as FailureReason);
+}
+
+// window ที่เป็นไปได้ = ช่วงเวลาเดิมของวันถัด ๆ ไป ที่เริ่มหลังเวลาเตรียมของ
+// ตัด window ที่สินค้าเสียง่ายจะหมดอายุก่อนจบ ถ้าไม่เหลือเลยให้ยกเลิกและคืนเงิน
+export function decideRetry(input: RetryPolicyInput): RetryDecision {
+  if (NON_RETRYABLE_REASONS.includes(input.failure_reason)) {
+    return { decision: 'cancel', cancellation_reason: input.failure_reason };
+  }
+
+  if (input.retry_count >= MAX_DELIVERY_RETRIES) {
+    return { decision: 'cancel', cancellation_reason: 'max_retries_exceeded' };
+  }
+
+  if (ADDRESS_REVIEW_REASONS.includes(input.failure_reason) && !input.address_confirmed) {
+    return { decision: 'review', review_reason: input.failure_reason };
+  }
+
+  const candidates = getRetryWindows(input.delivery_window_start, input.delivery_window_end, input.failed_at);
+  if (candidates.length === 0) {
+    return { decision: 'cancel', cancellation_reason: 'max_retries_exceeded' };
+  }
+
+  const earliestExpiration = Math.min(...input.item_expirations.map(date => date.getTime()));
+  const windows = candidates.filter(window => window.end.getTime() <= earliestExpiration);
+  if (windows.length === 0) {
+    return { decision: 'cancel', cancellation_reason: 'perishable_expiry' };
+  }
+
+  return { decision: 'reschedule', windows };
+}
+
+export function getRetryWindows(
+  windowStart: Date,
+  windowEnd: Date,
+  after: Date
+): DeliveryWindow[] {
+  const duration = windowEnd.getTime() - windowStart.getTime();
+  const earliestStart = after.getTime() + RETRY_LEAD_MINUTES * 60 * 1000;
+  const windows: DeliveryWindow[] = [];
+
+  for (let days = 1; days <= MAX_RETRY_DAYS_AHEAD; days++) {
+    const start = new Date(windowStart);
+    start.setDate(start.getDate() + days);
+    if (start.getTime() >= earliestStart) {
+      windows.push({ start, end: new Date(start.getTime() + duration) });
+    }
+  }
+
+  return windows;
+}
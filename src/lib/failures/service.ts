@@ -0,0 +1,68 @@
+// ===================================
+// File: src/lib/failures/service.ts
+// จัดการออเดอร์หลังส่งไม่สำเร็จ: นัดส่งใหม่, ส่งไปตรวจที่อยู่ หรือยกเลิก แล้วคำนวณ Priority ใหม่
+// ===================================
+
+import {
+  FailureOutcome,
+  getOrdersAwaitingAddressReview,
+  resolveFailedOrderById,
+  RetryDecider
+} from '../db/queries';
+import { EventContext } from '../db/events';
+import { recomputeOrderPriorities } from '../priority/recompute';
+import { decideRetry, FailureReason } from './policy';
+
+export interface FailureResolution {
+  order_id: string;
+  failure_reason: FailureReason;
+  decision: FailureOutcome;
+}
+
+// นโยบายที่ใช้ตัดสินใน transaction เดียวกับที่ delivery เปลี่ยนเป็น failed (ดู completeDeliveryStatus)
+export function buildRetryDecider(
+  failureReason: FailureReason,
+  options: { address_confirmed?: boolean } = {}
+): RetryDecider {
+  return (order, failedAt) => decideRetry({
+    failure_reason: failureReason,
+    retry_count: order.retry_count,
+    delivery_window_start: order.delivery_window_start,
+    delivery_window_end: order.delivery_window_end,
+    failed_at: failedAt,
+    item_expirations: order.order_items.map(item => item.expiration_datetime),
+    address_confirmed: options.address_confirmed
+  });
+}
+
+// ออเดอร์ที่เคยส่งไม่สำเร็จได้คะแนนเพิ่ม จึงต้องจัดลำดับวันใหม่ทั้งวัน (เรียกหลัง commit)
+export async function rescoreRescheduledOrder(outcome: FailureOutcome) {
+  if (outcome.decision === 'reschedule') {
+    await recomputeOrderPriorities(outcome.delivery_date, new Date());
+  }
+}
+
+// พนักงานยืนยันที่อยู่ใหม่แล้ว: ตัดสินออเดอร์ที่ส่งไม่สำเร็จเพราะที่อยู่ผิดอีกครั้ง (นัดส่งใหม่หรือยกเลิก)
+export async function resumeAddressReviewOrders(
+  customerId: string,
+  context: EventContext = {}
+): Promise<FailureResolution[]> {
+  const orders = await getOrdersAwaitingAddressReview(customerId);
+  const decide = buildRetryDecider('wrong_address', { address_confirmed: true });
+  const resolutions: FailureResolution[] = [];
+
+  for (const order of orders) {
+    const decision = await resolveFailedOrderById(
+      order.id,
+      decide,
+      { failure_reason: 'wrong_address', failed_at: new Date() },
+      context
+    );
+    if (!decision) continue;
+
+    await rescoreRescheduledOrder(decision);
+    resolutions.push({ order_id: order.id, failure_reason: 'wrong_address', decision });
+  }
+
+  return resolutions;
+}
@@ -0,0 +1,126 @@
+// ===================================
+// File: src/lib/feedback/service.ts
+// รีวิวจากลูกค้าหลังได้รับของ: ออก token ตอนส่งสำเร็จ และรับรีวิวด้วย token นั้นครั้งเดียว
+// ===================================
+
+import {
+  createFeedbackInvitation,
+  getFeedbackByTokenHash,
+  submitDeliveryFeedback
+} from '../db/queries';
+import { refreshDriverRating } from '../drivers/rating';
+import { AppError, NotFoundError } from '../errors';
+import { generateToken, hashToken } from '../tokens';
+import { FieldValidator } from '../validation';
+
+export const FEEDBACK_TAGS = [
+  'cold_food',
+  'late',
+  'damaged',
+  'wrong_items',
+  'rude_driver',
+  'on_time',
+  'friendly_driver',
+  'well_packed'
+] as const;
+export type FeedbackTag = typeof FEEDBACK_TAGS[number];
+
+const FEEDBACK_TOKEN_TTL_DAYS = 7;
+
+export interface FeedbackSubmission {
+  token: string;
+  rating: number;
+  tags: FeedbackTag[];
+  comment?: string;
+}
+
+// token ใหม่สำหรับ delivery ที่กำลังส่งจบ (ในฐานข้อมูลเก็บเฉพาะ hash)
+export function createFeedbackToken() {
+  const token = generateToken();
+  return {
+    token,
+    token_hash: hashToken(token),
+    token_expires_at: new Date(Date.now() + FEEDBACK_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000)
+  };
+}
+
+export function getFeedbackPath(token: string): string {
+  return `/feedback/${token}`;
+}
+
+// คืน token จริงครั้งเดียว — null ถ้าลูกค้ารีวิวไปแล้ว
+export async function issueFeedbackToken(deliveryId: string) {
+  const { token, token_hash, token_expires_at } = createFeedbackToken();
+
+  const invitation = await createFeedbackInvitation({
+    delivery_id: deliveryId,
+    token_hash,
+    token_expires_at
+  });
+
+  if (!invitation) {
+    return null;
+  }
+
+  return {
+    feedback_id: invitation.id,
+    token,
+    feedback_path: getFeedbackPath(token),
+    expires_at: token_expires_at
+  };
+}
+
+export function parseFeedbackSubmission(body: unknown): FeedbackSubmission {
+  const validator = new FieldValidator();
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  const token = validator.requireString('token', input.token, 200);
+  const rating = validator.requireNumber('rating', input.rating, { min: 1, max: 5, integer: true });
+  const comment = validator.optionalString('comment', input.comment, 2000);
+
+  const tags: FeedbackTag[] = [];
+  if (input.tags !== undefined) {
+    if (!Array.isArray(input.tags)) {
+      validator.add('tags', 'must be an array');
+    } else {
+      input.tags.forEach((tag, index) => {
+        const value = validator.requireOneOf(`tags[${index}]`, tag, FEEDBACK_TAGS);
+        if (value && !tags.includes(value)) tags.push(value);
+      });
+    }
+  }
+
+  validator.throwIfInvalid();
+
+  return { token: token!, rating: rating!, tags, comment };
+}
+
+export async function submitFeedback(input: FeedbackSubmission) {
+  const invitation = await getFeedbackByTokenHash(hashToken(input.token));
+  if (!invitation) {
+    throw new NotFoundError('Feedback link not found');
+  }
+
+  if (invitation.submitted_at) {
+    throw new AppError('Feedback already submitted', 409);
+  }
+
+  if (invitation.token_expires_at <= new Date()) {
+    throw new AppError('Feedback link has expired', 410);
+  }
+
+  const feedback = await submitDeliveryFeedback(invitation.id, {
+    rating: input.rating,
+    tags: input.tags,
+    comment: input.comment
+  });
+
+  // ส่งซ้อนกันสองครั้ง: ครั้งที่สองไม่มีแถวให้ update
+  if (!feedback) {
+    throw new AppError('Feedback already submitted', 409);
+  }
+
+  await refreshDriverRating(feedback.driver_id);
+
+  return feedback;
+}
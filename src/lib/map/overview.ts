@@ -0,0 +1,134 @@
+// ===================================
+// File: src/lib/map/overview.ts
+// ข้อมูลแผนที่ของ Dispatch Dashboard: เส้นทางที่ยังวิ่งอยู่และตำแหน่งล่าสุดของคนขับ
+// ===================================
+
+import type { Prisma } from '@prisma/client';
+
+type MapRouteRow = Prisma.RouteGetPayload<{
+  include: {
+    vehicle: { select: { id: true; vehicle_type: true; license_plate: true } };
+    driver: { select: { id: true; first_name: true; last_name: true } };
+    deliveries: {
+      select: {
+        id: true;
+        order_id: true;
+        stop_sequence: true;
+        delivery_status: true;
+        planned_arrival: true;
+        estimated_arrival: true;
+        eta_at_risk: true;
+        order: { select: { delivery_latitude: true; delivery_longitude: true } };
+      };
+    };
+  };
+}>;
+
+type LocationRow = Prisma.DriverLocationGetPayload<{
+  include: {
+    driver: { select: { id: true; first_name: true; last_name: true } };
+  };
+}>;
+
+type ProofPositionRow = Prisma.DeliveryProofGetPayload<{
+  include: {
+    delivery: {
+      select: { driver: { select: { id: true; first_name: true; last_name: true } } };
+    };
+  };
+}>;
+
+export interface MapRouteStop {
+  delivery_id: string;
+  order_id: string;
+  stop_sequence: number | null;
+  delivery_status: string;
+  planned_arrival: string | null;
+  estimated_arrival: string | null;
+  eta_at_risk: boolean;
+  latitude: number;
+  longitude: number;
+}
+
+export interface MapRoute {
+  id: string;
+  status: string;
+  vehicle: { id: string; vehicle_type: string; license_plate: string };
+  driver: { id: string; name: string };
+  depot: { latitude: number; longitude: number };
+  planned_start: string;
+  planned_end: string;
+  stops: MapRouteStop[];
+}
+
+export interface DriverPosition {
+  driver_id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  recorded_at: string;
+  source: 'gps' | 'delivery_proof';
+}
+
+// ตำแหน่งที่เก่ากว่านี้ไม่บอกอะไรเกี่ยวกับรอบส่งปัจจุบัน
+export const DRIVER_POSITION_MAX_AGE_HOURS = 12;
+
+export function toMapRoute(route: MapRouteRow): MapRoute {
+  return {
+    id: route.id,
+    status: route.status,
+    vehicle: route.vehicle,
+    driver: {
+      id: route.driver.id,
+      name: `${route.driver.first_name} ${route.driver.last_name}`
+    },
+    depot: { latitude: route.depot_latitude, longitude: route.depot_longitude },
+    planned_start: route.planned_start.toISOString(),
+    planned_end: route.planned_end.toISOString(),
+    stops: route.deliveries.map(delivery => ({
+      delivery_id: delivery.id,
+      order_id: delivery.order_id,
+      stop_sequence: delivery.stop_sequence,
+      delivery_status: delivery.delivery_status,
+      planned_arrival: delivery.planned_arrival?.toISOString() ?? null,
+      estimated_arrival: delivery.estimated_arrival?.toISOString() ?? null,
+      eta_at_risk: delivery.eta_at_risk,
+      latitude: delivery.order.delivery_latitude,
+      longitude: delivery.order.delivery_longitude
+    }))
+  };
+}
+
+// ใช้พิกัด GPS จากแอปคนขับ หรือพิกัดของหลักฐานการส่งถ้าใหม่กว่า (เช่นแอปปิดการส่งพิกัด)
+export function latestDriverPositions(locations: LocationRow[], proofs: ProofPositionRow[]): DriverPosition[] {
+  const candidates: DriverPosition[] = [
+    ...locations.map(row => ({
+      driver_id: row.driver.id,
+      name: `${row.driver.first_name} ${row.driver.last_name}`,
+      latitude: row.latitude,
+      longitude: row.longitude,
+      recorded_at: row.recorded_at.toISOString(),
+      source: 'gps' as const
+    })),
+    ...proofs
+      .filter(row => row.latitude !== null && row.longitude !== null)
+      .map(row => ({
+        driver_id: row.delivery.driver.id,
+        name: `${row.delivery.driver.first_name} ${row.delivery.driver.last_name}`,
+        latitude: row.latitude!,
+        longitude: row.longitude!,
+        recorded_at: row.captured_at.toISOString(),
+        source: 'delivery_proof' as const
+      }))
+  ];
+
+  const positions = new Map<string, DriverPosition>();
+  for (const candidate of candidates) {
+    const current = positions.get(candidate.driver_id);
+    if (!current || candidate.recorded_at > current.recorded_at) {
+      positions.set(candidate.driver_id, candidate);
+    }
+  }
+
+  return [...positions.values()];
+}
@@ -0,0 +1,137 @@
+// ===================================
+// File: src/lib/map/projection.ts
+// Web Mercator สำหรับแผนที่ SVG ของ dashboard (ตรงกับระบบ tile {z}/{x}/{y} มาตรฐาน)
+// ===================================
+
+import { LatLng } from '../routing/geo';
+
+export interface MapView {
+  center: LatLng;
+  zoom: number;
+}
+
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+export interface MapTile {
+  key: string;
+  url: string;
+  left: number;
+  top: number;
+}
+
+export const TILE_SIZE = 256;
+export const MIN_ZOOM = 3;
+export const MAX_ZOOM = 18;
+
+// ยังไม่มีจุดให้แสดง: กรุงเทพฯ ทั้งเมือง
+const DEFAULT_VIEW: MapView = {
+  center: { latitude: 13.7563, longitude: 100.5018 },
+  zoom: 11
+};
+
+// Web Mercator ใช้ได้ถึงประมาณ ±85.05°
+const MAX_LATITUDE = 85.0511;
+
+function worldSize(zoom: number): number {
+  return TILE_SIZE * 2 ** zoom;
+}
+
+// พิกัดบนภาพโลกทั้งใบที่ zoom นี้ (pixel)
+export function projectPoint(point: LatLng, zoom: number): ScreenPoint {
+  const size = worldSize(zoom);
+  const latitude = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, point.latitude));
+  const sin = Math.sin(latitude * Math.PI / 180);
+
+  return {
+    x: (point.longitude + 180) / 360 * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size
+  };
+}
+
+export function unprojectPoint(point: ScreenPoint, zoom: number): LatLng {
+  const size = worldSize(zoom);
+  const n = Math.PI - 2 * Math.PI * point.y / size;
+
+  return {
+    latitude: 180 / Math.PI * Math.atan(Math.sinh(n)),
+    longitude: point.x / size * 360 - 180
+  };
+}
+
+// แปลงระหว่างพิกัดจริงกับตำแหน่งบนกรอบแผนที่ขนาด width x height
+export function toScreen(point: LatLng, view: MapView, width: number, height: number): ScreenPoint {
+  const target = projectPoint(point, view.zoom);
+  const center = projectPoint(view.center, view.zoom);
+  return { x: target.x - center.x + width / 2, y: target.y - center.y + height / 2 };
+}
+
+export function fromScreen(point: ScreenPoint, view: MapView, width: number, height: number): LatLng {
+  const center = projectPoint(view.center, view.zoom);
+  return unprojectPoint(
+    { x: center.x + point.x - width / 2, y: center.y + point.y - height / 2 },
+    view.zoom
+  );
+}
+
+// zoom เต็มขั้นที่มากที่สุดที่ยังเห็นทุกจุด
+export function fitView(points: LatLng[], width: number, height: number, padding = 32): MapView {
+  if (points.length === 0) {
+    return DEFAULT_VIEW;
+  }
+
+  const latitudes = points.map(point => point.latitude);
+  const longitudes = points.map(point => point.longitude);
+  const southWest = { latitude: Math.min(...latitudes), longitude: Math.min(...longitudes) };
+  const northEast = { latitude: Math.max(...latitudes), longitude: Math.max(...longitudes) };
+
+  const center = unprojectPoint(
+    midpoint(projectPoint(southWest, MAX_ZOOM), projectPoint(northEast, MAX_ZOOM)),
+    MAX_ZOOM
+  );
+
+  for (let zoom = MAX_ZOOM; zoom > MIN_ZOOM; zoom--) {
+    const a = projectPoint(southWest, zoom);
+    const b = projectPoint(northEast, zoom);
+    if (Math.abs(b.x - a.x) <= width - padding * 2 && Math.abs(b.y - a.y) <= height - padding * 2) {
+      return { center, zoom };
+    }
+  }
+
+  return { center, zoom: MIN_ZOOM };
+}
+
+// tile ที่ต้องโหลดให้เต็มกรอบ; template ใช้ {z} {x} {y} เช่น "/tiles/{z}/{x}/{y}.png"
+export function getVisibleTiles(template: string, view: MapView, width: number, height: number): MapTile[] {
+  const center = projectPoint(view.center, view.zoom);
+  const left = center.x - width / 2;
+  const top = center.y - height / 2;
+  const count = 2 ** view.zoom;
+
+  const tiles: MapTile[] = [];
+  const firstY = Math.max(0, Math.floor(top / TILE_SIZE));
+  const lastY = Math.min(count - 1, Math.floor((top + height) / TILE_SIZE));
+  for (let tileY = firstY; tileY <= lastY; tileY++) {
+    for (let tileX = Math.floor(left / TILE_SIZE); tileX <= Math.floor((left + width) / TILE_SIZE); tileX++) {
+      // ข้ามเส้นแบ่งวันให้วนกลับ
+      const wrappedX = ((tileX % count) + count) % count;
+      tiles.push({
+        key: `${view.zoom}/${tileX}/${tileY}`,
+        url: template
+          .replace('{z}', String(view.zoom))
+          .replace('{x}', String(wrappedX))
+          .replace('{y}', String(tileY)),
+        left: tileX * TILE_SIZE - left,
+        top: tileY * TILE_SIZE - top
+      });
+    }
+  }
+
+  return tiles;
+}
+
+function midpoint(a: ScreenPoint, b: ScreenPoint): ScreenPoint {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
@@ -0,0 +1,30 @@
+// ===================================
+// File: src/lib/notifications/channel.ts
+// Notification Transport Interface (เปลี่ยนผู้ให้บริการส่งข้อความได้โดยไม่แก้ส่วนอื่น)
+// ===================================
+
+export const NOTIFICATION_CHANNELS = ['sms', 'email', 'line', 'webhook'] as const;
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+export type NotificationLocale = 'th' | 'en';
+
+export interface OutboundMessage {
+  id: string;                  // NotificationLog id (ใช้เป็น idempotency key กับ provider ได้)
+  kind: string;
+  channel: NotificationChannel;
+  recipient: string;           // เบอร์โทร, อีเมล, LINE userId หรือ URL ของ webhook
+  locale: NotificationLocale;
+  order_id: string | null;
+  subject: string | null;      // ใช้กับอีเมลและ webhook
+  body: string;
+}
+
+export interface SendResult {
+  provider_message_id: string | null;
+}
+
+// ส่งไม่สำเร็จให้ throw: คิวจะลองใหม่ตาม backoff
+export interface NotificationTransport {
+  readonly name: string;
+  send(message: OutboundMessage): Promise<SendResult>;
+}
@@ -0,0 +1,123 @@
+// ===================================
+// File: src/lib/notifications/http-transports.ts
+// Transport ที่ส่งจริงผ่าน HTTP: SMS gateway, email API, LINE Messaging API และ webhook
+// ===================================
+
+import { createHmac } from 'crypto';
+import { NotificationTransport, OutboundMessage, SendResult } from './channel';
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+const LINE_PUSH_URL = 'https://api.line.me/v2/bot/message/push';
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not configured`);
+  }
+  return value;
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string>) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`HTTP ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+  }
+
+  return await response.json().catch(() => null) as Record<string, unknown> | null;
+}
+
+function readMessageId(response: Record<string, unknown> | null): string | null {
+  const id = response?.message_id ?? response?.id;
+  return typeof id === 'string' || typeof id === 'number' ? String(id) : null;
+}
+
+// SMS gateway ทั่วไปที่รับ { to, message } (ตั้งค่าด้วย SMS_API_URL, SMS_API_KEY, SMS_SENDER)
+export class HttpSmsTransport implements NotificationTransport {
+  readonly name = 'http_sms';
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    const response = await postJson(
+      requireEnv('SMS_API_URL'),
+      { to: message.recipient, message: message.body, sender: process.env.SMS_SENDER },
+      { Authorization: `Bearer ${requireEnv('SMS_API_KEY')}` }
+    );
+    return { provider_message_id: readMessageId(response) };
+  }
+}
+
+// Email API ที่รับ { from, to, subject, text } (ตั้งค่าด้วย EMAIL_API_URL, EMAIL_API_KEY, EMAIL_FROM)
+export class HttpEmailTransport implements NotificationTransport {
+  readonly name = 'http_email';
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    const response = await postJson(
+      requireEnv('EMAIL_API_URL'),
+      {
+        from: requireEnv('EMAIL_FROM'),
+        to: message.recipient,
+        subject: message.subject ?? '',
+        text: message.body
+      },
+      { Authorization: `Bearer ${requireEnv('EMAIL_API_KEY')}` }
+    );
+    return { provider_message_id: readMessageId(response) };
+  }
+}
+
+// LINE push message ถึงผู้ใช้หรือกลุ่ม (ตั้งค่าด้วย LINE_CHANNEL_ACCESS_TOKEN)
+export class LinePushTransport implements NotificationTransport {
+  readonly name = 'line';
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    const response = await postJson(
+      LINE_PUSH_URL,
+      {
+        to: message.recipient,
+        messages: [{ type: 'text', text: message.body }]
+      },
+      {
+        Authorization: `Bearer ${requireEnv('LINE_CHANNEL_ACCESS_TOKEN')}`,
+        // LINE ไม่ส่งซ้ำเมื่อ retry ด้วย key เดิม (ต้องเป็น UUID)
+        'X-Line-Retry-Key': message.id
+      }
+    );
+
+    const sent = response?.sentMessages;
+    const first = Array.isArray(sent) ? sent[0] as Record<string, unknown> | undefined : undefined;
+    return { provider_message_id: first ? readMessageId(first) : null };
+  }
+}
+
+// ส่ง JSON ไปยัง URL ของผู้รับ เซ็นด้วย HMAC-SHA256 ถ้าตั้ง NOTIFICATION_WEBHOOK_SECRET
+export class WebhookTransport implements NotificationTransport {
+  readonly name = 'webhook';
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    const payload = {
+      id: message.id,
+      kind: message.kind,
+      order_id: message.order_id,
+      locale: message.locale,
+      subject: message.subject,
+      body: message.body,
+      sent_at: new Date().toISOString()
+    };
+
+    const headers: Record<string, string> = { 'X-Notification-Id': message.id };
+    const secret = process.env.NOTIFICATION_WEBHOOK_SECRET;
+    if (secret) {
+      headers['X-Signature-256'] = `sha256=${createHmac('sha256', secret).update(JSON.stringify(payload)).digest('hex')}`;
+    }
+
+    await postJson(message.recipient, payload, headers);
+    return { provider_message_id: null };
+  }
+}
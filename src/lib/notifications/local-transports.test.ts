@@ -0,0 +1,49 @@
+// ===================================
+// File: src/lib/notifications/local-transports.test.ts
+// FileTransport เขียนข้อความเป็น JSONL ให้ test อ่านกลับได้
+// ===================================
+
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { OutboundMessage } from './channel';
+import { FileTransport } from './local-transports';
+
+function buildMessage(id: string): OutboundMessage {
+  return {
+    id,
+    kind: 'order_assigned',
+    channel: 'sms',
+    recipient: '0812345678',
+    locale: 'th',
+    order_id: 'ORDER-1',
+    subject: null,
+    body: 'ออเดอร์ได้คนขับแล้ว'
+  };
+}
+
+describe('FileTransport', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'notifications-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('เขียนหนึ่งบรรทัดต่อข้อความ', async () => {
+    const filePath = join(dir, 'sent.jsonl');
+    const transport = new FileTransport(filePath);
+
+    const result = await transport.send(buildMessage('N1'));
+    await transport.send(buildMessage('N2'));
+
+    const lines = (await readFile(filePath, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(result.provider_message_id).toBe('file:N1');
+    expect(lines.map(line => line.id)).toEqual(['N1', 'N2']);
+    expect(lines[0]).toMatchObject({ channel: 'sms', recipient: '0812345678', body: 'ออเดอร์ได้คนขับแล้ว' });
+  });
+});
@@ -0,0 +1,38 @@
+// ===================================
+// File: src/lib/notifications/local-transports.ts
+// Transport สำหรับ dev/test: พิมพ์ลง console หรือเขียนต่อท้ายไฟล์ JSONL แทนการส่งจริง
+// ===================================
+
+import { appendFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { NotificationTransport, OutboundMessage, SendResult } from './channel';
+
+// ไม่เขียนลงโฟลเดอร์โปรเจกต์ (ตั้ง NOTIFICATION_FILE_PATH เพื่อเปลี่ยนที่เก็บ)
+const DEFAULT_FILE_PATH = join(tmpdir(), 'notifications.log.jsonl');
+
+export class ConsoleTransport implements NotificationTransport {
+  readonly name = 'console';
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    console.log(`[notification:${message.channel}] -> ${message.recipient} (${message.kind})`);
+    if (message.subject) {
+      console.log(message.subject);
+    }
+    console.log(message.body);
+    return { provider_message_id: `console:${message.id}` };
+  }
+}
+
+// หนึ่งบรรทัดต่อข้อความ ให้ test อ่านกลับมาตรวจได้
+export class FileTransport implements NotificationTransport {
+  readonly name = 'file';
+
+  constructor(private readonly filePath: string = process.env.NOTIFICATION_FILE_PATH ?? DEFAULT_FILE_PATH) {}
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    const line = JSON.stringify({ ...message, written_at: new Date().toISOString() });
+    await appendFile(this.filePath, `${line}\n`, 'utf8');
+    return { provider_message_id: `file:${message.id}` };
+  }
+}
@@ -0,0 +1,44 @@
+// ===================================
+// File: src/lib/notifications/rules.test.ts
+// event ไหนต้องแจ้งเตือนอะไร
+// ===================================
+
+import { describe, expect, it } from 'vitest';
+import { getNotificationKind, KIND_AUDIENCES } from './rules';
+
+function statusEvent(toValue: string, deliveryId: string | null = null) {
+  return { event_type: 'order_status_changed', to_value: toValue, delivery_id: deliveryId };
+}
+
+const STANDARD_ORDER = { priority_class: 'medium' };
+
+describe('getNotificationKind', () => {
+  it('แปลงสถานะออเดอร์เป็นประเภทข้อความ', () => {
+    expect(getNotificationKind(statusEvent('assigned'), STANDARD_ORDER)).toBe('order_assigned');
+    expect(getNotificationKind(statusEvent('in_transit', 'D1'), STANDARD_ORDER)).toBe('order_out_for_delivery');
+    expect(getNotificationKind(statusEvent('failed', 'D1'), STANDARD_ORDER)).toBe('order_failed');
+    expect(getNotificationKind(statusEvent('cancelled'), STANDARD_ORDER)).toBe('order_cancelled');
+    expect(getNotificationKind(statusEvent('pending'), STANDARD_ORDER)).toBeNull();
+  });
+
+  it('ข้ามส่งถึงผ่าน delivery (เข้าคิวพร้อมลิงก์รีวิวแล้ว) แต่แจ้งเมื่อพนักงานเปลี่ยนสถานะเอง', () => {
+    expect(getNotificationKind(statusEvent('delivered', 'D1'), STANDARD_ORDER)).toBeNull();
+    expect(getNotificationKind(statusEvent('delivered'), STANDARD_ORDER)).toBe('order_delivered');
+  });
+
+  it('แจ้งเสี่ยงสายเฉพาะออเดอร์ critical ที่เพิ่งเสี่ยง', () => {
+    const atRisk = { event_type: 'delivery_eta_risk_changed', to_value: 'true', delivery_id: 'D1' };
+    const recovered = { ...atRisk, to_value: 'false' };
+
+    expect(getNotificationKind(atRisk, { priority_class: 'critical' })).toBe('critical_order_at_risk');
+    expect(getNotificationKind(atRisk, STANDARD_ORDER)).toBeNull();
+    expect(getNotificationKind(recovered, { priority_class: 'critical' })).toBeNull();
+  });
+
+  it('แจ้งอุณหภูมิผิดช่วงเฉพาะพนักงานและ webhook', () => {
+    const breach = { event_type: 'temperature_breach_detected', to_value: '12', delivery_id: 'D1' };
+
+    expect(getNotificationKind(breach, STANDARD_ORDER)).toBe('temperature_breach');
+    expect(KIND_AUDIENCES.temperature_breach).not.toContain('customer');
+  });
+});
@@ -0,0 +1,60 @@
+// ===================================
+// File: src/lib/notifications/rules.ts
+// กติกาว่า event ไหนต้องแจ้งเตือนอะไร และแจ้งใคร (pure functions)
+// ===================================
+
+import { OrderEventType } from '../db/events';
+import { NotificationKind } from './templates';
+
+// customer = ลูกค้าเจ้าของออเดอร์, dispatcher = พนักงานจ่ายงาน, webhook = ระบบภายนอกที่รับทุกเรื่อง
+export type NotificationAudience = 'customer' | 'dispatcher' | 'webhook';
+
+// order_created ไม่อยู่ในนี้: intake เข้าคิวเองเพราะต้องใส่ลิงก์ติดตาม (token จริงมีแค่ตอนสร้าง)
+export const NOTIFICATION_EVENT_TYPES: OrderEventType[] = [
+  'order_status_changed',
+  'temperature_breach_detected',
+  'delivery_eta_risk_changed'
+];
+
+const STATUS_KINDS: Record<string, NotificationKind> = {
+  assigned: 'order_assigned',
+  in_transit: 'order_out_for_delivery',
+  delivered: 'order_delivered',
+  failed: 'order_failed',
+  cancelled: 'order_cancelled'
+};
+
+export const KIND_AUDIENCES: Record<NotificationKind, NotificationAudience[]> = {
+  order_created: ['customer', 'webhook'],
+  order_assigned: ['customer', 'webhook'],
+  order_out_for_delivery: ['customer', 'webhook'],
+  order_delivered: ['customer', 'webhook'],
+  order_failed: ['customer', 'dispatcher', 'webhook'],
+  order_cancelled: ['customer', 'webhook'],
+  temperature_breach: ['dispatcher', 'webhook'],
+  critical_order_at_risk: ['dispatcher', 'webhook']
+};
+
+// null = event นี้ไม่ต้องแจ้ง
+export function getNotificationKind(
+  event: { event_type: string; to_value: string | null; delivery_id: string | null },
+  order: { priority_class: string | null }
+): NotificationKind | null {
+  switch (event.event_type) {
+    case 'order_status_changed':
+      // ส่งถึงผ่าน delivery: completeDelivery เข้าคิวเองพร้อมลิงก์รีวิว (token จริงมีแค่ตอนนั้น)
+      if (event.to_value === 'delivered' && event.delivery_id) {
+        return null;
+      }
+      return event.to_value ? STATUS_KINDS[event.to_value] ?? null : null;
+    case 'temperature_breach_detected':
+      return 'temperature_breach';
+    case 'delivery_eta_risk_changed':
+      // แจ้งเฉพาะตอนเพิ่งเสี่ยงสาย และเฉพาะออเดอร์ critical (class ณ ตอนสแกน)
+      return event.to_value === 'true' && order.priority_class === 'critical'
+        ? 'critical_order_at_risk'
+        : null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,54 @@
+// ===================================
+// File: src/lib/notifications/scheduler.ts
+// ตั้งเวลาสแกน event และส่งข้อความในคิวเป็นระยะ
+// ===================================
+
+import { getNotificationTransports, scanNotificationEvents, sendDueNotifications } from './service';
+
+const DEFAULT_INTERVAL_SECONDS = 30;
+
+const globalForScheduler = globalThis as unknown as {
+  notificationTimer: NodeJS.Timeout | undefined;
+};
+
+let isRunning = false;
+
+export async function runNotifications(now: Date = new Date()) {
+  // ป้องกันรอบใหม่เริ่มก่อนรอบเดิมเสร็จ
+  if (isRunning) {
+    return null;
+  }
+
+  isRunning = true;
+  try {
+    const scan = await scanNotificationEvents(now);
+    const delivery = await sendDueNotifications(now);
+    return { ...scan, ...delivery };
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startNotificationWorker(
+  intervalSeconds: number = Number(process.env.NOTIFICATION_INTERVAL_SECONDS) || DEFAULT_INTERVAL_SECONDS
+) {
+  if (globalForScheduler.notificationTimer) {
+    return;
+  }
+
+  // ตั้งค่า transport ผิดหรือไม่ได้ตั้ง: ล้มตอน server start ไม่ใช่เงียบอยู่ในรอบส่ง
+  getNotificationTransports();
+
+  globalForScheduler.notificationTimer = setInterval(() => {
+    runNotifications().catch(error => {
+      console.error('Error running notifications:', error);
+    });
+  }, intervalSeconds * 1000);
+}
+
+export function stopNotificationWorker() {
+  if (globalForScheduler.notificationTimer) {
+    clearInterval(globalForScheduler.notificationTimer);
+    globalForScheduler.notificationTimer = undefined;
+  }
+}
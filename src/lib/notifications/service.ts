@@ -0,0 +1,348 @@
+// ===================================
+// File: src/lib/notifications/service.ts
+// Notification Service: แปลง event เป็นข้อความต่อผู้รับ เข้าคิว แล้วส่งพร้อม retry
+// ===================================
+
+import { Prisma } from '@prisma/client';
+import { getOrderEventsSince } from '../db/events';
+import {
+  claimDueNotifications,
+  createNotifications,
+  getNotificationCursor,
+  getOrdersForNotification,
+  markNotificationFailed,
+  markNotificationSent,
+  releaseStaleNotifications,
+  saveNotificationCursor
+} from '../db/queries';
+import { NotificationChannel, NotificationLocale, NotificationTransport, OutboundMessage } from './channel';
+import { HttpEmailTransport, HttpSmsTransport, LinePushTransport, WebhookTransport } from './http-transports';
+import { ConsoleTransport, FileTransport } from './local-transports';
+import { getNotificationKind, KIND_AUDIENCES, NOTIFICATION_EVENT_TYPES, NotificationAudience } from './rules';
+import { formatOrderRef, NotificationKind, renderNotification, resolveLocale, TemplateData } from './templates';
+
+type NotificationOrder = Awaited<ReturnType<typeof getOrdersForNotification>>[number];
+
+interface Recipient {
+  audience: NotificationAudience;
+  channel: NotificationChannel;
+  address: string;
+  locale: NotificationLocale;
+}
+
+// หน่วงก่อนลองใหม่ครั้งที่ 2, 3, ... (ครบแล้วถือว่า failed)
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 60];
+const MAX_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+
+// สถานะ sending ค้างนานกว่านี้ = process ตายระหว่างส่ง
+const STALE_SENDING_MINUTES = 10;
+
+const SEND_BATCH_SIZE = 100;
+const SCAN_BATCH_SIZE = 1000;
+
+// transaction ที่ commit ช้าอาจได้ created_at ก่อน cursor จึงอ่านย้อนหลังเผื่อ (dedupe_key กันส่งซ้ำ)
+const SCAN_LOOKBACK_MS = 60 * 1000;
+
+// ยังไม่เคยสแกน (ไม่มี cursor ในฐานข้อมูล): อ่าน event ย้อนหลังเท่านี้ ไม่ส่งเรื่องเก่าที่หมดความหมายแล้ว
+const STARTUP_LOOKBACK_MS = 30 * 60 * 1000;
+
+const SCAN_CURSOR_NAME = 'order_events';
+
+// ลูกค้าได้รับทางช่องทางแรกในรายการที่มีข้อมูลติดต่อ (ปรับด้วย NOTIFICATION_CUSTOMER_CHANNELS)
+const DEFAULT_CUSTOMER_CHANNELS: NotificationChannel[] = ['line', 'sms', 'email'];
+
+// เลือกชุด transport ด้วย NOTIFICATION_TRANSPORT: console, file หรือ live
+const TRANSPORTS: Record<string, () => Record<NotificationChannel, NotificationTransport>> = {
+  console: () => {
+    const transport = new ConsoleTransport();
+    return { sms: transport, email: transport, line: transport, webhook: transport };
+  },
+  file: () => {
+    const transport = new FileTransport();
+    return { sms: transport, email: transport, line: transport, webhook: transport };
+  },
+  live: () => ({
+    sms: new HttpSmsTransport(),
+    email: new HttpEmailTransport(),
+    line: new LinePushTransport(),
+    webhook: new WebhookTransport()
+  })
+};
+
+// ไม่ได้ตั้งค่า: ใช้ console ได้เฉพาะตอน dev/test ที่อื่นต้อง throw (ไม่ให้ข้อความลูกค้าไปจบใน log เงียบ ๆ)
+function getTransportName(): string {
+  const name = process.env.NOTIFICATION_TRANSPORT;
+  if (name) {
+    return name;
+  }
+  if (process.env.NODE_ENV === 'development' || process.env.NODE_ENV === 'test') {
+    return 'console';
+  }
+  throw new Error('NOTIFICATION_TRANSPORT must be set (console, file or live)');
+}
+
+let transports: Record<NotificationChannel, NotificationTransport> | null = null;
+
+// เรียกตอนเริ่ม worker ด้วย เพื่อให้ตั้งค่าผิดล้มตั้งแต่ server start
+export function getNotificationTransports(): Record<NotificationChannel, NotificationTransport> {
+  if (!transports) {
+    const name = getTransportName();
+    const factory = TRANSPORTS[name];
+    if (!factory) {
+      throw new Error(`Unknown NOTIFICATION_TRANSPORT: ${name}`);
+    }
+    transports = factory();
+  }
+  return transports;
+}
+
+export function getNotificationTransport(channel: NotificationChannel): NotificationTransport {
+  return getNotificationTransports()[channel];
+}
+
+const globalForNotifications = globalThis as unknown as {
+  notificationScanCatchingUp: boolean | undefined;
+};
+
+// ===================================
+// Recipients
+// ===================================
+
+function listEnv(name: string): string[] {
+  return (process.env[name] ?? '').split(',').map(value => value.trim()).filter(Boolean);
+}
+
+function getCustomerChannels(): NotificationChannel[] {
+  const configured = listEnv('NOTIFICATION_CUSTOMER_CHANNELS')
+    .filter((channel): channel is NotificationChannel => DEFAULT_CUSTOMER_CHANNELS.includes(channel as NotificationChannel));
+  return configured.length > 0 ? configured : DEFAULT_CUSTOMER_CHANNELS;
+}
+
+function customerRecipients(customer: NotificationOrder['customer']): Recipient[] {
+  const addresses: Partial<Record<NotificationChannel, string | null>> = {
+    line: customer.line_user_id,
+    sms: customer.phone,
+    email: customer.email
+  };
+
+  const channel = getCustomerChannels().find(candidate => addresses[candidate]);
+  if (!channel) {
+    return [];
+  }
+
+  return [{
+    audience: 'customer',
+    channel,
+    address: addresses[channel]!,
+    locale: resolveLocale(customer.preferred_language)
+  }];
+}
+
+// พนักงานจ่ายงาน: DISPATCHER_NOTIFY_EMAILS และ DISPATCHER_NOTIFY_LINE_TO (คั่นด้วย comma)
+function dispatcherRecipients(): Recipient[] {
+  const locale = resolveLocale(process.env.DISPATCHER_NOTIFY_LANGUAGE);
+  return [
+    ...listEnv('DISPATCHER_NOTIFY_EMAILS').map(address => ({ channel: 'email' as const, address })),
+    ...listEnv('DISPATCHER_NOTIFY_LINE_TO').map(address => ({ channel: 'line' as const, address }))
+  ].map(recipient => ({ ...recipient, audience: 'dispatcher' as const, locale }));
+}
+
+function webhookRecipients(): Recipient[] {
+  const locale = resolveLocale(process.env.DISPATCHER_NOTIFY_LANGUAGE);
+  return listEnv('NOTIFICATION_WEBHOOK_URL').map(address => ({
+    audience: 'webhook' as const,
+    channel: 'webhook' as const,
+    address,
+    locale
+  }));
+}
+
+function getRecipients(kind: NotificationKind, order: NotificationOrder): Recipient[] {
+  return KIND_AUDIENCES[kind].flatMap(audience => {
+    switch (audience) {
+      case 'customer':
+        return customerRecipients(order.customer);
+      case 'dispatcher':
+        return dispatcherRecipients();
+      case 'webhook':
+        return webhookRecipients();
+    }
+  });
+}
+
+// ลิงก์ในข้อความต้องเป็น URL เต็ม (ตั้ง APP_BASE_URL เช่น https://delivery.example.com)
+function toAbsoluteUrl(path: string): string {
+  const base = (process.env.APP_BASE_URL ?? '').replace(/\/$/, '');
+  return `${base}${path}`;
+}
+
+// ===================================
+// Enqueue
+// ===================================
+
+function buildNotifications(
+  source: { dedupe_prefix: string; event_id: string | null },
+  kind: NotificationKind,
+  order: NotificationOrder,
+  extra: Partial<TemplateData> = {}
+): Prisma.NotificationLogCreateManyInput[] {
+  const delivery = order.deliveries[0];
+  const data: TemplateData = {
+    order_ref: formatOrderRef(order.id),
+    customer_name: order.customer.name,
+    delivery_address: order.delivery_address,
+    window_start: order.delivery_window_start,
+    window_end: order.delivery_window_end,
+    eta: delivery?.estimated_arrival ?? delivery?.planned_arrival ?? null,
+    dashboard_url: toAbsoluteUrl('/'),
+    refund_amount: order.refund_amount,
+    ...extra
+  };
+
+  return getRecipients(kind, order).map(recipient => {
+    const message = renderNotification(kind, recipient.locale, data);
+    return {
+      dedupe_key: `${source.dedupe_prefix}:${recipient.channel}:${recipient.address}`,
+      event_id: source.event_id,
+      order_id: order.id,
+      kind,
+      audience: recipient.audience,
+      channel: recipient.channel,
+      recipient: recipient.address,
+      locale: recipient.locale,
+      subject: message.subject,
+      body: message.body
+    };
+  });
+}
+
+// เรียกจาก intake หลังสร้างออเดอร์ (token จริงมีแค่ตอนนี้) คืนจำนวนข้อความที่เข้าคิว
+export async function enqueueOrderCreatedNotification(orderId: string, trackingPath: string) {
+  const [order] = await getOrdersForNotification([orderId]);
+  if (!order) {
+    return 0;
+  }
+
+  return await createNotifications(buildNotifications(
+    { dedupe_prefix: `order_created:${order.id}`, event_id: null },
+    'order_created',
+    order,
+    { tracking_url: toAbsoluteUrl(trackingPath) }
+  ));
+}
+
+// เรียกหลัง delivery ส่งสำเร็จ (token รีวิวจริงมีแค่ตอนนี้) dedupe_key เดียวกับที่ scanner ใช้กับ event นี้
+export async function enqueueOrderDeliveredNotification(
+  event: { id: string; order_id: string },
+  feedbackPath: string | null
+) {
+  const [order] = await getOrdersForNotification([event.order_id]);
+  if (!order) {
+    return 0;
+  }
+
+  return await createNotifications(buildNotifications(
+    { dedupe_prefix: `event:${event.id}`, event_id: event.id },
+    'order_delivered',
+    order,
+    { feedback_url: feedbackPath ? toAbsoluteUrl(feedbackPath) : null }
+  ));
+}
+
+// อ่าน event ใหม่จาก Order Event Log แล้วเข้าคิวข้อความที่ต้องส่ง
+export async function scanNotificationEvents(now: Date = new Date()) {
+  const cursor = await getNotificationCursor(SCAN_CURSOR_NAME);
+  const lookback = globalForNotifications.notificationScanCatchingUp ? 0 : SCAN_LOOKBACK_MS;
+  const since = cursor
+    ? new Date(cursor.getTime() - lookback)
+    : new Date(now.getTime() - STARTUP_LOOKBACK_MS);
+
+  const events = await getOrderEventsSince(since, NOTIFICATION_EVENT_TYPES, SCAN_BATCH_SIZE);
+
+  const orders = await getOrdersForNotification([...new Set(events.map(event => event.order_id))]);
+  const ordersById = new Map(orders.map(order => [order.id, order]));
+
+  const notifications = events.flatMap(event => {
+    const order = ordersById.get(event.order_id);
+    const kind = order ? getNotificationKind(event, order) : null;
+    if (!order || !kind) {
+      return [];
+    }
+
+    const payload = (event.payload ?? {}) as Record<string, unknown>;
+    return buildNotifications(
+      { dedupe_prefix: `event:${event.id}`, event_id: event.id },
+      kind,
+      order,
+      kind === 'temperature_breach'
+        ? {
+          temperature_c: event.to_value ? Number(event.to_value) : null,
+          temperature_zone: typeof payload.zone === 'string' ? payload.zone : null
+        }
+        : {}
+    );
+  });
+
+  const queued = notifications.length > 0 ? await createNotifications(notifications) : 0;
+
+  // เลื่อน cursor หลังเข้าคิวแล้วเท่านั้น: ล้มก่อนถึงตรงนี้ = รอบหน้าอ่านซ้ำ (dedupe_key กันส่งซ้ำ)
+  await saveNotificationCursor(
+    SCAN_CURSOR_NAME,
+    events.length > 0 ? events[events.length - 1].created_at : cursor ?? since
+  );
+  globalForNotifications.notificationScanCatchingUp = events.length === SCAN_BATCH_SIZE;
+
+  return { events_scanned: events.length, notifications_queued: queued };
+}
+
+// ===================================
+// Delivery Queue
+// ===================================
+
+export function getNextAttemptAt(attempts: number, now: Date): Date | null {
+  if (attempts >= MAX_ATTEMPTS) {
+    return null;
+  }
+  return new Date(now.getTime() + RETRY_DELAYS_MINUTES[attempts - 1] * 60 * 1000);
+}
+
+// ส่งข้อความที่ถึงเวลา ส่งไม่สำเร็จจะเลื่อนไปลองใหม่ตาม backoff
+export async function sendDueNotifications(now: Date = new Date()) {
+  const released = await releaseStaleNotifications(new Date(now.getTime() - STALE_SENDING_MINUTES * 60 * 1000));
+  const claimed = await claimDueNotifications(now, SEND_BATCH_SIZE);
+
+  let sent = 0;
+  let retrying = 0;
+  let failed = 0;
+
+  for (const notification of claimed) {
+    const message: OutboundMessage = {
+      id: notification.id,
+      kind: notification.kind,
+      channel: notification.channel as NotificationChannel,
+      recipient: notification.recipient,
+      locale: resolveLocale(notification.locale),
+      order_id: notification.order_id,
+      subject: notification.subject,
+      body: notification.body
+    };
+
+    try {
+      const result = await getNotificationTransport(message.channel).send(message);
+      await markNotificationSent(notification.id, result.provider_message_id, new Date());
+      sent++;
+    } catch (error) {
+      const nextAttemptAt = getNextAttemptAt(notification.attempts, new Date());
+      const reason = error instanceof Error ? error.message : String(error);
+      await markNotificationFailed(notification.id, reason.slice(0, 500), nextAttemptAt);
+      if (nextAttemptAt) {
+        retrying++;
+      } else {
+        failed++;
+        console.error(`Notification ${notification.id} failed after ${notification.attempts} attempts:`, reason);
+      }
+    }
+  }
+
+  return { released, claimed: claimed.length, sent, retrying, failed };
+}
@@ -0,0 +1,59 @@
+// ===================================
+// File: src/lib/notifications/templates.test.ts
+// ข้อความแจ้งเตือนภาษาไทยและอังกฤษ
+// ===================================
+
+import { describe, expect, it } from 'vitest';
+import { formatOrderRef, NOTIFICATION_KINDS, NOTIFICATION_LOCALES, renderNotification, resolveLocale, TemplateData } from './templates';
+
+const DATA: TemplateData = {
+  order_ref: '#1A2B3C4D',
+  customer_name: 'สมชาย',
+  delivery_address: '123 ถ.สุขุมวิท',
+  window_start: new Date('2025-01-15T10:00:00'),
+  window_end: new Date('2025-01-15T12:00:00')
+};
+
+describe('renderNotification', () => {
+  it('มีข้อความทุกประเภทในทุกภาษา', () => {
+    for (const locale of NOTIFICATION_LOCALES) {
+      for (const kind of NOTIFICATION_KINDS) {
+        const message = renderNotification(kind, locale, DATA);
+        expect(message.subject).toContain(DATA.order_ref);
+        expect(message.body.length).toBeGreaterThan(0);
+      }
+    }
+  });
+
+  it('ใส่ลิงก์รีวิวในข้อความส่งถึงเมื่อมีลิงก์', () => {
+    const url = 'https://delivery.example.com/feedback/abc';
+
+    expect(renderNotification('order_delivered', 'th', { ...DATA, feedback_url: url }).body).toContain(url);
+    expect(renderNotification('order_delivered', 'en', { ...DATA, feedback_url: url }).body).toContain(url);
+    expect(renderNotification('order_delivered', 'th', DATA).body).not.toContain('ให้คะแนน');
+  });
+
+  it('ข้อความส่งไม่สำเร็จไม่สัญญาว่าจะส่งใหม่', () => {
+    expect(renderNotification('order_failed', 'th', DATA).body).toContain('หรือยกเลิก');
+    expect(renderNotification('order_failed', 'en', DATA).body).toContain('or cancelled');
+  });
+
+  it('แจ้งยอดคืนเงินเมื่อยกเลิกแล้วมียอดคืน', () => {
+    expect(renderNotification('order_cancelled', 'th', { ...DATA, refund_amount: 65 }).body).toContain('65.00 บาท');
+    expect(renderNotification('order_cancelled', 'en', { ...DATA, refund_amount: null }).body).not.toContain('refund');
+  });
+});
+
+describe('resolveLocale', () => {
+  it('ภาษาที่ไม่รองรับใช้ภาษาไทย', () => {
+    expect(resolveLocale('en')).toBe('en');
+    expect(resolveLocale('ja')).toBe('th');
+    expect(resolveLocale(null)).toBe('th');
+  });
+});
+
+describe('formatOrderRef', () => {
+  it('ใช้ 8 ตัวแรกของ order id เป็นตัวพิมพ์ใหญ่', () => {
+    expect(formatOrderRef('1a2b3c4d-5e6f-7a8b-9c0d-1e2f3a4b5c6d')).toBe('#1A2B3C4D');
+  });
+});
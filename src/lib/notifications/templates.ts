@@ -0,0 +1,199 @@
+// ===================================
+// File: src/lib/notifications/templates.ts
+// ข้อความแจ้งเตือนภาษาไทยและอังกฤษ (pure functions: ไม่แตะฐานข้อมูล)
+// ===================================
+
+import { NotificationLocale } from './channel';
+
+export const NOTIFICATION_KINDS = [
+  'order_created',
+  'order_assigned',
+  'order_out_for_delivery',
+  'order_delivered',
+  'order_failed',
+  'order_cancelled',
+  'temperature_breach',
+  'critical_order_at_risk'
+] as const;
+export type NotificationKind = typeof NOTIFICATION_KINDS[number];
+
+export const NOTIFICATION_LOCALES: NotificationLocale[] = ['th', 'en'];
+
+export interface TemplateData {
+  order_ref: string;               // เลขอ้างอิงสั้นที่ลูกค้าอ่านได้
+  customer_name: string;
+  delivery_address: string;
+  window_start: Date;
+  window_end: Date;
+  eta?: Date | null;
+  tracking_url?: string | null;
+  feedback_url?: string | null;
+  refund_amount?: number | null;
+  dashboard_url?: string | null;
+  temperature_c?: number | null;
+  temperature_zone?: string | null;
+}
+
+export interface RenderedMessage {
+  subject: string;
+  body: string;
+}
+
+const DATE_LOCALES: Record<NotificationLocale, string> = {
+  th: 'th-TH',
+  en: 'en-GB'
+};
+
+// ใช้เวลาท้องถิ่นของเซิร์ฟเวอร์ เหมือน dates.ts
+function formatTime(date: Date, locale: NotificationLocale): string {
+  return date.toLocaleTimeString(DATE_LOCALES[locale], { hour: '2-digit', minute: '2-digit' });
+}
+
+function formatWindow(data: TemplateData, locale: NotificationLocale): string {
+  const day = data.window_start.toLocaleDateString(DATE_LOCALES[locale], { day: 'numeric', month: 'short' });
+  return `${day} ${formatTime(data.window_start, locale)}-${formatTime(data.window_end, locale)}`;
+}
+
+// บรรทัดที่ไม่มีข้อมูล (undefined/null) ถูกตัดออก
+function lines(...parts: (string | null | undefined | false)[]): string {
+  return parts.filter(Boolean).join('\n');
+}
+
+type TemplateSet = Record<NotificationKind, (data: TemplateData) => RenderedMessage>;
+
+const TEMPLATES: Record<NotificationLocale, TemplateSet> = {
+  th: {
+    order_created: data => ({
+      subject: `7-Eleven Delivery: รับออเดอร์ ${data.order_ref} แล้ว`,
+      body: lines(
+        `คุณ${data.customer_name} ร้านได้รับออเดอร์ ${data.order_ref} แล้ว`,
+        `ช่วงเวลาจัดส่ง ${formatWindow(data, 'th')}`,
+        data.tracking_url && `ติดตามออเดอร์: ${data.tracking_url}`
+      )
+    }),
+    order_assigned: data => ({
+      subject: `7-Eleven Delivery: เตรียมจัดส่งออเดอร์ ${data.order_ref}`,
+      body: lines(
+        `ออเดอร์ ${data.order_ref} ได้คนขับแล้ว กำลังเตรียมจัดส่ง`,
+        `ช่วงเวลาจัดส่ง ${formatWindow(data, 'th')}`
+      )
+    }),
+    order_out_for_delivery: data => ({
+      subject: `7-Eleven Delivery: ออเดอร์ ${data.order_ref} กำลังไปส่ง`,
+      body: lines(
+        `คนขับกำลังนำออเดอร์ ${data.order_ref} ไปส่งที่ ${data.delivery_address}`,
+        data.eta && `คาดว่าจะถึงประมาณ ${formatTime(data.eta, 'th')} น.`
+      )
+    }),
+    order_delivered: data => ({
+      subject: `7-Eleven Delivery: ส่งออเดอร์ ${data.order_ref} ถึงแล้ว`,
+      body: lines(
+        `ออเดอร์ ${data.order_ref} ส่งถึงเรียบร้อยแล้ว ขอบคุณที่ใช้บริการ`,
+        data.feedback_url && `ให้คะแนนการจัดส่ง: ${data.feedback_url}`
+      )
+    }),
+    order_failed: data => ({
+      subject: `7-Eleven Delivery: ส่งออเดอร์ ${data.order_ref} ไม่สำเร็จ`,
+      body: `การจัดส่งออเดอร์ ${data.order_ref} ไม่สำเร็จ ทางร้านจะแจ้งให้ทราบว่าจะนัดส่งใหม่หรือยกเลิกออเดอร์`
+    }),
+    order_cancelled: data => ({
+      subject: `7-Eleven Delivery: ยกเลิกออเดอร์ ${data.order_ref}`,
+      body: lines(
+        `ออเดอร์ ${data.order_ref} ถูกยกเลิกแล้ว ขออภัยในความไม่สะดวก`,
+        !!data.refund_amount && `ทางร้านจะคืนเงิน ${data.refund_amount.toFixed(2)} บาท`
+      )
+    }),
+    temperature_breach: data => ({
+      subject: `[แจ้งเตือน] อุณหภูมิผิดช่วง ออเดอร์ ${data.order_ref}`,
+      body: lines(
+        `ช่อง ${data.temperature_zone ?? '-'} วัดได้ ${data.temperature_c ?? '-'}°C อยู่นอกช่วงที่สินค้าต้องการ`,
+        `ออเดอร์ ${data.order_ref} (${formatWindow(data, 'th')})`,
+        data.dashboard_url && `ตรวจสอบ: ${data.dashboard_url}`
+      )
+    }),
+    critical_order_at_risk: data => ({
+      subject: `[ด่วน] ออเดอร์ critical ${data.order_ref} อาจส่งไม่ทัน`,
+      body: lines(
+        `ออเดอร์ ${data.order_ref} คาดว่าจะถึง ${data.eta ? formatTime(data.eta, 'th') : '-'} น. เลยช่วงเวลา ${formatWindow(data, 'th')}`,
+        `ที่อยู่: ${data.delivery_address}`,
+        data.dashboard_url && `ตรวจสอบ: ${data.dashboard_url}`
+      )
+    })
+  },
+  en: {
+    order_created: data => ({
+      subject: `7-Eleven Delivery: order ${data.order_ref} received`,
+      body: lines(
+        `Hi ${data.customer_name}, we have received your order ${data.order_ref}.`,
+        `Delivery window: ${formatWindow(data, 'en')}`,
+        data.tracking_url && `Track your order: ${data.tracking_url}`
+      )
+    }),
+    order_assigned: data => ({
+      subject: `7-Eleven Delivery: order ${data.order_ref} is being prepared`,
+      body: lines(
+        `A driver has been assigned to order ${data.order_ref}.`,
+        `Delivery window: ${formatWindow(data, 'en')}`
+      )
+    }),
+    order_out_for_delivery: data => ({
+      subject: `7-Eleven Delivery: order ${data.order_ref} is on its way`,
+      body: lines(
+        `Your order ${data.order_ref} is on its way to ${data.delivery_address}.`,
+        data.eta && `Estimated arrival: ${formatTime(data.eta, 'en')}`
+      )
+    }),
+    order_delivered: data => ({
+      subject: `7-Eleven Delivery: order ${data.order_ref} delivered`,
+      body: lines(
+        `Your order ${data.order_ref} has been delivered. Thank you for shopping with us.`,
+        data.feedback_url && `Rate your delivery: ${data.feedback_url}`
+      )
+    }),
+    order_failed: data => ({
+      subject: `7-Eleven Delivery: order ${data.order_ref} could not be delivered`,
+      body: `We could not deliver order ${data.order_ref}. We will let you know whether it will be redelivered or cancelled.`
+    }),
+    order_cancelled: data => ({
+      subject: `7-Eleven Delivery: order ${data.order_ref} cancelled`,
+      body: lines(
+        `Your order ${data.order_ref} has been cancelled. We are sorry for the inconvenience.`,
+        !!data.refund_amount && `A refund of ${data.refund_amount.toFixed(2)} THB will be issued.`
+      )
+    }),
+    temperature_breach: data => ({
+      subject: `[Alert] Temperature breach on order ${data.order_ref}`,
+      body: lines(
+        `The ${data.temperature_zone ?? '-'} compartment read ${data.temperature_c ?? '-'}°C, outside the required range.`,
+        `Order ${data.order_ref} (${formatWindow(data, 'en')})`,
+        data.dashboard_url && `Review: ${data.dashboard_url}`
+      )
+    }),
+    critical_order_at_risk: data => ({
+      subject: `[Urgent] Critical order ${data.order_ref} is at risk of missing its window`,
+      body: lines(
+        `Order ${data.order_ref} is now expected at ${data.eta ? formatTime(data.eta, 'en') : '-'}, after its ${formatWindow(data, 'en')} window.`,
+        `Address: ${data.delivery_address}`,
+        data.dashboard_url && `Review: ${data.dashboard_url}`
+      )
+    })
+  }
+};
+
+// ภาษาที่ไม่รองรับใช้ภาษาไทย
+export function resolveLocale(value: string | null | undefined): NotificationLocale {
+  return NOTIFICATION_LOCALES.includes(value as NotificationLocale) ? value as NotificationLocale : 'th';
+}
+
+// 8 ตัวแรกของ order id (ตัวพิมพ์ใหญ่) ใช้อ้างอิงในข้อความ
+export function formatOrderRef(orderId: string): string {
+  return `#${orderId.replace(/-/g, '').slice(0, 8).toUpperCase()}`;
+}
+
+export function renderNotification(
+  kind: NotificationKind,
+  locale: NotificationLocale,
+  data: TemplateData
+): RenderedMessage {
+  return TEMPLATES[locale][kind](data);
+}
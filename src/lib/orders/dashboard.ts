@@ -0,0 +1,91 @@
+// ===================================
+// File: src/lib/orders/dashboard.ts
+// ข้อมูลออเดอร์สำหรับหน้า Dispatch Dashboard (แปลงจากแถวในฐานข้อมูล)
+// ===================================
+
+import type { Prisma } from '@prisma/client';
+
+type DashboardOrderRow = Prisma.OrderGetPayload<{
+  include: {
+    customer: true;
+    order_items: { include: { product: true } };
+    zone: { select: { id: true; name: true } };
+  };
+}>;
+
+export interface DashboardOrderItem {
+  product_id: string;
+  name: string;
+  category: string;
+  quantity: number;
+  unit_price: number;
+  expiration_datetime: string;
+}
+
+export interface DashboardOrder {
+  id: string;
+  customer_name: string;
+  customer_phone: string;
+  delivery_address: string;
+  delivery_latitude: number;
+  delivery_longitude: number;
+  customer_priority: string;
+  order_status: string;
+  delivery_date: string;
+  delivery_window_start: string;
+  delivery_window_end: string;
+  priority_score: number | null;
+  priority_class: string | null;
+  priority_rank: number | null;
+  priority_factors: Record<string, number> | null;
+  highest_temp_requirement: string | null;
+  total_value: number;
+  retry_count: number;
+  temperature_breached: boolean;
+  outside_service_area: boolean;
+  customer_not_home: boolean;
+  zone: { id: string; name: string } | null;
+  items: DashboardOrderItem[];
+}
+
+export function toDashboardOrder(order: DashboardOrderRow): DashboardOrder {
+  const breakdown = (order.priority_breakdown ?? {}) as {
+    factors?: Record<string, number>;
+    highest_temp_requirement?: string;
+  };
+
+  return {
+    id: order.id,
+    customer_name: order.customer.name,
+    customer_phone: order.customer.phone,
+    delivery_address: order.delivery_address,
+    delivery_latitude: order.delivery_latitude,
+    delivery_longitude: order.delivery_longitude,
+    customer_priority: order.customer_priority,
+    order_status: order.order_status,
+    delivery_date: order.delivery_date.toISOString(),
+    delivery_window_start: order.delivery_window_start.toISOString(),
+    delivery_window_end: order.delivery_window_end.toISOString(),
+    priority_score: order.priority_score,
+    priority_class: order.priority_class,
+    priority_rank: order.priority_rank,
+    priority_factors: breakdown.factors ?? null,
+    highest_temp_requirement: breakdown.highest_temp_requirement ?? null,
+    total_value: Math.round(
+      order.order_items.reduce((sum, item) => sum + item.unit_price * item.quantity, 0) * 100
+    ) / 100,
+    retry_count: order.retry_count,
+    temperature_breached: order.temperature_breached,
+    outside_service_area: order.outside_service_area,
+    customer_not_home: order.customer_not_home_at !== null,
+    zone: order.zone,
+    items: order.order_items.map(item => ({
+      product_id: item.product_id,
+      name: item.product.name,
+      category: item.product.category,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      expiration_datetime: item.expiration_datetime.toISOString()
+    }))
+  };
+}
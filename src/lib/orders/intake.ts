@@ -0,0 +1,351 @@
+// ===================================
+// File: src/lib/orders/intake.ts
+// รับออเดอร์ใหม่: ตรวจข้อมูล, หา/สร้างลูกค้า, ตรวจโซนส่ง, บันทึก และคำนวณ Priority
+// ===================================
+
+import { DeliverySlot } from '@prisma/client';
+import {
+  createOrderWithItems,
+  CustomerCreateData,
+  getCustomerByPhone,
+  getDeliverySlotById,
+  getOrderById,
+  getProductsByIds
+} from '../db/queries';
+import { formatDeliveryAddress, resolveAddress } from '../address/service';
+import { toDateKey } from '../dates';
+import { ValidationError } from '../errors';
+import { enqueueOrderCreatedNotification } from '../notifications/service';
+import { NOTIFICATION_LOCALES } from '../notifications/templates';
+import { CUSTOMER_PRIORITY_SCORES, CustomerPriority } from '../priority/engine';
+import { scoreNewOrder } from '../priority/recompute';
+import { getMaxSlotMinutes, isSlotBookable } from '../slots/rules';
+import { findSlotForWindow } from '../slots/service';
+import { createTrackingToken, getTrackingPath } from '../tracking/order-tracking';
+import { FieldValidator } from '../validation';
+import { checkOrderServiceArea } from '../zones/service';
+
+export interface OrderIntakeItem {
+  product_id: string;
+  quantity: number;
+}
+
+// ส่ง slot_id (จาก /api/slots/available) แทน delivery_date และ window ได้
+export interface OrderIntakeInput {
+  customer: Record<string, unknown>;
+  slot_id?: string;
+  delivery_date?: Date;
+  delivery_window_start?: Date;
+  delivery_window_end?: Date;
+  customer_priority: CustomerPriority;
+  items: OrderIntakeItem[];
+}
+
+const CUSTOMER_PRIORITIES = Object.keys(CUSTOMER_PRIORITY_SCORES) as CustomerPriority[];
+const MAX_ITEMS = 50;
+const MAX_QUANTITY = 100;
+
+export function parseOrderIntake(body: unknown): OrderIntakeInput {
+  const validator = new FieldValidator();
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  const customer = input.customer;
+  if (!customer || typeof customer !== 'object' || Array.isArray(customer)) {
+    validator.add('customer', 'is required');
+  } else {
+    validator.requireString('customer.phone', (customer as Record<string, unknown>).phone, 20);
+  }
+
+  const slotId = validator.optionalString('slot_id', input.slot_id, 100);
+  let deliveryDate: Date | undefined;
+  let windowStart: Date | undefined;
+  let windowEnd: Date | undefined;
+  if (!slotId) {
+    deliveryDate = validator.requireDate('delivery_date', input.delivery_date);
+    windowStart = validator.requireDate('delivery_window_start', input.delivery_window_start);
+    windowEnd = validator.requireDate('delivery_window_end', input.delivery_window_end);
+    if (windowStart && windowEnd && windowEnd <= windowStart) {
+      validator.add('delivery_window_end', 'must be after delivery_window_start');
+    }
+    if (windowEnd && windowEnd <= new Date()) {
+      validator.add('delivery_window_end', 'must be in the future');
+    }
+    if (deliveryDate && windowStart && toDateKey(deliveryDate) !== toDateKey(windowStart)) {
+      validator.add('delivery_date', 'must be the same day as delivery_window_start');
+    }
+  }
+
+  const customerPriority = input.customer_priority === undefined
+    ? 'standard'
+    : validator.requireOneOf('customer_priority', input.customer_priority, CUSTOMER_PRIORITIES);
+
+  const items = parseOrderItems(validator, input.items);
+
+  validator.throwIfInvalid();
+
+  return {
+    customer: customer as Record<string, unknown>,
+    slot_id: slotId,
+    delivery_date: deliveryDate,
+    delivery_window_start: windowStart,
+    delivery_window_end: windowEnd,
+    customer_priority: customerPriority!,
+    items
+  };
+}
+
+// ใช้ร่วมกับการค้นหา slot ที่จองได้ (ตะกร้ารูปแบบเดียวกัน)
+export function parseOrderItems(validator: FieldValidator, value: unknown): OrderIntakeItem[] {
+  const items: OrderIntakeItem[] = [];
+  if (!Array.isArray(value) || value.length === 0) {
+    validator.add('items', 'must be a non-empty array');
+  } else if (value.length > MAX_ITEMS) {
+    validator.add('items', `must have at most ${MAX_ITEMS} entries`);
+  } else {
+    value.forEach((raw, index) => {
+      const item = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+      const productId = validator.requireString(`items[${index}].product_id`, item.product_id, 100);
+      const quantity = validator.requireNumber(`items[${index}].quantity`, item.quantity, {
+        min: 1,
+        max: MAX_QUANTITY,
+        integer: true
+      });
+      if (productId && quantity) {
+        items.push({ product_id: productId, quantity });
+      }
+    });
+  }
+  return items;
+}
+
+export async function createOrderFromIntake(input: OrderIntakeInput) {
+  const validator = new FieldValidator();
+
+  const customer = await resolveCustomer(input.customer, validator);
+  const products = await getProductsByIds([...new Set(input.items.map(item => item.product_id))]);
+
+  input.items.forEach((item, index) => {
+    const product = products.find(p => p.id === item.product_id);
+    if (!product) {
+      validator.add(`items[${index}].product_id`, 'product not found');
+    } else if (!product.is_active) {
+      validator.add(`items[${index}].product_id`, 'product is not active');
+    }
+  });
+
+  const slot = input.slot_id ? await getDeliverySlotById(input.slot_id) : null;
+  if (input.slot_id && !slot) {
+    validator.add('slot_id', 'slot not found');
+  }
+
+  validator.throwIfInvalid();
+  if (!customer) {
+    throw new ValidationError(validator.errors);
+  }
+  const location = customer.address;
+
+  const schedule = slot
+    ? { delivery_date: slot.slot_date, delivery_window_start: slot.window_start, delivery_window_end: slot.window_end }
+    : {
+      delivery_date: input.delivery_date!,
+      delivery_window_start: input.delivery_window_start!,
+      delivery_window_end: input.delivery_window_end!
+    };
+
+  const orderValue = input.items.reduce((sum, item) => {
+    const product = products.find(p => p.id === item.product_id)!;
+    return sum + product.base_price * item.quantity;
+  }, 0);
+
+  const serviceArea = await checkOrderServiceArea(
+    { latitude: location.latitude, longitude: location.longitude },
+    {
+      order_value: orderValue,
+      delivery_window_start: schedule.delivery_window_start,
+      delivery_window_end: schedule.delivery_window_end
+    }
+  );
+  if (serviceArea.errors.length > 0) {
+    throw new ValidationError(serviceArea.errors);
+  }
+
+  const orderDate = new Date();
+  const slotId = await resolveOrderSlot(slot, serviceArea.result.zone_id, schedule, products, orderDate);
+  const tracking = createTrackingToken();
+
+  // ผ่านการตรวจทั้งหมดแล้วจึงบันทึก: ลูกค้าใหม่สร้างใน transaction เดียวกับออเดอร์
+  const order = await createOrderWithItems({
+    customer_id: customer.customer_id ?? undefined,
+    new_customer: customer.new_customer ?? undefined,
+    ...schedule,
+    customer_priority: input.customer_priority,
+    delivery_address: formatDeliveryAddress(location),
+    delivery_latitude: location.latitude,
+    delivery_longitude: location.longitude,
+    zone_id: serviceArea.result.zone_id,
+    outside_service_area: serviceArea.result.outside_service_area,
+    slot_id: slotId,
+    tracking_token_hash: tracking.token_hash,
+    items: input.items.map(item => {
+      const product = products.find(p => p.id === item.product_id)!;
+      return {
+        product_id: product.id,
+        quantity: item.quantity,
+        unit_price: product.base_price,
+        expiration_datetime: new Date(orderDate.getTime() + product.typical_expiration_hours * 60 * 60 * 1000)
+      };
+    })
+  });
+
+  await scoreNewOrder(order.id, orderDate);
+
+  const trackingPath = getTrackingPath(tracking.token);
+
+  // แจ้งลูกค้าพร้อมลิงก์ติดตาม: ส่งไม่ได้ก็ไม่ทำให้การรับออเดอร์ล้ม
+  await enqueueOrderCreatedNotification(order.id, trackingPath).catch(error => {
+    console.error('Error enqueueing order created notification:', error);
+  });
+
+  // token จริงส่งกลับครั้งเดียว (ในฐานข้อมูลเก็บเฉพาะ hash) ไว้ส่งลิงก์ให้ลูกค้า
+  return {
+    order: await getOrderById(order.id),
+    tracking: { token: tracking.token, tracking_path: trackingPath }
+  };
+}
+
+// window ต้องเหมาะกับตะกร้าเสมอ (เริ่มหลังเวลาเตรียมของ และของร้อน/แช่แข็งได้เฉพาะช่วงสั้น)
+// slot ที่ลูกค้าเลือกต้องอยู่ในโซนของที่อยู่ ไม่ได้เลือก slot = window ต้องอยู่ใน slot ของโซน
+// และจองที่ใน slot นั้น (capacity ใช้กับทุกช่องทาง) — นอกโซนไม่มี slot ให้จอง
+async function resolveOrderSlot(
+  slot: DeliverySlot | null,
+  zoneId: string | null,
+  schedule: { delivery_window_start: Date; delivery_window_end: Date },
+  products: { temperature_requirement: string; typical_expiration_hours: number }[],
+  now: Date
+): Promise<string | null> {
+  const window = { window_start: schedule.delivery_window_start, window_end: schedule.delivery_window_end };
+  const field = slot ? 'slot_id' : 'delivery_window_start';
+
+  if (!isSlotBookable(window, getMaxSlotMinutes(products), now)) {
+    throw new ValidationError([
+      { field, message: `${slot ? 'slot' : 'window'} starts too soon or is too long for hot or frozen items` }
+    ]);
+  }
+
+  if (slot) {
+    if (slot.zone_id !== zoneId) {
+      throw new ValidationError([
+        { field: 'slot_id', message: 'slot is not in the delivery zone for this address' }
+      ]);
+    }
+    return slot.id;
+  }
+
+  if (!zoneId) {
+    return null;
+  }
+
+  const containing = await findSlotForWindow(zoneId, window);
+  if (!containing) {
+    throw new ValidationError([
+      { field, message: 'window does not fall within a delivery slot for this zone' }
+    ]);
+  }
+
+  return containing.id;
+}
+
+interface IntakeCustomer {
+  customer_id: string | null;
+  new_customer: CustomerCreateData | null;   // ยังไม่บันทึก: สร้างพร้อมออเดอร์เมื่อผ่านการตรวจทั้งหมด
+  address: {
+    address_line1: string;
+    address_line2: string | null;
+    district: string;
+    city: string;
+    postal_code: string | null;
+    latitude: number;
+    longitude: number;
+  };
+}
+
+// ลูกค้าเดิมหาจากเบอร์โทร ถ้าไม่พบและส่งข้อมูลที่อยู่มาจะเตรียมข้อมูลลูกค้าใหม่ (ยังไม่บันทึก)
+async function resolveCustomer(raw: Record<string, unknown>, validator: FieldValidator): Promise<IntakeCustomer | null> {
+  const phone = String(raw.phone).trim();
+  const existing = await getCustomerByPhone(phone);
+  if (existing) {
+    return { customer_id: existing.id, new_customer: null, address: existing };
+  }
+
+  if (raw.name === undefined && raw.address_line1 === undefined) {
+    validator.add('customer.phone', 'no customer with this phone; provide name and address to create one');
+    return null;
+  }
+
+  const name = validator.requireString('customer.name', raw.name, 200);
+  const addressLine1 = validator.requireString('customer.address_line1', raw.address_line1);
+  const district = validator.requireString('customer.district', raw.district, 100);
+  const city = validator.requireString('customer.city', raw.city, 100);
+
+  // พิกัดไม่บังคับ: ไม่ส่งมาจะหาจากเขต/รหัสไปรษณีย์
+  const hasLocation = raw.latitude !== undefined || raw.longitude !== undefined;
+  const latitude = hasLocation
+    ? validator.requireNumber('customer.latitude', raw.latitude, { min: -90, max: 90 })
+    : undefined;
+  const longitude = hasLocation
+    ? validator.requireNumber('customer.longitude', raw.longitude, { min: -180, max: 180 })
+    : undefined;
+  const email = validator.optionalString('customer.email', raw.email, 200);
+  if (email && !email.includes('@')) {
+    validator.add('customer.email', 'must be a valid email');
+  }
+
+  const addressLine2 = validator.optionalString('customer.address_line2', raw.address_line2);
+  const postalCode = validator.optionalString('customer.postal_code', raw.postal_code, 10);
+  const deliveryNotes = validator.optionalString('customer.delivery_notes', raw.delivery_notes);
+  const lineUserId = validator.optionalString('customer.line_user_id', raw.line_user_id, 100);
+  const preferredLanguage = raw.preferred_language === undefined
+    ? undefined
+    : validator.requireOneOf('customer.preferred_language', raw.preferred_language, NOTIFICATION_LOCALES);
+
+  if (!validator.valid) {
+    return null;
+  }
+
+  const address = await resolveAddress(
+    {
+      address_line1: addressLine1!,
+      address_line2: addressLine2,
+      district: district!,
+      city: city!,
+      postal_code: postalCode
+    },
+    hasLocation ? { latitude: latitude!, longitude: longitude! } : null
+  );
+
+  if (!address) {
+    validator.add('customer.district', 'address could not be located; provide latitude and longitude');
+    return null;
+  }
+
+  const newCustomer: CustomerCreateData = {
+    name: name!,
+    phone,
+    email,
+    address_line1: address.address_line1,
+    address_line2: address.address_line2 ?? undefined,
+    district: address.district,
+    city: address.city,
+    postal_code: address.postal_code ?? undefined,
+    latitude: address.latitude,
+    longitude: address.longitude,
+    delivery_notes: deliveryNotes,
+    line_user_id: lineUserId,
+    preferred_language: preferredLanguage,
+    geocode_source: address.geocode_source,
+    geocode_confidence: address.geocode_confidence,
+    address_needs_review: address.address_needs_review
+  };
+
+  return { customer_id: null, new_customer: newCustomer, address };
+}
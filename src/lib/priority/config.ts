@@ -0,0 +1,45 @@
+// ===================================
+// File: src/lib/priority/config.ts
+// โหลด Priority Weights จาก PriorityConfig ที่ active
+// ===================================
+
+import { getActivePriorityConfig } from '../db/queries';
+import { DEFAULT_WEIGHTS, PriorityWeights, validateWeights } from './weights';
+
+export interface ResolvedPriorityConfig {
+  config_id: string | null;
+  config_name: string;
+  version: number | null;
+  weights: PriorityWeights;
+}
+
+const DEFAULT_CONFIG: ResolvedPriorityConfig = {
+  config_id: null,
+  config_name: 'default',
+  version: null,
+  weights: DEFAULT_WEIGHTS
+};
+
+export async function getActivePriorityWeights(): Promise<ResolvedPriorityConfig> {
+  const config = await getActivePriorityConfig();
+  if (!config) {
+    return DEFAULT_CONFIG;
+  }
+
+  // config ที่บันทึกผ่าน admin API ถูก validate แล้ว แต่เผื่อกรณีแก้ใน DB โดยตรง
+  const validation = validateWeights(config.weights);
+  if (!validation.valid || !validation.weights) {
+    console.error(
+      `Active PriorityConfig ${config.config_name} v${config.version} is invalid, using defaults:`,
+      validation.errors
+    );
+    return DEFAULT_CONFIG;
+  }
+
+  return {
+    config_id: config.id,
+    config_name: config.config_name,
+    version: config.version,
+    weights: validation.weights
+  };
+}
@@ -0,0 +1,154 @@
+// ===================================
+// File: src/lib/priority/engine.test.ts
+// ตัวอย่างการคำนวณใน docs/PRIORITY_ALGORITHM.md ต้องตรงกับ engine
+// ===================================
+
+import { describe, expect, it } from 'vitest';
+import { classifyPriority, Order, OrderPriorityCalculator, Product, rankPriorityResults } from './engine';
+
+const ORDER_TIME = '2025-01-15T10:00:00Z';
+
+function minutesAfterOrder(minutes: number): string {
+  return new Date(new Date(ORDER_TIME).getTime() + minutes * 60 * 1000).toISOString();
+}
+
+function buildOrder(
+  orderId: string,
+  customerPriority: Order['customer_priority'],
+  minutesUntilDeadline: number,
+  products: Product[]
+): Order {
+  return {
+    order_id: orderId,
+    customer_name: 'ลูกค้าทดสอบ',
+    customer_address: 'กรุงเทพฯ',
+    customer_priority: customerPriority,
+    order_time: ORDER_TIME,
+    delivery_window_end: minutesAfterOrder(minutesUntilDeadline),
+    products
+  };
+}
+
+// ตัวอย่างที่ 1-5 ในหัวข้อ "ตัวอย่างการคำนวณจริง"
+const EXAMPLES = [
+  {
+    name: 'ตัวอย่างที่ 1: ข้าวกล่องหมูกระเพรา',
+    order: buildOrder('EX1', 'urgent', 25, [
+      { product_id: 'P001', name: 'ข้าวกล่องหมูกระเพรา', category: 'hot_food', price: 65, quantity: 1, expiration_hours: 3 }
+    ]),
+    breakdown: { temperature: 30, expiration: 25, customer_priority: 15, value: 4, delivery_window: 13.5, fragility: 1.5 },
+    score: 89,
+    priority_class: 'critical'
+  },
+  {
+    name: 'ตัวอย่างที่ 2: ไอศกรีมวานิลลา',
+    order: buildOrder('EX2', 'urgent', 30, [
+      { product_id: 'P002', name: 'ไอศกรีมวานิลลา', category: 'frozen', price: 178, quantity: 1, expiration_hours: 30 * 24 }
+    ]),
+    breakdown: { temperature: 27, expiration: 7.5, customer_priority: 15, value: 6, delivery_window: 13.5, fragility: 1.5 },
+    score: 70.5,
+    priority_class: 'high'
+  },
+  {
+    name: 'ตัวอย่างที่ 3: แซนด์วิชไข่ทูน่า',
+    order: buildOrder('EX3', 'high', 45, [
+      { product_id: 'P003', name: 'แซนด์วิชไข่ทูน่า', category: 'chilled', price: 90, quantity: 1, expiration_hours: 8 }
+    ]),
+    breakdown: { temperature: 22.5, expiration: 22.5, customer_priority: 11.25, value: 4, delivery_window: 10.5, fragility: 1.5 },
+    score: 72.25,
+    priority_class: 'high'
+  },
+  {
+    name: 'ตัวอย่างที่ 4: ยาพาราเซตามอล',
+    order: buildOrder('EX4', 'high', 60, [
+      { product_id: 'P004', name: 'ยาพาราเซตามอล', category: 'medicine', price: 165, quantity: 1, expiration_hours: 2 * 365 * 24 }
+    ]),
+    breakdown: { temperature: 18, expiration: 7.5, customer_priority: 11.25, value: 6, delivery_window: 10.5, fragility: 5 },
+    score: 58.25,
+    priority_class: 'medium'
+  },
+  {
+    name: 'ตัวอย่างที่ 5: มาม่า 5 ห่อ',
+    order: buildOrder('EX5', 'standard', 120, [
+      { product_id: 'P005', name: 'มาม่า', category: 'snack', price: 25, quantity: 5, expiration_hours: 180 * 24 }
+    ]),
+    breakdown: { temperature: 6, expiration: 7.5, customer_priority: 7.5, value: 6, delivery_window: 7.5, fragility: 1.5 },
+    score: 36,
+    priority_class: 'low'
+  }
+] as const;
+
+describe('OrderPriorityCalculator', () => {
+  const calculator = new OrderPriorityCalculator();
+
+  for (const example of EXAMPLES) {
+    it(`คำนวณ${example.name} ตามเอกสาร`, () => {
+      const result = calculator.calculateOrderPriority(example.order, new Date(ORDER_TIME));
+
+      for (const [factor, value] of Object.entries(example.breakdown)) {
+        expect(result.breakdown[factor as keyof typeof example.breakdown]).toBeCloseTo(value, 5);
+      }
+      expect(result.priority_score).toBe(example.score);
+      expect(result.priority_class).toBe(example.priority_class);
+    });
+  }
+
+  it('เรียงลำดับตัวอย่างตามตารางสรุป', () => {
+    const results = EXAMPLES.map(example =>
+      calculator.calculateOrderPriority(example.order, new Date(ORDER_TIME))
+    );
+
+    const ranked = rankPriorityResults(results);
+
+    expect(ranked.map(result => result.order_id)).toEqual(['EX1', 'EX3', 'EX2', 'EX4', 'EX5']);
+    expect(ranked.map(result => result.suggested_delivery_order)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('ตรวจวันหมดอายุของ override ด้วยเวลาเดียวกับที่ใช้คำนวณคะแนน', () => {
+    const order: Order = {
+      ...EXAMPLES[4].order,
+      override: {
+        override_id: 'OV1',
+        override_type: 'boost',
+        score_boost: 20,
+        reason: 'ลูกค้าโทรตาม',
+        created_by: 'dispatcher',
+        expires_at: minutesAfterOrder(60)
+      }
+    };
+
+    const beforeExpiry = calculator.calculateOrderPriority(order, new Date(minutesAfterOrder(30)));
+    const afterExpiry = calculator.calculateOrderPriority(order, new Date(minutesAfterOrder(90)));
+    const atOrderTime = calculator.calculateOrderPriority(order);
+
+    expect(beforeExpiry.override?.override_id).toBe('OV1');
+    expect(beforeExpiry.priority_score).toBe(beforeExpiry.computed_score + 20);
+    expect(afterExpiry.override).toBeNull();
+    expect(afterExpiry.priority_score).toBe(afterExpiry.computed_score);
+    expect(atOrderTime.override?.override_id).toBe('OV1');
+  });
+
+  it('ใช้อุณหภูมิสูงสุดและอายุสั้นที่สุดเมื่อมีหลายสินค้า', () => {
+    const order = buildOrder('MIX', 'standard', 200, [
+      { product_id: 'P001', name: 'ข้าวกล่อง', category: 'hot_food', price: 65, quantity: 1, expiration_hours: 3 },
+      { product_id: 'P006', name: 'น้ำดื่ม', category: 'beverage', price: 10, quantity: 1, expiration_hours: 365 * 24 }
+    ]);
+
+    const result = calculator.calculateOrderPriority(order, new Date(ORDER_TIME));
+
+    expect(result.breakdown.temperature).toBeCloseTo(30, 5);
+    expect(result.breakdown.expiration).toBeCloseTo(25, 5);
+    expect(result.earliest_expiration).toBe(3);
+  });
+});
+
+describe('classifyPriority', () => {
+  it('แบ่ง class ตามช่วงคะแนนในเอกสาร', () => {
+    expect(classifyPriority(75)).toBe('critical');
+    expect(classifyPriority(74.99)).toBe('high');
+    expect(classifyPriority(60)).toBe('high');
+    expect(classifyPriority(59.99)).toBe('medium');
+    expect(classifyPriority(40)).toBe('medium');
+    expect(classifyPriority(39.99)).toBe('low');
+  });
+});
@@ -0,0 +1,339 @@
+// ===================================
+// File: src/lib/priority/engine.ts
+// Priority Engine (ใช้ร่วมกันระหว่าง API และ Dashboard)
+// ===================================
+
+import { DEFAULT_WEIGHTS, PriorityFactor, PriorityWeights } from './weights';
+
+// ===================================
+// Types & Interfaces
+// ===================================
+
+export type ProductCategory =
+  | 'hot_food'
+  | 'frozen'
+  | 'chilled'
+  | 'beverage'
+  | 'snack'
+  | 'daily_goods'
+  | 'medicine';
+
+export type CustomerPriority = 'urgent' | 'high' | 'standard' | 'economy';
+
+export type PriorityClass = 'critical' | 'high' | 'medium' | 'low';
+
+export const PRIORITY_CLASSES: PriorityClass[] = ['critical', 'high', 'medium', 'low'];
+
+export type TemperatureLevel = 'hot' | 'frozen' | 'chilled' | 'cool' | 'ambient';
+
+export interface TemperatureRequirement {
+  temp: TemperatureLevel;
+  score: number;
+  label: string;
+  icon: string;
+  color: string;
+}
+
+export interface Product {
+  product_id: string;
+  name: string;
+  category: ProductCategory;
+  price: number;
+  quantity: number;
+  expiration_hours: number; // ชั่วโมงจนกว่าจะหมดอายุ (นับจากเวลาสั่ง) ใช้เมื่อไม่มี expiration_datetime
+  expiration_datetime?: string; // เวลาหมดอายุจริงของสินค้าชิ้นนี้
+  is_fragile?: boolean;
+}
+
+export interface Order {
+  order_id: string;
+  customer_name: string;
+  customer_address: string;
+  customer_priority: CustomerPriority;
+  order_time: string;
+  delivery_window_end: string;
+  planned_arrival?: string; // ถ้าไม่มี ใช้ delivery_window_end เป็นเวลาถึงโดยประมาณ
+  products: Product[];
+  delivery_latitude?: number;
+  delivery_longitude?: number;
+  override?: PriorityOverride | null;
+  previous_failures?: number; // จำนวนครั้งที่เคยส่งไม่สำเร็จแล้วนัดส่งใหม่
+}
+
+export type PriorityOverrideType = 'pin_class' | 'pin_rank' | 'boost';
+
+export const PRIORITY_OVERRIDE_TYPES: PriorityOverrideType[] = ['pin_class', 'pin_rank', 'boost'];
+
+// การปรับลำดับเองโดยพนักงาน (Manual Override)
+export interface PriorityOverride {
+  override_id: string;
+  override_type: PriorityOverrideType;
+  priority_class?: PriorityClass | null;
+  priority_rank?: number | null;
+  score_boost?: number | null;
+  reason: string;
+  created_by: string;
+  expires_at?: string | null;
+}
+
+// previous_failures = คะแนนเพิ่มของออเดอร์ที่เคยส่งไม่สำเร็จ
+// manual_override = คะแนนที่เพิ่ม/ลดจาก override (มีเฉพาะเมื่อมี override ที่ปรับคะแนน)
+export type PriorityBreakdown = Record<PriorityFactor, number> & {
+  previous_failures?: number;
+  manual_override?: number;
+};
+
+export interface PriorityResult {
+  order_id: string;
+  priority_score: number;
+  priority_class: PriorityClass;
+  computed_score: number;            // คะแนนก่อนใช้ override
+  override: PriorityOverride | null; // override ที่ยังไม่หมดอายุ ณ เวลาที่คำนวณ
+  pinned_rank: number | null;
+  breakdown: PriorityBreakdown;
+  temperature: TemperatureRequirement;
+  highest_temp_requirement: string;
+  total_value: number;
+  earliest_expiration: number;
+  minutes_until_deadline: number;
+  is_shippable: boolean;
+  unshippable_items: string[]; // product_id ของสินค้าที่จะหมดอายุก่อนถึงมือลูกค้า
+}
+
+// ===================================
+// Scoring Tables
+// ===================================
+
+export const TEMPERATURE_REQUIREMENTS: Record<ProductCategory, TemperatureRequirement> = {
+  hot_food: { temp: 'hot', score: 100, label: 'ร้อน 60-70°C', icon: '🔥', color: 'red' },
+  frozen: { temp: 'frozen', score: 90, label: 'แช่แข็ง -18°C', icon: '❄️', color: 'blue' },
+  chilled: { temp: 'chilled', score: 75, label: 'เย็น 0-4°C', icon: '🧊', color: 'cyan' },
+  beverage: { temp: 'cool', score: 40, label: 'เย็น 15-20°C', icon: '🥤', color: 'green' },
+  snack: { temp: 'ambient', score: 20, label: 'ปกติ', icon: '🍪', color: 'gray' },
+  daily_goods: { temp: 'ambient', score: 20, label: 'ปกติ', icon: '📦', color: 'gray' },
+  medicine: { temp: 'ambient', score: 60, label: 'ปกติ (ยา)', icon: '💊', color: 'purple' }
+};
+
+export const CUSTOMER_PRIORITY_SCORES: Record<CustomerPriority, number> = {
+  urgent: 100,
+  high: 75,
+  standard: 50,
+  economy: 25
+};
+
+// หมวดสินค้าที่ไม่รู้จักถือเป็นสินค้าปกติ
+const FALLBACK_CATEGORY: ProductCategory = 'snack';
+const FALLBACK_CUSTOMER_SCORE = 50;
+
+// ลูกค้ารอมาแล้วอย่างน้อยหนึ่งรอบ: บวกคะแนนต่อครั้งที่ส่งไม่สำเร็จ (มีเพดาน)
+const PREVIOUS_FAILURE_BOOST = 10;
+const MAX_PREVIOUS_FAILURE_BOOST = 20;
+
+// ===================================
+// Priority Calculator
+// ===================================
+
+export class OrderPriorityCalculator {
+  constructor(private weights: PriorityWeights = DEFAULT_WEIGHTS) {}
+
+  // asOf = เวลาที่ใช้คำนวณ (ค่าเริ่มต้นคือเวลาสั่ง) คะแนนจะสูงขึ้นเมื่อเวลาผ่านไป
+  // วันหมดอายุของ override ก็ตรวจ ณ เวลาเดียวกันนี้
+  calculateOrderPriority(order: Order, asOf?: Date): PriorityResult {
+    const orderTime = new Date(order.order_time);
+    const now = asOf ?? orderTime;
+
+    // 1. หา Temperature Requirement สูงสุดในออเดอร์
+    const temperature = order.products
+      .map(p => this.getTemperatureRequirement(p.category))
+      .reduce(
+        (highest, requirement) => requirement.score > highest.score ? requirement : highest,
+        TEMPERATURE_REQUIREMENTS[FALLBACK_CATEGORY]
+      );
+
+    // 2. หาอายุสั้นที่สุด (Earliest Expiration) ที่เหลือ ณ เวลาที่คำนวณ
+    const minExpiration = Math.min(...order.products.map(p => hoursUntilExpiration(p, orderTime, now)));
+    const expirationScore = this.scoreExpiration(minExpiration);
+
+    // สินค้าที่จะหมดอายุแล้ว ณ เวลาที่คาดว่าจะถึงลูกค้า ส่งไม่ได้
+    const arrival = new Date(order.planned_arrival ?? order.delivery_window_end);
+    const unshippableItems = order.products
+      .filter(p => hoursUntilExpiration(p, orderTime, arrival) <= 0)
+      .map(p => p.product_id);
+
+    // 3. Customer Priority
+    const customerScore = CUSTOMER_PRIORITY_SCORES[order.customer_priority] ?? FALLBACK_CUSTOMER_SCORE;
+
+    // 4. Total Order Value
+    const totalValue = order.products.reduce((sum, p) => sum + (p.price * p.quantity), 0);
+    const valueScore = this.scoreValue(totalValue);
+
+    // 5. Delivery Window Urgency
+    const deliveryEnd = new Date(order.delivery_window_end);
+    const minutesRemaining = (deliveryEnd.getTime() - now.getTime()) / (1000 * 60);
+    const windowScore = this.scoreDeliveryWindow(minutesRemaining);
+
+    // 6. Fragility (Medicine หรือสินค้าที่ระบุว่าแตกง่าย = fragile)
+    const hasFragile = order.products.some(p => p.category === 'medicine' || p.is_fragile);
+    const fragilityScore = hasFragile ? 100 : 30;
+
+    const breakdown: PriorityBreakdown = {
+      temperature: temperature.score * this.weights.temperature,
+      expiration: expirationScore * this.weights.expiration,
+      customer_priority: customerScore * this.weights.customer_priority,
+      value: valueScore * this.weights.value,
+      delivery_window: windowScore * this.weights.delivery_window,
+      fragility: fragilityScore * this.weights.fragility
+    };
+
+    // 7. Previous Failures
+    if (order.previous_failures && order.previous_failures > 0) {
+      breakdown.previous_failures = Math.min(
+        MAX_PREVIOUS_FAILURE_BOOST,
+        order.previous_failures * PREVIOUS_FAILURE_BOOST
+      );
+    }
+
+    const computedScore = Object.values(breakdown).reduce((sum, val) => sum + val, 0);
+
+    // 8. Manual Override (override ที่หมดอายุแล้วจะถูกข้าม ใช้คะแนนที่คำนวณได้ตามปกติ)
+    const override = isOverrideActive(order.override, now) ? order.override! : null;
+    const adjustment = override ? getOverrideAdjustment(override, computedScore) : 0;
+    if (adjustment !== 0) {
+      breakdown.manual_override = adjustment;
+    }
+    const totalScore = Math.min(100, Math.max(0, computedScore + adjustment));
+
+    return {
+      order_id: order.order_id,
+      priority_score: Math.round(totalScore * 100) / 100,
+      priority_class: classifyPriority(totalScore),
+      computed_score: Math.round(computedScore * 100) / 100,
+      override,
+      pinned_rank: override?.override_type === 'pin_rank' ? override.priority_rank ?? null : null,
+      breakdown,
+      temperature,
+      highest_temp_requirement: temperature.label,
+      total_value: totalValue,
+      earliest_expiration: Math.round(minExpiration * 100) / 100,
+      minutes_until_deadline: Math.round(minutesRemaining),
+      is_shippable: unshippableItems.length === 0,
+      unshippable_items: unshippableItems
+    };
+  }
+
+  private getTemperatureRequirement(category: string): TemperatureRequirement {
+    return TEMPERATURE_REQUIREMENTS[category as ProductCategory] ?? TEMPERATURE_REQUIREMENTS[FALLBACK_CATEGORY];
+  }
+
+  private scoreExpiration(hours: number): number {
+    if (hours <= 3) return 100;  // อาหารร้อน
+    if (hours <= 8) return 90;   // แซนด์วิช
+    if (hours <= 24) return 70;
+    if (hours <= 168) return 50; // 1 สัปดาห์
+    return 30;
+  }
+
+  private scoreValue(value: number): number {
+    if (value >= 500) return 100;
+    if (value >= 200) return 80;
+    if (value >= 100) return 60;
+    if (value >= 50) return 40;
+    return 20;
+  }
+
+  private scoreDeliveryWindow(minutes: number): number {
+    if (minutes <= 15) return 100;
+    if (minutes <= 30) return 90;
+    if (minutes <= 60) return 70;
+    if (minutes <= 120) return 50;
+    return 30;
+  }
+}
+
+// ชั่วโมงที่เหลือก่อนหมดอายุ ณ เวลา at (ติดลบ = หมดอายุแล้ว)
+export function hoursUntilExpiration(product: Product, orderTime: Date, at: Date): number {
+  const expiresAt = product.expiration_datetime
+    ? new Date(product.expiration_datetime)
+    : new Date(orderTime.getTime() + product.expiration_hours * 60 * 60 * 1000);
+
+  if (isNaN(expiresAt.getTime())) {
+    return product.expiration_hours - (at.getTime() - orderTime.getTime()) / (1000 * 60 * 60);
+  }
+
+  return (expiresAt.getTime() - at.getTime()) / (1000 * 60 * 60);
+}
+
+export function classifyPriority(score: number): PriorityClass {
+  if (score >= 75) return 'critical';
+  if (score >= 60) return 'high';
+  if (score >= 40) return 'medium';
+  return 'low';
+}
+
+// ช่วงคะแนนของแต่ละ class (pin_class จะดึงคะแนนเข้ามาอยู่ในช่วงนี้)
+const PRIORITY_CLASS_BANDS: Record<PriorityClass, { min: number; max: number }> = {
+  critical: { min: 75, max: 100 },
+  high: { min: 60, max: 74.99 },
+  medium: { min: 40, max: 59.99 },
+  low: { min: 0, max: 39.99 }
+};
+
+export function isOverrideActive(
+  override: PriorityOverride | null | undefined,
+  at: Date
+): override is PriorityOverride {
+  if (!override) return false;
+  return !override.expires_at || new Date(override.expires_at).getTime() > at.getTime();
+}
+
+function getOverrideAdjustment(override: PriorityOverride, score: number): number {
+  if (override.override_type === 'boost') {
+    return override.score_boost ?? 0;
+  }
+
+  if (override.override_type === 'pin_class' && override.priority_class) {
+    const band = PRIORITY_CLASS_BANDS[override.priority_class];
+    if (!band) return 0;
+    return Math.min(band.max, Math.max(band.min, score)) - score;
+  }
+
+  return 0;
+}
+
+const PRIORITY_CLASS_LEVELS: Record<PriorityClass, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3
+};
+
+export function isHigherPriorityClass(next: string, previous: string): boolean {
+  const nextLevel = PRIORITY_CLASS_LEVELS[next as PriorityClass];
+  const previousLevel = PRIORITY_CLASS_LEVELS[previous as PriorityClass];
+  if (nextLevel === undefined || previousLevel === undefined) return false;
+  return nextLevel > previousLevel;
+}
+
+// เรียงตามคะแนนจากมากไปน้อย และใส่ลำดับแนะนำการจัดส่ง
+// ออเดอร์ที่ถูก pin_rank จะอยู่ในลำดับที่กำหนด (ถ้าลำดับเกินจำนวนออเดอร์จะอยู่ท้ายสุด)
+export function rankPriorityResults<T extends { priority_score: number; pinned_rank?: number | null }>(
+  results: T[]
+): (T & { suggested_delivery_order: number })[] {
+  const sorted = [...results].sort((a, b) => b.priority_score - a.priority_score);
+  const pinned = sorted
+    .filter(result => result.pinned_rank)
+    .sort((a, b) => a.pinned_rank! - b.pinned_rank!);
+  const free = sorted.filter(result => !result.pinned_rank);
+
+  const ordered: T[] = [];
+  while (pinned.length > 0 || free.length > 0) {
+    const position = ordered.length + 1;
+    if (pinned.length > 0 && (pinned[0].pinned_rank! <= position || free.length === 0)) {
+      ordered.push(pinned.shift()!);
+    } else {
+      ordered.push(free.shift()!);
+    }
+  }
+
+  return ordered.map((result, index) => ({ ...result, suggested_delivery_order: index + 1 }));
+}
@@ -0,0 +1,272 @@
+// ===================================
+// File: src/lib/priority/recompute.ts
+// คำนวณ Priority ของออเดอร์ในฐานข้อมูลและบันทึกผลกลับ
+// ===================================
+
+import { Prisma, PriorityOverride as PriorityOverrideRow } from '@prisma/client';
+import {
+  getActiveOrders,
+  getOrdersByDeliveryDate,
+  getOrdersByIds,
+  revokeExpiredPriorityOverrides,
+  recordPriorityEscalation,
+  updateOrderPriority
+} from '../db/queries';
+import { toDateKey } from '../dates';
+import { getActivePriorityWeights, ResolvedPriorityConfig } from './config';
+import {
+  CustomerPriority,
+  isHigherPriorityClass,
+  Order,
+  OrderPriorityCalculator,
+  PriorityClass,
+  PriorityOverride,
+  PriorityOverrideType,
+  PriorityResult,
+  ProductCategory,
+  rankPriorityResults
+} from './engine';
+
+export type OrderWithItems = Prisma.OrderGetPayload<{
+  include: {
+    customer: true;
+    order_items: {
+      include: {
+        product: true;
+      };
+    };
+  };
+}> & {
+  deliveries?: { planned_arrival: Date | null; estimated_arrival?: Date | null }[];
+  priority_overrides?: PriorityOverrideRow[];
+};
+
+export interface RecomputeSummary {
+  delivery_date: string;
+  total_orders: number;
+  orders: {
+    order_id: string;
+    priority_score: number;
+    priority_class: string;
+    priority_rank: number;
+    is_shippable: boolean;
+  }[];
+  escalated_order_ids: string[];
+}
+
+// แปลงแถว Order/OrderItem/Product จากฐานข้อมูลเป็น input ของ priority engine
+export function toPriorityInput(order: OrderWithItems): Order {
+  return {
+    order_id: order.id,
+    customer_name: order.customer.name,
+    customer_address: order.delivery_address,
+    customer_priority: order.customer_priority as CustomerPriority,
+    order_time: order.order_date.toISOString(),
+    delivery_window_end: order.delivery_window_end.toISOString(),
+    // ETA จากตำแหน่งจริงของคนขับแม่นกว่าเวลาที่วางแผนไว้
+    planned_arrival: (order.deliveries?.[0]?.estimated_arrival ?? order.deliveries?.[0]?.planned_arrival)
+      ?.toISOString(),
+    delivery_latitude: order.delivery_latitude,
+    delivery_longitude: order.delivery_longitude,
+    override: toPriorityOverride(order.priority_overrides?.[0]),
+    previous_failures: order.retry_count,
+    products: order.order_items.map(item => ({
+      product_id: item.product_id,
+      name: item.product.name,
+      category: item.product.category as ProductCategory,
+      price: item.unit_price,
+      quantity: item.quantity,
+      expiration_hours: item.product.typical_expiration_hours,
+      expiration_datetime: item.expiration_datetime?.toISOString(),
+      is_fragile: item.product.is_fragile
+    }))
+  };
+}
+
+function toPriorityOverride(row: PriorityOverrideRow | undefined): PriorityOverride | null {
+  if (!row) return null;
+
+  return {
+    override_id: row.id,
+    override_type: row.override_type as PriorityOverrideType,
+    priority_class: row.priority_class as PriorityClass | null,
+    priority_rank: row.priority_rank,
+    score_boost: row.score_boost,
+    reason: row.reason,
+    created_by: row.created_by,
+    expires_at: row.expires_at?.toISOString() ?? null
+  };
+}
+
+export function toPriorityBreakdownJson(
+  result: PriorityResult,
+  config: ResolvedPriorityConfig,
+  asOf?: Date
+): Prisma.InputJsonValue {
+  return {
+    factors: result.breakdown,
+    computed_score: result.computed_score,
+    override: result.override
+      ? {
+        override_id: result.override.override_id,
+        override_type: result.override.override_type,
+        priority_class: result.override.priority_class ?? null,
+        priority_rank: result.override.priority_rank ?? null,
+        score_boost: result.override.score_boost ?? null,
+        reason: result.override.reason,
+        created_by: result.override.created_by,
+        expires_at: result.override.expires_at ?? null
+      }
+      : null,
+    highest_temp_requirement: result.highest_temp_requirement,
+    total_value: result.total_value,
+    earliest_expiration: result.earliest_expiration,
+    minutes_until_deadline: result.minutes_until_deadline,
+    is_shippable: result.is_shippable,
+    unshippable_items: result.unshippable_items,
+    scored_at: (asOf ?? new Date()).toISOString(),
+    config: {
+      name: config.config_name,
+      version: config.version
+    }
+  };
+}
+
+// คำนวณใหม่ทั้งวัน (rank นับแยกตามวันส่ง)
+// ถ้าไม่ระบุวัน จะคำนวณทุกออเดอร์ที่ยังไม่ออกจัดส่ง รวมออเดอร์ค้างจากวันก่อน
+export async function recomputeOrderPriorities(
+  deliveryDate?: Date,
+  asOf: Date = new Date()
+): Promise<RecomputeSummary[]> {
+  const orders = deliveryDate
+    ? await getOrdersByDeliveryDate(deliveryDate)
+    : await getActiveOrders();
+
+  return await scoreAndPersist(orders, asOf);
+}
+
+// คำนวณใหม่ทั้งวันส่งของออเดอร์เหล่านี้ รวมตัวออเดอร์เองแม้จะอยู่บนรถแล้ว (in_transit)
+export async function rescoreOrders(orderIds: string[], asOf: Date = new Date()): Promise<RecomputeSummary[]> {
+  const targets = await getOrdersByIds(orderIds);
+
+  const orders: OrderWithItems[] = [];
+  for (const date of uniqueDeliveryDates(targets)) {
+    orders.push(...await getOrdersByDeliveryDate(date));
+  }
+  orders.push(...targets.filter(target => !orders.some(order => order.id === target.id)));
+
+  return await scoreAndPersist(orders, asOf);
+}
+
+// ออเดอร์ใหม่: คำนวณเฉพาะออเดอร์นี้ ไม่เขียนทับคะแนนทั้งวันทุกครั้งที่รับออเดอร์
+// priority_rank ของวันจะถูกจัดใหม่ในรอบ rescore ถัดไป
+export async function scoreNewOrder(orderId: string, asOf: Date = new Date()) {
+  const [order] = await getOrdersByIds([orderId]);
+  if (!order) {
+    return null;
+  }
+
+  const config = await getActivePriorityWeights();
+  const result = new OrderPriorityCalculator(config.weights).calculateOrderPriority(toPriorityInput(order), asOf);
+
+  await updateOrderPriority(
+    order.id,
+    result.priority_score,
+    result.priority_class,
+    toPriorityBreakdownJson(result, config, asOf)
+  );
+
+  return result;
+}
+
+// ปิด override ที่หมดอายุแล้วคำนวณวันส่งของออเดอร์เหล่านั้นใหม่ ให้คะแนนที่บันทึกไว้กลับเป็นค่าที่คำนวณได้
+// เรียกก่อนใช้ priority_score จากฐานข้อมูล (เช่น dispatch) เพราะ scheduler อาจไม่ได้เปิดไว้
+export async function expirePriorityOverrides(asOf: Date = new Date()) {
+  const orderIds = await revokeExpiredPriorityOverrides(asOf);
+  if (orderIds.length > 0) {
+    await rescoreOrders(orderIds, asOf);
+  }
+  return orderIds;
+}
+
+// ใช้โดย scheduler: คะแนนลดหลั่นตามเวลาที่เหลือก่อนหมดอายุ/หมด delivery window
+export async function rescoreActiveOrders(asOf: Date = new Date()): Promise<RecomputeSummary[]> {
+  return await scoreAndPersist(await getActiveOrders(), asOf);
+}
+
+async function scoreAndPersist(
+  orders: OrderWithItems[],
+  asOf: Date
+): Promise<RecomputeSummary[]> {
+  const config = await getActivePriorityWeights();
+  const calculator = new OrderPriorityCalculator(config.weights);
+  const ordersById = new Map(orders.map(order => [order.id, order]));
+  const summaries: RecomputeSummary[] = [];
+
+  for (const [dateKey, dateOrders] of groupByDeliveryDate(orders)) {
+    const results = dateOrders.map(order =>
+      calculator.calculateOrderPriority(toPriorityInput(order), asOf)
+    );
+    const ranked = rankPriorityResults(results);
+    const escalated: string[] = [];
+
+    for (const result of ranked) {
+      const previous = ordersById.get(result.order_id);
+
+      await updateOrderPriority(
+        result.order_id,
+        result.priority_score,
+        result.priority_class,
+        toPriorityBreakdownJson(result, config, asOf),
+        result.suggested_delivery_order
+      );
+
+      if (previous?.priority_class && isHigherPriorityClass(result.priority_class, previous.priority_class)) {
+        await recordPriorityEscalation({
+          order_id: result.order_id,
+          from_class: previous.priority_class,
+          to_class: result.priority_class,
+          from_score: previous.priority_score,
+          to_score: result.priority_score,
+          escalated_at: asOf
+        });
+        escalated.push(result.order_id);
+      }
+    }
+
+    summaries.push({
+      delivery_date: dateKey,
+      total_orders: ranked.length,
+      orders: ranked.map(result => ({
+        order_id: result.order_id,
+        priority_score: result.priority_score,
+        priority_class: result.priority_class,
+        priority_rank: result.suggested_delivery_order,
+        is_shippable: result.is_shippable
+      })),
+      escalated_order_ids: escalated
+    });
+  }
+
+  return summaries;
+}
+
+function groupByDeliveryDate(orders: OrderWithItems[]): Map<string, OrderWithItems[]> {
+  const groups = new Map<string, OrderWithItems[]>();
+  for (const order of orders) {
+    const key = toDateKey(order.delivery_date);
+    groups.set(key, [...(groups.get(key) ?? []), order]);
+  }
+  return groups;
+}
+
+function uniqueDeliveryDates(orders: { delivery_date: Date }[]): Date[] {
+  const byKey = new Map<string, Date>();
+  for (const order of orders) {
+    const key = toDateKey(order.delivery_date);
+    if (!byKey.has(key)) {
+      byKey.set(key, order.delivery_date);
+    }
+  }
+  return [...byKey.values()];
+}
@@ -0,0 +1,52 @@
+// ===================================
+// File: src/lib/priority/scheduler.ts
+// ตั้งเวลาคำนวณ Priority ใหม่เป็นระยะ (Real-time Updates)
+// ===================================
+
+import { revokeExpiredPriorityOverrides } from '../db/queries';
+import { rescoreActiveOrders } from './recompute';
+
+const DEFAULT_INTERVAL_MINUTES = 5;
+
+const globalForScheduler = globalThis as unknown as {
+  priorityRescoreTimer: NodeJS.Timeout | undefined;
+};
+
+let isRunning = false;
+
+export async function runPriorityRescore(asOf: Date = new Date()) {
+  // ป้องกันรอบใหม่เริ่มก่อนรอบเดิมเสร็จ
+  if (isRunning) {
+    return null;
+  }
+
+  isRunning = true;
+  try {
+    // รอบนี้คำนวณทุกออเดอร์อยู่แล้ว จึงปิด override ที่หมดอายุอย่างเดียว
+    await revokeExpiredPriorityOverrides(asOf);
+    return await rescoreActiveOrders(asOf);
+  } finally {
+    isRunning = false;
+  }
+}
+
+export function startPriorityRescorer(
+  intervalMinutes: number = Number(process.env.PRIORITY_RESCORE_INTERVAL_MINUTES) || DEFAULT_INTERVAL_MINUTES
+) {
+  if (globalForScheduler.priorityRescoreTimer) {
+    return;
+  }
+
+  globalForScheduler.priorityRescoreTimer = setInterval(() => {
+    runPriorityRescore().catch(error => {
+      console.error('Error rescoring priorities:', error);
+    });
+  }, intervalMinutes * 60 * 1000);
+}
+
+export function stopPriorityRescorer() {
+  if (globalForScheduler.priorityRescoreTimer) {
+    clearInterval(globalForScheduler.priorityRescoreTimer);
+    globalForScheduler.priorityRescoreTimer = undefined;
+  }
+}
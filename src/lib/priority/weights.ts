@@ -0,0 +1,77 @@
+// ===================================
+// File: src/lib/priority/weights.ts
+// Priority Weights (ค่าน้ำหนักของแต่ละปัจจัย)
+// ===================================
+
+export const PRIORITY_FACTORS = [
+  'temperature',
+  'expiration',
+  'customer_priority',
+  'value',
+  'delivery_window',
+  'fragility'
+] as const;
+
+export type PriorityFactor = typeof PRIORITY_FACTORS[number];
+
+export type PriorityWeights = Record<PriorityFactor, number>;
+
+// ค่าเริ่มต้นตาม PRIORITY_ALGORITHM.md (ใช้เมื่อยังไม่มี PriorityConfig ที่ active)
+export const DEFAULT_WEIGHTS: PriorityWeights = {
+  temperature: 0.30,
+  expiration: 0.25,
+  customer_priority: 0.15,
+  value: 0.10,
+  delivery_window: 0.15,
+  fragility: 0.05
+};
+
+// ยอมให้ผลรวมคลาดเคลื่อนได้เล็กน้อยจาก floating point
+const WEIGHT_SUM_TOLERANCE = 0.0001;
+
+export interface WeightValidationResult {
+  valid: boolean;
+  errors: string[];
+  weights?: PriorityWeights;
+}
+
+export function validateWeights(input: unknown): WeightValidationResult {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: ['weights must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const entries = Object.entries(input as Record<string, unknown>);
+
+  const unknownFactors = entries
+    .map(([factor]) => factor)
+    .filter(factor => !(PRIORITY_FACTORS as readonly string[]).includes(factor));
+  if (unknownFactors.length > 0) {
+    errors.push(`Unknown factors: ${unknownFactors.join(', ')}`);
+  }
+
+  const missingFactors = PRIORITY_FACTORS.filter(factor => !(factor in (input as object)));
+  if (missingFactors.length > 0) {
+    errors.push(`Missing factors: ${missingFactors.join(', ')}`);
+  }
+
+  for (const [factor, value] of entries) {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`Weight for ${factor} must be a number`);
+    } else if (value < 0 || value > 1) {
+      errors.push(`Weight for ${factor} must be between 0 and 1`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const weights = input as PriorityWeights;
+  const sum = PRIORITY_FACTORS.reduce((total, factor) => total + weights[factor], 0);
+  if (Math.abs(sum - 1) > WEIGHT_SUM_TOLERANCE) {
+    return { valid: false, errors: [`Weights must sum to 1 (got ${Math.round(sum * 10000) / 10000})`] };
+  }
+
+  return { valid: true, errors: [], weights };
+}
@@ -0,0 +1,134 @@
+// ===================================
+// File: src/lib/realtime/order-feed.ts
+// Live feed ของออเดอร์: ดึง event ใหม่จาก Order Event Log แล้วส่งต่อให้ผู้ฟัง (เช่น SSE ของ dashboard)
+// ===================================
+
+import { getOrderEventsSince, OrderEventType } from '../db/events';
+
+// อ่านจาก event log ที่ commit แล้ว จึงไม่ส่ง event ของ transaction ที่ rollback และใช้ได้แม้รันหลาย instance
+export const ORDER_FEED_EVENT_TYPES: OrderEventType[] = [
+  'order_created',
+  'order_status_changed',
+  'priority_recalculated'
+];
+
+export interface OrderFeedEvent {
+  event_id: string;
+  order_id: string;
+  event_type: string;
+  from_value: string | null;
+  to_value: string | null;
+  created_at: string;
+}
+
+export type OrderFeedListener = (events: OrderFeedEvent[]) => void;
+
+const POLL_INTERVAL_MS = 2000;
+const POLL_BATCH_SIZE = 1000;
+
+// transaction ที่ commit ช้ากว่าเวลาที่ event ถูกสร้าง อาจโผล่มาหลัง cursor ผ่านไปแล้ว จึงดูย้อนหลังเผื่อไว้
+const LOOKBACK_MS = 10000;
+
+interface FeedState {
+  listeners: Set<OrderFeedListener>;
+  timer: NodeJS.Timeout | undefined;
+  started_at: Date;
+  cursor: Date;
+  seen: Map<string, number>;   // event id -> created_at (กันส่งซ้ำในช่วงที่ดูย้อนหลัง)
+  catching_up: boolean;        // รอบก่อนได้เต็ม batch: อ่านต่อจาก cursor โดยไม่ดูย้อนหลัง
+  polling: boolean;
+}
+
+const globalForFeed = globalThis as unknown as {
+  orderFeed: FeedState | undefined;
+};
+
+function getFeedState(): FeedState {
+  if (!globalForFeed.orderFeed) {
+    globalForFeed.orderFeed = {
+      listeners: new Set(),
+      timer: undefined,
+      started_at: new Date(),
+      cursor: new Date(),
+      seen: new Map(),
+      catching_up: false,
+      polling: false
+    };
+  }
+  return globalForFeed.orderFeed;
+}
+
+// ดึงจากฐานข้อมูลเฉพาะตอนที่มีผู้ฟังอยู่ คืนฟังก์ชันสำหรับเลิกฟัง
+export function subscribeOrderFeed(listener: OrderFeedListener): () => void {
+  const state = getFeedState();
+  state.listeners.add(listener);
+
+  if (!state.timer) {
+    state.started_at = new Date();
+    state.cursor = state.started_at;
+    state.seen.clear();
+    state.catching_up = false;
+    state.timer = setInterval(() => {
+      pollOrderFeed(state).catch(error => {
+        console.error('Error polling order feed:', error);
+      });
+    }, POLL_INTERVAL_MS);
+  }
+
+  return () => {
+    state.listeners.delete(listener);
+    if (state.listeners.size === 0 && state.timer) {
+      clearInterval(state.timer);
+      state.timer = undefined;
+    }
+  };
+}
+
+async function pollOrderFeed(state: FeedState) {
+  // ป้องกันรอบใหม่เริ่มก่อนรอบเดิมเสร็จ
+  if (state.polling) {
+    return;
+  }
+
+  state.polling = true;
+  try {
+    const lookback = state.catching_up ? 0 : LOOKBACK_MS;
+    const since = new Date(Math.max(state.started_at.getTime(), state.cursor.getTime() - lookback));
+    const rows = await getOrderEventsSince(since, ORDER_FEED_EVENT_TYPES, POLL_BATCH_SIZE);
+    state.catching_up = rows.length === POLL_BATCH_SIZE;
+
+    const fresh = rows.filter(row => !state.seen.has(row.id));
+    for (const row of fresh) {
+      state.seen.set(row.id, row.created_at.getTime());
+      if (row.created_at > state.cursor) {
+        state.cursor = row.created_at;
+      }
+    }
+
+    const forgetBefore = state.cursor.getTime() - LOOKBACK_MS;
+    for (const [id, createdAt] of state.seen) {
+      if (createdAt < forgetBefore) {
+        state.seen.delete(id);
+      }
+    }
+
+    if (fresh.length === 0) {
+      return;
+    }
+
+    const events: OrderFeedEvent[] = fresh.map(row => ({
+      event_id: row.id,
+      order_id: row.order_id,
+      event_type: row.event_type,
+      from_value: row.from_value,
+      to_value: row.to_value,
+      created_at: row.created_at.toISOString()
+    }));
+
+    for (const listener of state.listeners) {
+      listener(events);
+    }
+  } finally {
+    state.polling = false;
+  }
+}
@@ -0,0 +1,35 @@
+// ===================================
+// File: src/lib/routing/geo.ts
+// Geo Helpers
+// ===================================
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+function toRadians(degrees: number): number {
+  return degrees * Math.PI / 180;
+}
+
+// ระยะทางเส้นตรงบนผิวโลก (กิโลเมตร)
+export function haversineKm(from: LatLng, to: LatLng): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+export function isValidLatLng(value: unknown): value is LatLng {
+  if (!value || typeof value !== 'object') return false;
+  const { latitude, longitude } = value as Record<string, unknown>;
+  return (
+    typeof latitude === 'number' && latitude >= -90 && latitude <= 90 &&
+    typeof longitude === 'number' && longitude >= -180 && longitude <= 180
+  );
+}
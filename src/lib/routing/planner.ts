@@ -0,0 +1,248 @@
+// ===================================
+// File: src/lib/routing/planner.ts
+// Route Planner (Traveling Salesman with Time Windows)
+// ===================================
+
+import { haversineKm, LatLng } from './geo';
+
+// ===================================
+// Types & Interfaces
+// ===================================
+
+export interface RouteStopInput {
+  order_id: string;
+  location: LatLng;
+  window_start: Date;
+  window_end: Date;
+  priority_score: number;
+  pinned_position?: number | null; // จาก override แบบ pin_rank
+}
+
+export interface RoutePlanOptions {
+  depot: LatLng;
+  start_time: Date;
+  average_speed_kmh: number;
+  service_minutes?: number;   // เวลาที่ใช้ส่งของแต่ละจุด
+  priority_weight?: number;   // 0 = สนใจแต่ระยะทาง, ยิ่งมากยิ่งส่งออเดอร์คะแนนสูงก่อน
+}
+
+export interface PlannedStop {
+  order_id: string;
+  sequence: number;
+  location: LatLng;
+  distance_from_previous_km: number;
+  travel_minutes: number;
+  arrival: Date;          // เวลาถึงจุดส่ง
+  service_start: Date;    // เวลาเริ่มส่ง (รอถ้ามาถึงก่อน window_start)
+  departure: Date;
+  wait_minutes: number;
+  lateness_minutes: number;
+  within_window: boolean;
+}
+
+export interface RoutePlan {
+  stops: PlannedStop[];
+  total_distance_km: number;
+  total_travel_minutes: number;
+  total_lateness_minutes: number;
+  late_stops: number;
+  planned_start: Date;
+  planned_end: Date;
+}
+
+// ความเร็วเฉลี่ยในเมือง (กม./ชม.) ตามประเภทรถ
+export const AVERAGE_SPEED_KMH: Record<string, number> = {
+  motorcycle: 30,
+  van: 25,
+  truck: 20
+};
+const DEFAULT_SPEED_KMH = 25;
+
+export const DEFAULT_SERVICE_MINUTES = 5;
+const DEFAULT_PRIORITY_WEIGHT = 0.5;
+
+// ส่งเลย window ถือว่าแย่กว่าขับอ้อมมาก
+const LATENESS_PENALTY_PER_MINUTE = 10;
+
+// ลำดับที่พนักงาน pin ไว้ต้องมาก่อนระยะทางเสมอ
+const PIN_PENALTY_PER_POSITION = 10000;
+
+const MAX_IMPROVEMENT_PASSES = 50;
+
+// การปรับปรุงเส้นทางใช้เวลา O(n³) ต่อรอบบน request thread (~0.3 วินาทีที่ 50 จุด)
+export const MAX_ROUTE_STOPS = 50;
+
+export function getAverageSpeedKmh(vehicleType: string): number {
+  return AVERAGE_SPEED_KMH[vehicleType] ?? DEFAULT_SPEED_KMH;
+}
+
+// ===================================
+// Route Planner
+// ===================================
+
+export class RoutePlanner {
+  private serviceMinutes: number;
+  private priorityWeight: number;
+
+  constructor(private options: RoutePlanOptions) {
+    this.serviceMinutes = options.service_minutes ?? DEFAULT_SERVICE_MINUTES;
+    this.priorityWeight = options.priority_weight ?? DEFAULT_PRIORITY_WEIGHT;
+  }
+
+  plan(stops: RouteStopInput[]): RoutePlan {
+    if (stops.length === 0) {
+      return this.simulate([]);
+    }
+
+    const sequence = this.improve(this.construct(stops));
+    return this.simulate(sequence);
+  }
+
+  // 1. Cheapest insertion: แทรกทีละจุด (คะแนนสูงก่อน) ในตำแหน่งที่ต้นทุนรวมต่ำสุด
+  private construct(stops: RouteStopInput[]): RouteStopInput[] {
+    const byPriority = [...stops].sort((a, b) =>
+      b.priority_score - a.priority_score ||
+      a.window_end.getTime() - b.window_end.getTime()
+    );
+
+    let sequence: RouteStopInput[] = [];
+    for (const stop of byPriority) {
+      let best: RouteStopInput[] | null = null;
+      let bestCost = Infinity;
+
+      for (let position = 0; position <= sequence.length; position++) {
+        const candidate = [...sequence.slice(0, position), stop, ...sequence.slice(position)];
+        const cost = this.cost(candidate);
+        if (cost < bestCost) {
+          best = candidate;
+          bestCost = cost;
+        }
+      }
+
+      sequence = best ?? [...sequence, stop];
+    }
+
+    return sequence;
+  }
+
+  // 2. Local search: 2-opt (กลับลำดับช่วง) และ relocate (ย้ายจุดเดียว)
+  private improve(sequence: RouteStopInput[]): RouteStopInput[] {
+    let current = sequence;
+    let currentCost = this.cost(current);
+
+    for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+      let improved = false;
+
+      for (let i = 0; i < current.length - 1; i++) {
+        for (let j = i + 1; j < current.length; j++) {
+          const reversed = [
+            ...current.slice(0, i),
+            ...current.slice(i, j + 1).reverse(),
+            ...current.slice(j + 1)
+          ];
+          const reversedCost = this.cost(reversed);
+          if (reversedCost < currentCost) {
+            current = reversed;
+            currentCost = reversedCost;
+            improved = true;
+          }
+        }
+      }
+
+      for (let from = 0; from < current.length; from++) {
+        for (let to = 0; to < current.length; to++) {
+          if (from === to) continue;
+          const moved = [...current];
+          const [stop] = moved.splice(from, 1);
+          moved.splice(to, 0, stop);
+          const movedCost = this.cost(moved);
+          if (movedCost < currentCost) {
+            current = moved;
+            currentCost = movedCost;
+            improved = true;
+          }
+        }
+      }
+
+      if (!improved) break;
+    }
+
+    return current;
+  }
+
+  // ต้นทุน = เวลาเดินทาง + ค่าปรับส่งสาย + (คะแนน priority × เวลาที่ต้องรอก่อนได้รับของ) + ค่าปรับผิดลำดับที่ pin
+  private cost(sequence: RouteStopInput[]): number {
+    const plan = this.simulate(sequence);
+    const startTime = this.options.start_time.getTime();
+
+    const priorityDelay = plan.stops.reduce((sum, stop, index) => {
+      const minutesFromStart = (stop.service_start.getTime() - startTime) / (1000 * 60);
+      return sum + (sequence[index].priority_score / 100) * minutesFromStart;
+    }, 0);
+
+    const pinDisplacement = sequence.reduce((sum, stop, index) => {
+      if (!stop.pinned_position) return sum;
+      const target = Math.min(stop.pinned_position, sequence.length);
+      return sum + Math.abs(index + 1 - target);
+    }, 0);
+
+    return (
+      plan.total_travel_minutes +
+      plan.total_lateness_minutes * LATENESS_PENALTY_PER_MINUTE +
+      priorityDelay * this.priorityWeight +
+      pinDisplacement * PIN_PENALTY_PER_POSITION
+    );
+  }
+
+  private simulate(sequence: RouteStopInput[]): RoutePlan {
+    const stops: PlannedStop[] = [];
+    let position = this.options.depot;
+    let clock = this.options.start_time.getTime();
+    let totalDistance = 0;
+    let totalTravel = 0;
+    let totalLateness = 0;
+
+    sequence.forEach((stop, index) => {
+      const distance = haversineKm(position, stop.location);
+      const travelMinutes = (distance / this.options.average_speed_kmh) * 60;
+      const arrival = clock + travelMinutes * 60 * 1000;
+      const serviceStart = Math.max(arrival, stop.window_start.getTime());
+      const lateness = Math.max(0, (serviceStart - stop.window_end.getTime()) / (1000 * 60));
+      const departure = serviceStart + this.serviceMinutes * 60 * 1000;
+
+      stops.push({
+        order_id: stop.order_id,
+        sequence: index + 1,
+        location: stop.location,
+        distance_from_previous_km: round(distance),
+        travel_minutes: round(travelMinutes),
+        arrival: new Date(arrival),
+        service_start: new Date(serviceStart),
+        departure: new Date(departure),
+        wait_minutes: round((serviceStart - arrival) / (1000 * 60)),
+        lateness_minutes: round(lateness),
+        within_window: lateness === 0
+      });
+
+      position = stop.location;
+      clock = departure;
+      totalDistance += distance;
+      totalTravel += travelMinutes;
+      totalLateness += lateness;
+    });
+
+    return {
+      stops,
+      total_distance_km: round(totalDistance),
+      total_travel_minutes: round(totalTravel),
+      total_lateness_minutes: round(totalLateness),
+      late_stops: stops.filter(stop => !stop.within_window).length,
+      planned_start: this.options.start_time,
+      planned_end: new Date(clock)
+    };
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
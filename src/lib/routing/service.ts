@@ -0,0 +1,108 @@
+// ===================================
+// File: src/lib/routing/service.ts
+// วางแผนเส้นทางให้รถหนึ่งคันและบันทึกเป็น Route
+// ===================================
+
+import { createRouteWithStops, getOrdersByIds, getVehicleById } from '../db/queries';
+import { getDayRange } from '../dates';
+import { AppError, NotFoundError } from '../errors';
+import { getActivePriorityWeights } from '../priority/config';
+import { OrderPriorityCalculator } from '../priority/engine';
+import { toPriorityInput } from '../priority/recompute';
+import { LatLng } from './geo';
+import { getAverageSpeedKmh, RoutePlan, RoutePlanner, RouteStopInput } from './planner';
+
+export interface PlanRouteInput {
+  vehicle_id: string;
+  driver_id?: string;     // ไม่ระบุ = ใช้คนขับประจำรถ
+  depot: LatLng;
+  order_ids: string[];
+  start_time?: Date;
+  priority_weight?: number;
+  persist?: boolean;      // false = ดูแผนอย่างเดียว ไม่บันทึก
+}
+
+export interface PlanRouteResult {
+  route_id: string | null;
+  vehicle_id: string;
+  driver_id: string;
+  plan: RoutePlan;
+}
+
+const ROUTABLE_STATUSES = ['pending', 'assigned'];
+
+export async function planRoute(input: PlanRouteInput): Promise<PlanRouteResult> {
+  const vehicle = await getVehicleById(input.vehicle_id);
+  if (!vehicle) {
+    throw new NotFoundError('Vehicle not found');
+  }
+
+  const driverId = input.driver_id ?? vehicle.driver_id;
+  if (!driverId) {
+    throw new AppError('driver_id required: vehicle has no assigned driver');
+  }
+
+  const orders = await getOrdersByIds(input.order_ids);
+  const missing = input.order_ids.filter(id => !orders.some(order => order.id === id));
+  if (missing.length > 0) {
+    throw new NotFoundError('Orders not found', { order_ids: missing });
+  }
+
+  const notRoutable = orders.filter(order => !ROUTABLE_STATUSES.includes(order.order_status));
+  if (notRoutable.length > 0) {
+    throw new AppError('Orders are not pending or assigned', 400, {
+      order_ids: notRoutable.map(order => order.id)
+    });
+  }
+
+  const startTime = input.start_time ?? new Date();
+
+  // ใช้คะแนน ณ เวลาออกรถ เพื่อให้สะท้อนความเร่งด่วนจริงตอนส่ง
+  const config = await getActivePriorityWeights();
+  const calculator = new OrderPriorityCalculator(config.weights);
+  const stops: RouteStopInput[] = orders.map(order => {
+    const priority = calculator.calculateOrderPriority(toPriorityInput(order), startTime);
+    return {
+      order_id: order.id,
+      location: {
+        latitude: order.delivery_latitude,
+        longitude: order.delivery_longitude
+      },
+      window_start: order.delivery_window_start,
+      window_end: order.delivery_window_end,
+      priority_score: priority.priority_score,
+      pinned_position: priority.pinned_rank
+    };
+  });
+
+  const planner = new RoutePlanner({
+    depot: input.depot,
+    start_time: startTime,
+    average_speed_kmh: getAverageSpeedKmh(vehicle.vehicle_type),
+    priority_weight: input.priority_weight
+  });
+  const plan = planner.plan(stops);
+
+  if (input.persist === false) {
+    return { route_id: null, vehicle_id: vehicle.id, driver_id: driverId, plan };
+  }
+
+  const route = await createRouteWithStops({
+    vehicle_id: vehicle.id,
+    driver_id: driverId,
+    route_date: getDayRange(startTime).start,
+    depot_latitude: input.depot.latitude,
+    depot_longitude: input.depot.longitude,
+    planned_start: plan.planned_start,
+    planned_end: plan.planned_end,
+    total_distance_km: plan.total_distance_km,
+    total_travel_minutes: plan.total_travel_minutes,
+    stops: plan.stops.map(stop => ({
+      order_id: stop.order_id,
+      stop_sequence: stop.sequence,
+      planned_arrival: stop.service_start
+    }))
+  });
+
+  return { route_id: route.id, vehicle_id: vehicle.id, driver_id: driverId, plan };
+}
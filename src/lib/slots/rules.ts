@@ -0,0 +1,90 @@
+// ===================================
+// File: src/lib/slots/rules.ts
+// ช่วงเวลาส่งที่จองได้: สร้าง slot ของแต่ละวัน, คำนวณ capacity และเลือก slot ที่เหมาะกับตะกร้า
+// ===================================
+
+import { parseTimeOfDay, WEEKDAYS, ZoneRules } from '../zones/rules';
+
+export interface SlotWindow {
+  window_start: Date;
+  window_end: Date;
+}
+
+// โซนที่ไม่ได้กำหนด delivery_windows แบ่งเวลาทำการเป็นช่วงละเท่านี้
+const DEFAULT_SLOT_MINUTES = 120;
+
+// จุดส่งเฉลี่ยต่อรถหนึ่งคันต่อชั่วโมง (รวมเวลาเดินทางระหว่างจุด)
+const STOPS_PER_VEHICLE_HOUR = 3;
+
+// ต้องมีเวลาเตรียมของและจัดรถก่อน slot เริ่ม
+export const SLOT_BOOKING_LEAD_MINUTES = 60;
+
+const TEMPERATURE_SENSITIVE = ['hot', 'frozen'];
+
+// slot ของวันหนึ่งตามกฎของโซน (วันที่โซนปิดคืน [])
+export function buildDaySlots(rules: ZoneRules, date: Date): SlotWindow[] {
+  const hours = rules.operating_hours[WEEKDAYS[date.getDay()]];
+  if (!hours) return [];
+
+  const open = parseTimeOfDay(hours.open)!;
+  const close = parseTimeOfDay(hours.close)!;
+
+  const ranges: [number, number][] = rules.delivery_windows
+    ? rules.delivery_windows
+      .map(window => [parseTimeOfDay(window.start)!, parseTimeOfDay(window.end)!] as [number, number])
+      .filter(([start, end]) => start >= open && end <= close)
+    : splitRange(open, close, DEFAULT_SLOT_MINUTES);
+
+  return ranges.map(([start, end]) => ({
+    window_start: atMinutes(date, start),
+    window_end: atMinutes(date, end)
+  }));
+}
+
+// รถ/คนขับไม่ได้ผูกกับโซน จึงแบ่งกำลังส่งทั้งหมดให้ทุกโซนที่เปิดอยู่เท่า ๆ กัน
+export function deriveSlotCapacity(input: {
+  fleet_size: number;
+  active_zone_count: number;
+  slot_minutes: number;
+}): number {
+  const stops = input.fleet_size * STOPS_PER_VEHICLE_HOUR * (input.slot_minutes / 60);
+  return Math.max(0, Math.floor(stops / Math.max(1, input.active_zone_count)));
+}
+
+// ตะกร้าที่มีของร้อน/แช่แข็ง รับได้เฉพาะ slot ที่สั้นกว่าอายุของชิ้นที่หมดเร็วที่สุด (null = ไม่จำกัด)
+export function getMaxSlotMinutes(products: {
+  temperature_requirement: string;
+  typical_expiration_hours: number;
+}[]): number | null {
+  const limits = products
+    .filter(product => TEMPERATURE_SENSITIVE.includes(product.temperature_requirement.trim().toLowerCase()))
+    .map(product => product.typical_expiration_hours * 60);
+
+  return limits.length > 0 ? Math.min(...limits) : null;
+}
+
+export function slotMinutes(slot: SlotWindow): number {
+  return (slot.window_end.getTime() - slot.window_start.getTime()) / (1000 * 60);
+}
+
+// slot ที่ยังจองได้สำหรับตะกร้านี้ ณ เวลานี้ (ไม่รวมการตรวจที่ว่าง)
+export function isSlotBookable(slot: SlotWindow, maxSlotMinutes: number | null, now: Date): boolean {
+  if (slot.window_start.getTime() < now.getTime() + SLOT_BOOKING_LEAD_MINUTES * 60 * 1000) {
+    return false;
+  }
+  return maxSlotMinutes === null || slotMinutes(slot) <= maxSlotMinutes;
+}
+
+function splitRange(start: number, end: number, length: number): [number, number][] {
+  const ranges: [number, number][] = [];
+  for (let from = start; from < end; from += length) {
+    ranges.push([from, Math.min(from + length, end)]);
+  }
+  return ranges;
+}
+
+function atMinutes(date: Date, minutes: number): Date {
+  const result = new Date(date);
+  result.setHours(0, minutes, 0, 0);
+  return result;
+}
@@ -0,0 +1,177 @@
+// ===================================
+// File: src/lib/slots/service.ts
+// Slot Service: สร้าง slot ของโซน และค้นหา slot ที่จองได้สำหรับที่อยู่และตะกร้า
+// ===================================
+
+import {
+  createDeliverySlots,
+  getActiveDeliveryZones,
+  getDeliverySlots,
+  getDeliveryZoneById,
+  getFleetSize,
+  getProductsByIds
+} from '../db/queries';
+import { resolveAddress } from '../address/service';
+import { AddressInput } from '../address/provider';
+import { getDayRange } from '../dates';
+import { NotFoundError, ValidationError } from '../errors';
+import { OrderIntakeItem, parseOrderItems } from '../orders/intake';
+import { LatLng } from '../routing/geo';
+import { FieldValidator } from '../validation';
+import { findZoneForLocation, getZoneRules } from '../zones/service';
+import { buildDaySlots, deriveSlotCapacity, getMaxSlotMinutes, isSlotBookable, SlotWindow, slotMinutes } from './rules';
+
+export interface SlotQueryInput {
+  location: LatLng | null;
+  address: AddressInput | null;   // ใช้หาพิกัดเมื่อไม่ได้ส่งพิกัดมา
+  items: OrderIntakeItem[];
+  date: Date;
+  days: number;
+}
+
+const MAX_SLOT_DAYS = 7;
+const DEFAULT_SLOT_DAYS = 3;
+
+type Zone = Parameters<typeof getZoneRules>[0] & { id: string };
+
+export function parseSlotQuery(body: unknown): SlotQueryInput {
+  const validator = new FieldValidator();
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  let location: LatLng | null = null;
+  let address: AddressInput | null = null;
+  if (input.latitude !== undefined || input.longitude !== undefined) {
+    const latitude = validator.requireNumber('latitude', input.latitude, { min: -90, max: 90 });
+    const longitude = validator.requireNumber('longitude', input.longitude, { min: -180, max: 180 });
+    if (latitude !== undefined && longitude !== undefined) {
+      location = { latitude, longitude };
+    }
+  } else {
+    const district = validator.requireString('district', input.district, 100);
+    const city = validator.requireString('city', input.city, 100);
+    address = {
+      address_line1: validator.optionalString('address_line1', input.address_line1) ?? '',
+      district: district ?? '',
+      city: city ?? '',
+      postal_code: validator.optionalString('postal_code', input.postal_code, 10)
+    };
+  }
+
+  const items = parseOrderItems(validator, input.items);
+  const date = input.date === undefined ? new Date() : validator.requireDate('date', input.date);
+  const days = input.days === undefined
+    ? DEFAULT_SLOT_DAYS
+    : validator.requireNumber('days', input.days, { min: 1, max: MAX_SLOT_DAYS, integer: true });
+
+  validator.throwIfInvalid();
+
+  return { location, address, items, date: date!, days: days! };
+}
+
+// สร้าง slot ที่ยังไม่มีของแต่ละวันตามกฎของโซน (capacity คำนวณจากกำลังส่ง ณ ตอนสร้าง)
+export async function ensureZoneSlots(zone: Zone, start: Date, days: number) {
+  const [fleetSize, activeZones] = await Promise.all([getFleetSize(), getActiveDeliveryZones()]);
+  const rules = getZoneRules(zone);
+
+  const slots = [];
+  for (let offset = 0; offset < days; offset++) {
+    const slotDate = new Date(start);
+    slotDate.setDate(slotDate.getDate() + offset);
+
+    for (const window of buildDaySlots(rules, slotDate)) {
+      slots.push({
+        zone_id: zone.id,
+        slot_date: slotDate,
+        ...window,
+        capacity: deriveSlotCapacity({
+          fleet_size: fleetSize,
+          active_zone_count: activeZones.length,
+          slot_minutes: slotMinutes(window)
+        })
+      });
+    }
+  }
+
+  if (slots.length > 0) {
+    await createDeliverySlots(slots);
+  }
+}
+
+// slot ของโซนที่ครอบ window ที่ขอ (สร้าง slot ของวันนั้นก่อนถ้ายังไม่มี) — null = ไม่มี slot ไหนครอบ
+export async function findSlotForWindow(zoneId: string, window: SlotWindow) {
+  const zone = await getDeliveryZoneById(zoneId);
+  if (!zone) {
+    throw new NotFoundError('Delivery zone not found');
+  }
+
+  const { start, end } = getDayRange(window.window_start);
+  await ensureZoneSlots(zone, start, 1);
+  const slots = await getDeliverySlots(zone.id, start, end);
+
+  return slots.find(slot =>
+    slot.window_start.getTime() <= window.window_start.getTime() &&
+    slot.window_end.getTime() >= window.window_end.getTime()
+  ) ?? null;
+}
+
+export async function getAvailableSlots(input: SlotQueryInput, now: Date = new Date()) {
+  const location = input.location ?? await resolveAddress(input.address!);
+  if (!location) {
+    throw new ValidationError([
+      { field: 'district', message: 'address could not be located; provide latitude and longitude' }
+    ]);
+  }
+
+  const zone = await findZoneForLocation(location);
+  if (!zone) {
+    return { in_service_area: false, zone: null, slots: [] };
+  }
+
+  const products = await getBasketProducts(input.items);
+  const orderValue = input.items.reduce((sum, item) => {
+    const product = products.find(p => p.id === item.product_id)!;
+    return sum + product.base_price * item.quantity;
+  }, 0);
+  const maxSlotMinutes = getMaxSlotMinutes(products);
+
+  const { start } = getDayRange(input.date);
+  const end = new Date(start);
+  end.setDate(end.getDate() + input.days);
+
+  await ensureZoneSlots(zone, start, input.days);
+  const slots = await getDeliverySlots(zone.id, start, end);
+
+  return {
+    in_service_area: true,
+    zone: { id: zone.id, name: zone.name },
+    order_value: Math.round(orderValue * 100) / 100,
+    min_order_value: zone.min_order_value,
+    meets_minimum: orderValue >= zone.min_order_value,
+    max_slot_minutes: maxSlotMinutes,
+    slots: slots
+      .filter(slot => slot.reserved_count < slot.capacity && isSlotBookable(slot, maxSlotMinutes, now))
+      .map(slot => ({
+        slot_id: slot.id,
+        window_start: slot.window_start,
+        window_end: slot.window_end,
+        remaining: slot.capacity - slot.reserved_count
+      }))
+  };
+}
+
+async function getBasketProducts(items: OrderIntakeItem[]) {
+  const products = await getProductsByIds([...new Set(items.map(item => item.product_id))]);
+
+  const validator = new FieldValidator();
+  items.forEach((item, index) => {
+    const product = products.find(p => p.id === item.product_id);
+    if (!product) {
+      validator.add(`items[${index}].product_id`, 'product not found');
+    } else if (!product.is_active) {
+      validator.add(`items[${index}].product_id`, 'product is not active');
+    }
+  });
+  validator.throwIfInvalid();
+
+  return products;
+}
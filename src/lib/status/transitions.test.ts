@@ -0,0 +1,74 @@
+// ===================================
+// File: src/lib/status/transitions.test.ts
+// State machine ของ Order/Delivery ต้องตรงกับที่กำหนดไว้
+// ===================================
+
+import { describe, expect, it } from 'vitest';
+import {
+  calculateDelayMinutes,
+  canTransitionDelivery,
+  canTransitionOrder,
+  getDeliveryTimestamps,
+  ORDER_STATUSES,
+  ORDER_TRANSITIONS
+} from './transitions';
+
+describe('ORDER_TRANSITIONS', () => {
+  it('เดินตาม pending → assigned → in_transit → delivered/failed', () => {
+    expect(canTransitionOrder('pending', 'assigned')).toBe(true);
+    expect(canTransitionOrder('assigned', 'in_transit')).toBe(true);
+    expect(canTransitionOrder('in_transit', 'delivered')).toBe(true);
+    expect(canTransitionOrder('in_transit', 'failed')).toBe(true);
+  });
+
+  it('ยกเลิกได้ก่อนจ่ายงานและหลังส่งไม่สำเร็จ', () => {
+    expect(canTransitionOrder('pending', 'cancelled')).toBe(true);
+    expect(canTransitionOrder('failed', 'cancelled')).toBe(true);
+    expect(canTransitionOrder('in_transit', 'cancelled')).toBe(false);
+  });
+
+  it('ไม่ให้ข้ามขั้นหรือย้อนจากสถานะจบ', () => {
+    expect(canTransitionOrder('pending', 'failed')).toBe(false);
+    expect(canTransitionOrder('pending', 'delivered')).toBe(false);
+    expect(canTransitionOrder('delivered', 'pending')).toBe(false);
+    expect(ORDER_TRANSITIONS.delivered).toEqual([]);
+    expect(ORDER_TRANSITIONS.cancelled).toEqual([]);
+  });
+
+  it('ไม่รับสถานะที่ไม่รู้จัก', () => {
+    expect(ORDER_STATUSES).not.toContain('unknown');
+    expect(canTransitionOrder('unknown', 'assigned')).toBe(false);
+  });
+});
+
+describe('DELIVERY_TRANSITIONS', () => {
+  it('ข้าม picked_up ได้ แต่ย้อนจาก delivered ไม่ได้', () => {
+    expect(canTransitionDelivery('pending', 'in_transit')).toBe(true);
+    expect(canTransitionDelivery('delivered', 'in_transit')).toBe(false);
+  });
+});
+
+describe('getDeliveryTimestamps', () => {
+  const plannedArrival = new Date('2025-01-15T10:00:00Z');
+
+  it('บันทึกเวลารับของครั้งแรกเท่านั้น', () => {
+    const at = new Date('2025-01-15T09:00:00Z');
+    expect(getDeliveryTimestamps({ pickup_time: null, actual_arrival: null, planned_arrival: null }, 'in_transit', at))
+      .toEqual({ pickup_time: at });
+    expect(getDeliveryTimestamps({ pickup_time: at, actual_arrival: null, planned_arrival: null }, 'in_transit', at))
+      .toEqual({});
+  });
+
+  it('คำนวณ delay_minutes จาก planned_arrival เมื่อส่งสำเร็จ', () => {
+    const at = new Date('2025-01-15T10:20:00Z');
+    const timestamps = getDeliveryTimestamps(
+      { pickup_time: null, actual_arrival: new Date('2025-01-15T10:12:00Z'), planned_arrival: plannedArrival },
+      'delivered',
+      at
+    );
+
+    expect(timestamps.delivery_time).toEqual(at);
+    expect(timestamps.delay_minutes).toBe(12);
+    expect(calculateDelayMinutes(plannedArrival, new Date('2025-01-15T09:50:00Z'))).toBe(0);
+  });
+});
@@ -0,0 +1,120 @@
+// ===================================
+// File: src/lib/status/transitions.ts
+// State Machines ของ Order และ Delivery
+// ===================================
+
+import { AppError } from '../errors';
+
+export const ORDER_STATUSES = ['pending', 'assigned', 'in_transit', 'delivered', 'failed', 'cancelled'] as const;
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+export const DELIVERY_STATUSES = ['pending', 'picked_up', 'in_transit', 'delivered', 'failed'] as const;
+export type DeliveryStatus = typeof DELIVERY_STATUSES[number];
+
+// pending → assigned → in_transit → delivered/failed
+// pending → cancelled (ยกเลิกก่อนจ่ายงาน)
+// failed → pending (นัดส่งใหม่) หรือ cancelled (ยกเลิกและคืนเงิน)
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['assigned', 'cancelled'],
+  assigned: ['pending', 'in_transit', 'failed'], // assigned → pending = ยกเลิกการจ่ายงาน
+  in_transit: ['delivered', 'failed'],
+  delivered: [],
+  failed: ['pending', 'cancelled'],
+  cancelled: []
+};
+
+// pending → picked_up → in_transit → delivered/failed (ข้าม picked_up ได้)
+export const DELIVERY_TRANSITIONS: Record<DeliveryStatus, DeliveryStatus[]> = {
+  pending: ['picked_up', 'in_transit', 'failed'],
+  picked_up: ['in_transit', 'delivered', 'failed'],
+  in_transit: ['delivered', 'failed'],
+  delivered: [],
+  failed: []
+};
+
+// สถานะ order ที่ต้องเป็นเมื่อ delivery เปลี่ยนสถานะ
+export const ORDER_STATUS_FOR_DELIVERY: Partial<Record<DeliveryStatus, OrderStatus>> = {
+  picked_up: 'in_transit',
+  in_transit: 'in_transit',
+  delivered: 'delivered',
+  failed: 'failed'
+};
+
+// สถานะ delivery ที่ต้องเป็นเมื่อ order ถูกเปลี่ยนสถานะโดยตรง
+export const DELIVERY_STATUS_FOR_ORDER: Partial<Record<OrderStatus, DeliveryStatus>> = {
+  in_transit: 'in_transit',
+  delivered: 'delivered',
+  failed: 'failed'
+};
+
+export class InvalidStatusTransitionError extends AppError {
+  constructor(entity: 'order' | 'delivery', from: string, to: string) {
+    super(`Cannot change ${entity} status from ${from} to ${to}`, 409, { from, to });
+    this.name = 'InvalidStatusTransitionError';
+  }
+}
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return ORDER_STATUSES.includes(value as OrderStatus);
+}
+
+export function isDeliveryStatus(value: unknown): value is DeliveryStatus {
+  return DELIVERY_STATUSES.includes(value as DeliveryStatus);
+}
+
+export function canTransitionOrder(from: string, to: OrderStatus): boolean {
+  return isOrderStatus(from) && ORDER_TRANSITIONS[from].includes(to);
+}
+
+export function canTransitionDelivery(from: string, to: DeliveryStatus): boolean {
+  return isDeliveryStatus(from) && DELIVERY_TRANSITIONS[from].includes(to);
+}
+
+export function assertOrderTransition(from: string, to: OrderStatus) {
+  if (!canTransitionOrder(from, to)) {
+    throw new InvalidStatusTransitionError('order', from, to);
+  }
+}
+
+export function assertDeliveryTransition(from: string, to: DeliveryStatus) {
+  if (!canTransitionDelivery(from, to)) {
+    throw new InvalidStatusTransitionError('delivery', from, to);
+  }
+}
+
+export interface DeliveryTimestamps {
+  pickup_time?: Date;
+  delivery_time?: Date;
+  actual_arrival?: Date;
+  delay_minutes?: number;
+}
+
+// เวลาที่ต้องบันทึกอัตโนมัติเมื่อ delivery เข้าสู่สถานะใหม่
+export function getDeliveryTimestamps(
+  current: { pickup_time: Date | null; actual_arrival: Date | null; planned_arrival: Date | null },
+  to: DeliveryStatus,
+  at: Date,
+  overrides: { actual_arrival?: Date } = {}
+): DeliveryTimestamps {
+  const timestamps: DeliveryTimestamps = {};
+
+  if ((to === 'picked_up' || to === 'in_transit') && !current.pickup_time) {
+    timestamps.pickup_time = at;
+  }
+
+  if (to === 'delivered') {
+    const arrival = overrides.actual_arrival ?? current.actual_arrival ?? at;
+    timestamps.delivery_time = at;
+    timestamps.actual_arrival = arrival;
+    if (current.planned_arrival) {
+      timestamps.delay_minutes = calculateDelayMinutes(current.planned_arrival, arrival);
+    }
+  }
+
+  return timestamps;
+}
+
+// นาทีที่มาถึงช้ากว่าแผน (มาก่อนเวลา = 0)
+export function calculateDelayMinutes(plannedArrival: Date, actualArrival: Date): number {
+  return Math.max(0, Math.round((actualArrival.getTime() - plannedArrival.getTime()) / (1000 * 60)));
+}
@@ -0,0 +1,59 @@
+// ===================================
+// File: src/lib/telemetry/rules.ts
+// ช่วงอุณหภูมิที่สินค้าแต่ละแบบต้องการ และการตรวจ reading ว่าหลุดช่วงหรือไม่
+// ===================================
+
+import { TemperatureLevel } from '../priority/engine';
+
+export interface TemperatureRange {
+  min_c: number | null;
+  max_c: number | null;
+}
+
+// ตรงกับ label ใน TEMPERATURE_REQUIREMENTS ของ priority engine
+export const TEMPERATURE_RANGES: Record<TemperatureLevel, TemperatureRange> = {
+  hot: { min_c: 60, max_c: null },
+  frozen: { min_c: null, max_c: -18 },
+  chilled: { min_c: 0, max_c: 4 },
+  cool: { min_c: 15, max_c: 20 },
+  ambient: { min_c: null, max_c: null }
+};
+
+export interface ReadingEvaluation {
+  range: TemperatureRange | null; // null = ไม่มีสินค้าที่ต้องคุมอุณหภูมิในช่องนี้
+  is_breach: boolean;
+  deviation_c: number;            // ห่างจากขอบช่วงกี่องศา (0 = อยู่ในช่วง)
+}
+
+// ช่วงที่ต้องรักษาในช่อง = ส่วนที่ซ้อนกันของช่วงของสินค้าทุกชิ้นที่อยู่ในช่องนั้น
+export function getRequiredRange(requirements: string[]): TemperatureRange | null {
+  const ranges = requirements
+    .map(requirement => TEMPERATURE_RANGES[requirement.trim().toLowerCase() as TemperatureLevel])
+    .filter((range): range is TemperatureRange => range !== undefined);
+
+  if (ranges.length === 0) return null;
+
+  const mins = ranges.map(range => range.min_c).filter((value): value is number => value !== null);
+  const maxes = ranges.map(range => range.max_c).filter((value): value is number => value !== null);
+
+  return {
+    min_c: mins.length > 0 ? Math.max(...mins) : null,
+    max_c: maxes.length > 0 ? Math.min(...maxes) : null
+  };
+}
+
+export function evaluateReading(temperatureC: number, range: TemperatureRange | null): ReadingEvaluation {
+  if (!range) {
+    return { range: null, is_breach: false, deviation_c: 0 };
+  }
+
+  const below = range.min_c !== null ? Math.max(0, range.min_c - temperatureC) : 0;
+  const above = range.max_c !== null ? Math.max(0, temperatureC - range.max_c) : 0;
+  const deviation = Math.max(below, above);
+
+  return {
+    range,
+    is_breach: deviation > 0,
+    deviation_c: Math.round(deviation * 100) / 100
+  };
+}
@@ -0,0 +1,145 @@
+// ===================================
+// File: src/lib/telemetry/service.ts
+// รับอุณหภูมิจากรถ ตรวจกับสินค้าที่อยู่ในช่อง และบันทึก breach
+// ===================================
+
+import { getVehicleById, getVehicleLoadBetween, recordTemperatureReading } from '../db/queries';
+import { NotFoundError, ValidationError } from '../errors';
+import { getRequiredZones, parseTemperatureZones, ZONED_TEMPERATURES } from '../dispatch/zones';
+import { TemperatureLevel } from '../priority/engine';
+import { FieldValidator } from '../validation';
+import { evaluateReading, getRequiredRange } from './rules';
+
+export interface TemperatureReadingInput {
+  zone: TemperatureLevel;
+  temperature_c: number;
+  recorded_at: Date;
+}
+
+export interface TemperatureIngestInput {
+  vehicle_id: string;
+  readings: TemperatureReadingInput[];
+}
+
+const MAX_READINGS_PER_REQUEST = 500;
+
+export function parseTemperatureIngest(body: unknown): TemperatureIngestInput {
+  const validator = new FieldValidator();
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  const vehicleId = validator.requireString('vehicle_id', input.vehicle_id, 100);
+
+  const readings: TemperatureReadingInput[] = [];
+  if (!Array.isArray(input.readings) || input.readings.length === 0) {
+    validator.add('readings', 'must be a non-empty array');
+  } else if (input.readings.length > MAX_READINGS_PER_REQUEST) {
+    validator.add('readings', `must have at most ${MAX_READINGS_PER_REQUEST} entries`);
+  } else {
+    input.readings.forEach((raw, index) => {
+      const reading = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+      const zone = validator.requireOneOf(`readings[${index}].zone`, reading.zone, ZONED_TEMPERATURES);
+      const temperature = validator.requireNumber(`readings[${index}].temperature_c`, reading.temperature_c, {
+        min: -60,
+        max: 150
+      });
+      const recordedAt = validator.requireDate(`readings[${index}].recorded_at`, reading.recorded_at);
+      if (zone && temperature !== undefined && recordedAt) {
+        readings.push({ zone, temperature_c: temperature, recorded_at: recordedAt });
+      }
+    });
+  }
+
+  validator.throwIfInvalid();
+
+  return { vehicle_id: vehicleId!, readings };
+}
+
+// reading ถูกประมวลผลตามลำดับเวลา เพื่อให้ breach เปิด/ปิดถูกช่วง
+export async function ingestTemperatureReadings(input: TemperatureIngestInput) {
+  const vehicle = await getVehicleById(input.vehicle_id);
+  if (!vehicle) {
+    throw new NotFoundError('Vehicle not found');
+  }
+
+  const vehicleZones = parseTemperatureZones(vehicle.temperature_zones);
+  const unknownZones = input.readings
+    .map((reading, index) => ({ reading, index }))
+    .filter(({ reading }) => !vehicleZones.includes(reading.zone));
+  if (unknownZones.length > 0) {
+    throw new ValidationError(unknownZones.map(({ reading, index }) => ({
+      field: `readings[${index}].zone`,
+      message: `vehicle has no ${reading.zone} zone`
+    })));
+  }
+
+  const sorted = [...input.readings].sort((a, b) => a.recorded_at.getTime() - b.recorded_at.getTime());
+  const load = await getVehicleLoadBetween(
+    vehicle.id,
+    sorted[0].recorded_at,
+    sorted[sorted.length - 1].recorded_at
+  );
+  const results = [];
+
+  for (const reading of sorted) {
+    // reading ที่ส่งย้อนหลังตรวจกับของที่อยู่บนรถ ณ เวลานั้น ไม่ใช่ของบนรถตอนนี้
+    const onBoard = load.filter(delivery =>
+      delivery.pickup_time! <= reading.recorded_at &&
+      (!delivery.unloaded_at || delivery.unloaded_at > reading.recorded_at)
+    );
+    const zoneLoad = getZoneLoad(onBoard).get(reading.zone);
+    const range = zoneLoad ? getRequiredRange(zoneLoad.requirements) : null;
+    const evaluation = evaluateReading(reading.temperature_c, range);
+
+    const { breach } = await recordTemperatureReading(
+      {
+        vehicle_id: vehicle.id,
+        zone: reading.zone,
+        temperature_c: reading.temperature_c,
+        recorded_at: reading.recorded_at,
+        required_min_c: range?.min_c ?? null,
+        required_max_c: range?.max_c ?? null,
+        is_breach: evaluation.is_breach,
+        deviation_c: evaluation.deviation_c
+      },
+      zoneLoad?.deliveries ?? [],
+      { actor: `vehicle:${vehicle.id}` }
+    );
+
+    results.push({
+      zone: reading.zone,
+      temperature_c: reading.temperature_c,
+      recorded_at: reading.recorded_at,
+      is_breach: evaluation.is_breach,
+      deviation_c: evaluation.deviation_c,
+      breach_id: breach?.id ?? null
+    });
+  }
+
+  return {
+    vehicle_id: vehicle.id,
+    readings_stored: results.length,
+    breach_readings: results.filter(result => result.is_breach).length,
+    readings: results
+  };
+}
+
+type VehicleLoad = Awaited<ReturnType<typeof getVehicleLoadBetween>>;
+
+// แยกสินค้าบนรถตามช่อง (สินค้า hot/frozen/chilled อยู่ในช่องชื่อเดียวกัน)
+function getZoneLoad(load: VehicleLoad) {
+  const loadByZone = new Map<TemperatureLevel, { deliveries: { delivery_id: string; order_id: string }[]; requirements: string[] }>();
+  for (const delivery of load) {
+    for (const item of delivery.order.order_items) {
+      // ใช้ช่องเดียวกับตอนจัดรถ (ตัดช่องว่าง/ตัวพิมพ์ใหญ่ของ temperature_requirement)
+      for (const zone of getRequiredZones([item.product.temperature_requirement])) {
+        const zoneLoad = loadByZone.get(zone) ?? { deliveries: [], requirements: [] };
+        if (!zoneLoad.deliveries.some(entry => entry.delivery_id === delivery.id)) {
+          zoneLoad.deliveries.push({ delivery_id: delivery.id, order_id: delivery.order_id });
+        }
+        zoneLoad.requirements.push(item.product.temperature_requirement);
+        loadByZone.set(zone, zoneLoad);
+      }
+    }
+  }
+  return loadByZone;
+}
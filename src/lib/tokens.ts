@@ -0,0 +1,14 @@
+// ===================================
+// File: src/lib/tokens.ts
+// Token สำหรับลิงก์ที่ส่งให้ลูกค้า (เก็บเฉพาะ hash ในฐานข้อมูล)
+// ===================================
+
+import { createHash, randomBytes } from 'crypto';
+
+export function generateToken(bytes = 24): string {
+  return randomBytes(bytes).toString('base64url');
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
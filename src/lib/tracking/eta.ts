@@ -0,0 +1,55 @@
+// ===================================
+// File: src/lib/tracking/eta.ts
+// ETA Engine: คาดเวลาถึงจุดส่งที่เหลือจากตำแหน่งปัจจุบันของคนขับ
+// ===================================
+
+import { haversineKm, LatLng } from '../routing/geo';
+import { DEFAULT_SERVICE_MINUTES } from '../routing/planner';
+
+export interface EtaStopInput {
+  delivery_id: string;
+  order_id: string;
+  location: LatLng;
+  window_start: Date;
+  window_end: Date;
+}
+
+export interface EtaOptions {
+  position: LatLng;
+  at: Date;                   // เวลาที่อยู่ ณ position
+  average_speed_kmh: number;
+  service_minutes?: number;
+}
+
+export interface StopEta {
+  delivery_id: string;
+  order_id: string;
+  estimated_arrival: Date;    // เวลาเริ่มส่ง (รอถ้ามาถึงก่อน window_start) เทียบได้กับ planned_arrival
+  minutes_late: number;
+  at_risk: boolean;
+}
+
+// ขับตามลำดับที่ส่งมา (ลำดับในเส้นทาง) โดยใช้วิธีเดียวกับตอนวางแผนเส้นทาง
+export function projectStopEtas(stops: EtaStopInput[], options: EtaOptions): StopEta[] {
+  const serviceMinutes = options.service_minutes ?? DEFAULT_SERVICE_MINUTES;
+  let position = options.position;
+  let clock = options.at.getTime();
+
+  return stops.map(stop => {
+    const travelMinutes = haversineKm(position, stop.location) / options.average_speed_kmh * 60;
+    const arrival = clock + travelMinutes * 60 * 1000;
+    const serviceStart = Math.max(arrival, stop.window_start.getTime());
+    const minutesLate = Math.max(0, (serviceStart - stop.window_end.getTime()) / (1000 * 60));
+
+    position = stop.location;
+    clock = serviceStart + serviceMinutes * 60 * 1000;
+
+    return {
+      delivery_id: stop.delivery_id,
+      order_id: stop.order_id,
+      estimated_arrival: new Date(serviceStart),
+      minutes_late: Math.round(minutesLate * 100) / 100,
+      at_risk: minutesLate > 0
+    };
+  });
+}
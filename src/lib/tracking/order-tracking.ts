@@ -0,0 +1,140 @@
+// ===================================
+// File: src/lib/tracking/order-tracking.ts
+// ลิงก์ติดตามออเดอร์ของลูกค้า: สถานะ, ช่วงเวลาส่ง, คนขับ และ ETA (ไม่เปิดเผยข้อมูลภายใน)
+// ===================================
+
+import {
+  getOrderById,
+  getOrderByTrackingTokenHash,
+  setOrderTrackingTokenHash,
+  updateTrackedOrder
+} from '../db/queries';
+import { AppError, NotFoundError } from '../errors';
+import { generateToken, hashToken } from '../tokens';
+import { FieldValidator } from '../validation';
+
+// ข้อมูลที่ลูกค้าเห็น: ไม่มี priority, breakdown, id ภายใน หรือข้อมูลของลูกค้าคนอื่น
+export interface TrackingView {
+  status: string;
+  delivery_date: string;
+  delivery_window_start: string;
+  delivery_window_end: string;
+  driver: { first_name: string; vehicle_type: string } | null;
+  eta: string | null;
+  eta_updated_at: string | null;
+  delivered_at: string | null;
+  delivery_notes: string | null;
+  not_home_reported: boolean;
+  can_update: boolean;
+}
+
+export interface TrackingUpdateInput {
+  delivery_notes?: string | null;
+  not_home?: boolean;
+}
+
+// ลิงก์ยังใช้ได้อีกช่วงหนึ่งหลังหมด delivery window (ดูผลการส่งย้อนหลัง)
+const TRACKING_LINK_TTL_DAYS = 7;
+
+const MAX_DELIVERY_NOTES_LENGTH = 500;
+
+// สถานะที่คนขับรู้แล้วว่าต้องไปส่ง จึงแสดงคนขับและ ETA
+const DISPATCHED_STATUSES = ['assigned', 'in_transit'];
+
+// token ใหม่สำหรับออเดอร์ที่กำลังสร้าง (intake เก็บ hash ไว้กับออเดอร์)
+export function createTrackingToken() {
+  const token = generateToken();
+  return { token, token_hash: hashToken(token) };
+}
+
+export function getTrackingPath(token: string): string {
+  return `/track/${token}`;
+}
+
+// ออก token ใหม่ให้ออเดอร์ (ลิงก์เดิมจะใช้ไม่ได้) คืน token จริงครั้งเดียว
+export async function issueTrackingToken(orderId: string) {
+  const order = await getOrderById(orderId);
+  if (!order) {
+    throw new NotFoundError('Order not found');
+  }
+
+  const { token, token_hash } = createTrackingToken();
+  await setOrderTrackingTokenHash(order.id, token_hash);
+
+  return { token, tracking_path: getTrackingPath(token) };
+}
+
+export async function getTrackingView(token: string, now: Date = new Date()): Promise<TrackingView> {
+  const order = await findTrackedOrder(token, now);
+  const delivery = order.deliveries[0];
+  const dispatched = DISPATCHED_STATUSES.includes(order.order_status) && delivery !== undefined;
+
+  return {
+    status: order.order_status,
+    delivery_date: order.delivery_date.toISOString(),
+    delivery_window_start: order.delivery_window_start.toISOString(),
+    delivery_window_end: order.delivery_window_end.toISOString(),
+    driver: dispatched
+      ? { first_name: delivery.driver.first_name, vehicle_type: delivery.vehicle.vehicle_type }
+      : null,
+    eta: dispatched
+      ? (delivery.estimated_arrival ?? delivery.planned_arrival)?.toISOString() ?? null
+      : null,
+    eta_updated_at: dispatched ? delivery.eta_updated_at?.toISOString() ?? null : null,
+    delivered_at: order.order_status === 'delivered' ? delivery?.delivery_time?.toISOString() ?? null : null,
+    delivery_notes: order.customer.delivery_notes,
+    not_home_reported: order.customer_not_home_at !== null,
+    can_update: order.order_status === 'pending'
+  };
+}
+
+export function parseTrackingUpdate(body: unknown): TrackingUpdateInput {
+  const validator = new FieldValidator();
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  const update: TrackingUpdateInput = {};
+
+  if (input.delivery_notes !== undefined) {
+    // ส่งค่าว่างหรือ null = ลบหมายเหตุ
+    update.delivery_notes =
+      validator.optionalString('delivery_notes', input.delivery_notes, MAX_DELIVERY_NOTES_LENGTH) ?? null;
+  }
+
+  if (input.not_home !== undefined) {
+    if (typeof input.not_home !== 'boolean') {
+      validator.add('not_home', 'must be a boolean');
+    } else {
+      update.not_home = input.not_home;
+    }
+  }
+
+  if (input.delivery_notes === undefined && input.not_home === undefined) {
+    validator.add('delivery_notes', 'delivery_notes or not_home is required');
+  }
+
+  validator.throwIfInvalid();
+
+  return update;
+}
+
+export async function updateTracking(token: string, input: TrackingUpdateInput, now: Date = new Date()) {
+  const order = await findTrackedOrder(token, now);
+
+  await updateTrackedOrder(order.id, input, { actor: 'customer' });
+
+  return await getTrackingView(token, now);
+}
+
+async function findTrackedOrder(token: string, now: Date) {
+  const order = await getOrderByTrackingTokenHash(hashToken(token));
+  if (!order) {
+    throw new NotFoundError('Tracking link not found');
+  }
+
+  const expiresAt = order.delivery_window_end.getTime() + TRACKING_LINK_TTL_DAYS * 24 * 60 * 60 * 1000;
+  if (expiresAt <= now.getTime()) {
+    throw new AppError('Tracking link has expired', 410);
+  }
+
+  return order;
+}
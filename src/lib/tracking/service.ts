@@ -0,0 +1,171 @@
+// ===================================
+// File: src/lib/tracking/service.ts
+// รับพิกัด GPS จากแอปคนขับ คำนวณ ETA ของจุดที่เหลือ และคำนวณ Priority ใหม่เมื่อเสี่ยงส่งไม่ทัน
+// ===================================
+
+import {
+  deleteDriverLocationsBefore,
+  getDriverById,
+  getDriverRemainingStops,
+  getLatestDriverLocation,
+  getVehicleById,
+  recordDriverLocations,
+  updateDeliveryEtas
+} from '../db/queries';
+import { NotFoundError } from '../errors';
+import { rescoreOrders } from '../priority/recompute';
+import { getAverageSpeedKmh } from '../routing/planner';
+import { FieldValidator } from '../validation';
+import { projectStopEtas } from './eta';
+
+export interface LocationPingInput {
+  latitude: number;
+  longitude: number;
+  recorded_at: Date;
+  accuracy_m?: number;
+  speed_kmh?: number;
+  heading?: number;
+}
+
+export interface LocationIngestInput {
+  vehicle_id?: string;
+  positions: LocationPingInput[];
+}
+
+const MAX_POSITIONS_PER_REQUEST = 500;
+
+// พิกัดที่เก่ากว่านี้ไม่บอกว่าตอนนี้คนขับอยู่ไหน จึงไม่ใช้คำนวณ ETA
+const ETA_MAX_POSITION_AGE_MINUTES = 15;
+
+// เก็บพิกัดย้อนหลังไว้เท่านี้ (ลบด้วย job)
+export const DRIVER_LOCATION_RETENTION_DAYS = 7;
+
+export function parseLocationIngest(body: unknown): LocationIngestInput {
+  const validator = new FieldValidator();
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  const vehicleId = validator.optionalString('vehicle_id', input.vehicle_id, 100);
+
+  const positions: LocationPingInput[] = [];
+  if (!Array.isArray(input.positions) || input.positions.length === 0) {
+    validator.add('positions', 'must be a non-empty array');
+  } else if (input.positions.length > MAX_POSITIONS_PER_REQUEST) {
+    validator.add('positions', `must have at most ${MAX_POSITIONS_PER_REQUEST} entries`);
+  } else {
+    input.positions.forEach((raw, index) => {
+      const position = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+      const field = `positions[${index}]`;
+      const latitude = validator.requireNumber(`${field}.latitude`, position.latitude, { min: -90, max: 90 });
+      const longitude = validator.requireNumber(`${field}.longitude`, position.longitude, { min: -180, max: 180 });
+      const recordedAt = validator.requireDate(`${field}.recorded_at`, position.recorded_at);
+      const accuracy = position.accuracy_m === undefined
+        ? undefined
+        : validator.requireNumber(`${field}.accuracy_m`, position.accuracy_m, { min: 0 });
+      const speed = position.speed_kmh === undefined
+        ? undefined
+        : validator.requireNumber(`${field}.speed_kmh`, position.speed_kmh, { min: 0, max: 300 });
+      const heading = position.heading === undefined
+        ? undefined
+        : validator.requireNumber(`${field}.heading`, position.heading, { min: 0, max: 360 });
+
+      if (latitude !== undefined && longitude !== undefined && recordedAt) {
+        positions.push({
+          latitude,
+          longitude,
+          recorded_at: recordedAt,
+          accuracy_m: accuracy,
+          speed_kmh: speed,
+          heading
+        });
+      }
+    });
+  }
+
+  validator.throwIfInvalid();
+
+  return { vehicle_id: vehicleId, positions };
+}
+
+export async function ingestDriverLocations(driverId: string, input: LocationIngestInput) {
+  const driver = await getDriverById(driverId);
+  if (!driver) {
+    throw new NotFoundError('Driver not found');
+  }
+
+  if (input.vehicle_id && !await getVehicleById(input.vehicle_id)) {
+    throw new NotFoundError('Vehicle not found');
+  }
+
+  await recordDriverLocations(input.positions.map(position => ({
+    driver_id: driverId,
+    vehicle_id: input.vehicle_id,
+    ...position
+  })));
+
+  const etas = await refreshDriverEtas(driverId);
+
+  return {
+    driver_id: driverId,
+    positions_stored: input.positions.length,
+    ...etas
+  };
+}
+
+// คำนวณ ETA ของทุกจุดที่เหลือจากพิกัดล่าสุด
+// ออเดอร์ที่เพิ่งเสี่ยงส่งไม่ทัน (หรือกลับมาทัน) ถูกคำนวณ Priority ใหม่ด้วย ETA นี้
+export async function refreshDriverEtas(driverId: string, now: Date = new Date()) {
+  const location = await getLatestDriverLocation(driverId);
+  const maxAge = ETA_MAX_POSITION_AGE_MINUTES * 60 * 1000;
+  if (!location || now.getTime() - location.recorded_at.getTime() > maxAge) {
+    return { eta_updated: false, stops: [], rescored_order_ids: [] };
+  }
+
+  const stops = await getDriverRemainingStops(driverId, now);
+  if (stops.length === 0) {
+    return { eta_updated: false, stops: [], rescored_order_ids: [] };
+  }
+
+  const projected = projectStopEtas(
+    stops.map(stop => ({
+      delivery_id: stop.id,
+      order_id: stop.order_id,
+      location: { latitude: stop.order.delivery_latitude, longitude: stop.order.delivery_longitude },
+      window_start: stop.order.delivery_window_start,
+      window_end: stop.order.delivery_window_end
+    })),
+    {
+      position: { latitude: location.latitude, longitude: location.longitude },
+      at: now,
+      average_speed_kmh: getAverageSpeedKmh(stops[0].vehicle.vehicle_type)
+    }
+  );
+
+  const etas = projected.map(eta => ({
+    ...eta,
+    was_at_risk: stops.find(stop => stop.id === eta.delivery_id)!.eta_at_risk
+  }));
+  await updateDeliveryEtas(etas, now, { actor: `driver:${driverId}` });
+
+  const changed = etas.filter(eta => eta.at_risk !== eta.was_at_risk).map(eta => eta.order_id);
+  if (changed.length > 0) {
+    await rescoreOrders(changed, now);
+  }
+
+  return {
+    eta_updated: true,
+    stops: etas.map(eta => ({
+      delivery_id: eta.delivery_id,
+      order_id: eta.order_id,
+      estimated_arrival: eta.estimated_arrival,
+      minutes_late: eta.minutes_late,
+      at_risk: eta.at_risk
+    })),
+    rescored_order_ids: changed
+  };
+}
+
+export async function pruneDriverLocations(now: Date = new Date()) {
+  const before = new Date(now.getTime() - DRIVER_LOCATION_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const result = await deleteDriverLocationsBefore(before);
+  return { deleted: result.count, before };
+}
@@ -0,0 +1,88 @@
+// ===================================
+// File: src/lib/validation.ts
+// Field-level Validation (สะสม error ทีละ field แล้วตอบ 400 ครั้งเดียว)
+// ===================================
+
+import { FieldError, ValidationError } from './errors';
+
+export class FieldValidator {
+  readonly errors: FieldError[] = [];
+
+  add(field: string, message: string) {
+    this.errors.push({ field, message });
+  }
+
+  requireString(field: string, value: unknown, maxLength = 500): string | undefined {
+    if (typeof value !== 'string' || value.trim() === '') {
+      this.add(field, 'is required');
+      return undefined;
+    }
+    if (value.length > maxLength) {
+      this.add(field, `must be at most ${maxLength} characters`);
+      return undefined;
+    }
+    return value.trim();
+  }
+
+  optionalString(field: string, value: unknown, maxLength = 500): string | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+    return this.requireString(field, value, maxLength);
+  }
+
+  requireNumber(
+    field: string,
+    value: unknown,
+    options: { min?: number; max?: number; integer?: boolean } = {}
+  ): number | undefined {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.add(field, 'must be a number');
+      return undefined;
+    }
+    if (options.integer && !Number.isInteger(value)) {
+      this.add(field, 'must be an integer');
+      return undefined;
+    }
+    if (options.min !== undefined && value < options.min) {
+      this.add(field, `must be at least ${options.min}`);
+      return undefined;
+    }
+    if (options.max !== undefined && value > options.max) {
+      this.add(field, `must be at most ${options.max}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  requireDate(field: string, value: unknown): Date | undefined {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      this.add(field, 'must be a date');
+      return undefined;
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      this.add(field, 'must be a valid date');
+      return undefined;
+    }
+    return date;
+  }
+
+  requireOneOf<T extends string>(field: string, value: unknown, options: readonly T[]): T | undefined {
+    if (typeof value !== 'string' || !options.includes(value as T)) {
+      this.add(field, `must be one of: ${options.join(', ')}`);
+      return undefined;
+    }
+    return value as T;
+  }
+
+  get valid(): boolean {
+    return this.errors.length === 0;
+  }
+
+  throwIfInvalid() {
+    if (!this.valid) {
+      throw new ValidationError(this.errors);
+    }
+  }
+}
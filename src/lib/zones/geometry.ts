@@ -0,0 +1,42 @@
+// ===================================
+// File: src/lib/zones/geometry.ts
+// Polygon ของโซนส่ง และการหาว่าจุดอยู่ในโซนหรือไม่
+// ===================================
+
+import { isValidLatLng, LatLng } from '../routing/geo';
+
+export type ZonePolygon = LatLng[];
+
+const MIN_POLYGON_POINTS = 3;
+const MAX_POLYGON_POINTS = 500;
+
+// ray casting บนระนาบ lat/lng (โซนส่งในเมืองเล็กพอที่ไม่ต้องคิดความโค้งของโลก)
+// จุดที่อยู่บนขอบพอดีอาจได้ผลได้ทั้งสองทาง
+export function pointInPolygon(point: LatLng, polygon: ZonePolygon): boolean {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+
+    const crosses = (a.latitude > point.latitude) !== (b.latitude > point.latitude);
+    if (!crosses) continue;
+
+    const longitudeAtPoint =
+      a.longitude + (point.latitude - a.latitude) * (b.longitude - a.longitude) / (b.latitude - a.latitude);
+    if (point.longitude < longitudeAtPoint) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+// อ่าน polygon จาก JSON ที่เก็บใน DeliveryZone.polygon (null = รูปแบบไม่ถูกต้อง)
+export function parsePolygon(raw: unknown): ZonePolygon | null {
+  if (!Array.isArray(raw)) return null;
+  if (raw.length < MIN_POLYGON_POINTS || raw.length > MAX_POLYGON_POINTS) return null;
+  if (!raw.every(isValidLatLng)) return null;
+
+  return raw.map(point => ({ latitude: point.latitude, longitude: point.longitude }));
+}
@@ -0,0 +1,157 @@
+// ===================================
+// File: src/lib/zones/rules.ts
+// กฎของโซนส่ง: เวลาทำการ, ช่วงเวลาส่งที่รับ และยอดสั่งขั้นต่ำ
+// ===================================
+
+import { FieldError } from '../errors';
+import { toDateKey } from '../dates';
+
+export const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+export interface DailyHours {
+  open: string;   // HH:MM เวลาท้องถิ่นของเซิร์ฟเวอร์
+  close: string;
+}
+
+// วันที่ไม่มีในนี้ = โซนไม่ส่งวันนั้น
+export type OperatingHours = Partial<Record<Weekday, DailyHours>>;
+
+export interface ZoneWindow {
+  start: string;  // HH:MM
+  end: string;
+}
+
+export interface ZoneRules {
+  operating_hours: OperatingHours;
+  delivery_windows: ZoneWindow[] | null;  // null = รับทุกช่วงที่อยู่ในเวลาทำการ
+  min_order_value: number;
+}
+
+export interface ZoneOrder {
+  order_value: number;
+  delivery_window_start: Date;
+  delivery_window_end: Date;
+}
+
+const TIME_PATTERN = /^(?:([01]\d|2[0-3]):([0-5]\d)|(24):(00))$/;
+const MINUTES_PER_DAY = 24 * 60;
+
+// "HH:MM" -> นาทีนับจากเที่ยงคืน (รับ "24:00" เป็นสิ้นวัน)
+export function parseTimeOfDay(value: unknown): number | null {
+  if (typeof value !== 'string') return null;
+  const match = TIME_PATTERN.exec(value);
+  if (!match) return null;
+
+  const hours = Number(match[1] ?? match[3]);
+  const minutes = Number(match[2] ?? match[4]);
+  return hours * 60 + minutes;
+}
+
+// null = รูปแบบไม่ถูกต้อง
+export function parseOperatingHours(raw: unknown): OperatingHours | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+
+  const hours: OperatingHours = {};
+  for (const [day, value] of Object.entries(raw)) {
+    if (!WEEKDAYS.includes(day as Weekday)) return null;
+    if (value === null) continue;
+
+    const range = parseTimeRange((value as Record<string, unknown>)?.open, (value as Record<string, unknown>)?.close);
+    if (!range) return null;
+    hours[day as Weekday] = { open: range.start, close: range.end };
+  }
+
+  return hours;
+}
+
+// null = รูปแบบไม่ถูกต้อง
+export function parseDeliveryWindows(raw: unknown): ZoneWindow[] | null {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+
+  const windows: ZoneWindow[] = [];
+  for (const value of raw) {
+    const range = parseTimeRange((value as Record<string, unknown>)?.start, (value as Record<string, unknown>)?.end);
+    if (!range) return null;
+    windows.push(range);
+  }
+
+  return windows;
+}
+
+// ตรวจออเดอร์กับกฎของโซน คืนรายการที่ผิด (ว่าง = ผ่าน)
+export function checkZoneRules(rules: ZoneRules, order: ZoneOrder): FieldError[] {
+  const errors: FieldError[] = [];
+
+  if (order.order_value < rules.min_order_value) {
+    errors.push({
+      field: 'items',
+      message: `order value ${order.order_value} is below the zone minimum of ${rules.min_order_value}`
+    });
+  }
+
+  const start = minutesOfDay(order.delivery_window_start);
+  const end = endMinutesOfDay(order.delivery_window_start, order.delivery_window_end);
+  if (end === null) {
+    errors.push({
+      field: 'delivery_window_end',
+      message: 'delivery window must start and end on the same day'
+    });
+    return errors;
+  }
+
+  const weekday = WEEKDAYS[order.delivery_window_start.getDay()];
+  const hours = rules.operating_hours[weekday];
+  if (!hours) {
+    errors.push({
+      field: 'delivery_window_start',
+      message: `zone does not deliver on ${weekday}`
+    });
+    return errors;
+  }
+
+  if (start < parseTimeOfDay(hours.open)! || end > parseTimeOfDay(hours.close)!) {
+    errors.push({
+      field: 'delivery_window_start',
+      message: `delivery window must be within zone operating hours ${hours.open}-${hours.close}`
+    });
+  }
+
+  if (rules.delivery_windows) {
+    const fits = rules.delivery_windows.some(window =>
+      start >= parseTimeOfDay(window.start)! && end <= parseTimeOfDay(window.end)!
+    );
+    if (!fits) {
+      errors.push({
+        field: 'delivery_window_start',
+        message: `delivery window must fit one of the zone windows: ${
+          rules.delivery_windows.map(window => `${window.start}-${window.end}`).join(', ')
+        }`
+      });
+    }
+  }
+
+  return errors;
+}
+
+function parseTimeRange(start: unknown, end: unknown): ZoneWindow | null {
+  const startMinutes = parseTimeOfDay(start);
+  const endMinutes = parseTimeOfDay(end);
+  if (startMinutes === null || endMinutes === null || endMinutes <= startMinutes) return null;
+  return { start: start as string, end: end as string };
+}
+
+function minutesOfDay(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+// window ที่จบตอนเที่ยงคืนพอดีนับเป็น 24:00 ของวันเดียวกัน (null = ข้ามวัน)
+function endMinutesOfDay(start: Date, end: Date): number | null {
+  if (toDateKey(start) === toDateKey(end)) {
+    return minutesOfDay(end);
+  }
+
+  const nextDay = new Date(start);
+  nextDay.setHours(24, 0, 0, 0);
+  return end.getTime() === nextDay.getTime() ? MINUTES_PER_DAY : null;
+}
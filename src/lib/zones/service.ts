@@ -0,0 +1,222 @@
+// ===================================
+// File: src/lib/zones/service.ts
+// Zone Service: หาโซนจากพิกัด ตรวจพื้นที่ให้บริการตอนรับออเดอร์ และจัดการ depot/โซน
+// ===================================
+
+import {
+  createDeliveryZone,
+  getActiveDeliveryZones,
+  getDepotById,
+  getUnzonedOpenOrders,
+  updateOrderZone
+} from '../db/queries';
+import { FieldError, NotFoundError } from '../errors';
+import { haversineKm, LatLng } from '../routing/geo';
+import { FieldValidator } from '../validation';
+import { parsePolygon, pointInPolygon } from './geometry';
+import {
+  checkZoneRules,
+  OperatingHours,
+  parseDeliveryWindows,
+  parseOperatingHours,
+  ZoneOrder,
+  ZoneRules,
+  ZoneWindow
+} from './rules';
+
+export type ServiceAreaEnforcement = 'reject' | 'flag';
+
+type ActiveZone = Awaited<ReturnType<typeof getActiveDeliveryZones>>[number];
+
+export interface ServiceAreaResult {
+  zone_id: string | null;
+  outside_service_area: boolean;
+}
+
+// reject = ไม่รับออเดอร์นอกโซน, flag = รับไว้แต่ตั้งธงให้พนักงานตรวจ
+export function getServiceAreaEnforcement(): ServiceAreaEnforcement {
+  return process.env.SERVICE_AREA_ENFORCEMENT === 'flag' ? 'flag' : 'reject';
+}
+
+export function getZoneRules(zone: {
+  operating_hours: unknown;
+  delivery_windows: unknown;
+  min_order_value: number;
+}): ZoneRules {
+  return {
+    operating_hours: parseOperatingHours(zone.operating_hours) ?? {},
+    delivery_windows: zone.delivery_windows === null ? null : parseDeliveryWindows(zone.delivery_windows),
+    min_order_value: zone.min_order_value
+  };
+}
+
+// จุดอยู่ในหลายโซนที่ซ้อนกัน เลือกโซนที่ depot ใกล้ที่สุด
+function pickZone(zones: ActiveZone[], location: LatLng): ActiveZone | null {
+  const matches = zones.filter(zone => {
+    const polygon = parsePolygon(zone.polygon);
+    return polygon !== null && pointInPolygon(location, polygon);
+  });
+
+  matches.sort((a, b) => haversineKm(a.depot, location) - haversineKm(b.depot, location));
+  return matches[0] ?? null;
+}
+
+export async function findZoneForLocation(location: LatLng): Promise<ActiveZone | null> {
+  return pickZone(await getActiveDeliveryZones(), location);
+}
+
+// ยังไม่มีโซนที่เปิดอยู่เลย = ยังไม่ได้ตั้งพื้นที่ให้บริการ จึงไม่บังคับ
+async function locate(location: LatLng): Promise<{ zone: ActiveZone | null; result: ServiceAreaResult }> {
+  const zones = await getActiveDeliveryZones();
+  if (zones.length === 0) {
+    return { zone: null, result: { zone_id: null, outside_service_area: false } };
+  }
+
+  const zone = pickZone(zones, location);
+  return {
+    zone,
+    result: { zone_id: zone?.id ?? null, outside_service_area: zone === null }
+  };
+}
+
+// ใช้ตอนรับออเดอร์: ตรวจทั้งพื้นที่และกฎของโซน (เวลาทำการ, ช่วงเวลาส่ง, ยอดขั้นต่ำ)
+export async function checkOrderServiceArea(
+  location: LatLng,
+  order: ZoneOrder
+): Promise<{ result: ServiceAreaResult; errors: FieldError[] }> {
+  const { zone, result } = await locate(location);
+
+  if (result.outside_service_area) {
+    const errors = getServiceAreaEnforcement() === 'reject'
+      ? [{ field: 'customer.address', message: 'address is outside every delivery zone' }]
+      : [];
+    return { result, errors };
+  }
+
+  return {
+    result,
+    errors: zone ? checkZoneRules(getZoneRules(zone), order) : []
+  };
+}
+
+// ใช้ตอนแก้ที่อยู่: ไม่ปฏิเสธ เพราะลูกค้าย้ายจริง แต่ออเดอร์ที่ค้างจะถูกตั้งธง
+export async function locateServiceArea(location: LatLng): Promise<ServiceAreaResult> {
+  return (await locate(location)).result;
+}
+
+// ผูกโซนให้ออเดอร์ที่ยังไม่ออกส่งซึ่งยังไม่มีโซน (เช่นหลังเพิ่มโซนใหม่)
+export async function tagUnzonedOrders() {
+  const [orders, zones] = await Promise.all([getUnzonedOpenOrders(), getActiveDeliveryZones()]);
+  if (zones.length === 0) {
+    return { checked: orders.length, tagged: 0, outside_service_area: 0 };
+  }
+
+  let tagged = 0;
+  let outside = 0;
+  for (const order of orders) {
+    const zone = pickZone(zones, { latitude: order.delivery_latitude, longitude: order.delivery_longitude });
+    await updateOrderZone(order.id, { zone_id: zone?.id ?? null, outside_service_area: zone === null });
+    if (zone) {
+      tagged++;
+    } else {
+      outside++;
+    }
+  }
+
+  return { checked: orders.length, tagged, outside_service_area: outside };
+}
+
+// ===================================
+// Depot & Zone Admin
+// ===================================
+
+export interface DepotInput {
+  name: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+}
+
+export function parseDepotInput(body: unknown): DepotInput {
+  const validator = new FieldValidator();
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  const name = validator.requireString('name', input.name, 200);
+  const address = validator.requireString('address', input.address);
+  const latitude = validator.requireNumber('latitude', input.latitude, { min: -90, max: 90 });
+  const longitude = validator.requireNumber('longitude', input.longitude, { min: -180, max: 180 });
+
+  validator.throwIfInvalid();
+
+  return { name: name!, address: address!, latitude: latitude!, longitude: longitude! };
+}
+
+export interface ZoneInput {
+  depot_id: string;
+  name: string;
+  polygon: LatLng[];
+  operating_hours: OperatingHours;
+  delivery_windows: ZoneWindow[] | null;
+  min_order_value: number;
+}
+
+export function parseZoneInput(body: unknown): ZoneInput {
+  const validator = new FieldValidator();
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  const depotId = validator.requireString('depot_id', input.depot_id, 100);
+  const name = validator.requireString('name', input.name, 200);
+
+  const polygon = parsePolygon(input.polygon);
+  if (!polygon) {
+    validator.add('polygon', 'must be an array of 3-500 points with latitude and longitude');
+  }
+
+  const operatingHours = parseOperatingHours(input.operating_hours);
+  if (!operatingHours) {
+    validator.add('operating_hours', 'must map weekdays (sun-sat) to { open, close } in HH:MM');
+  }
+
+  let deliveryWindows: ZoneWindow[] | null = null;
+  if (input.delivery_windows !== undefined && input.delivery_windows !== null) {
+    deliveryWindows = parseDeliveryWindows(input.delivery_windows);
+    if (!deliveryWindows) {
+      validator.add('delivery_windows', 'must be a non-empty array of { start, end } in HH:MM');
+    }
+  }
+
+  const minOrderValue = input.min_order_value === undefined
+    ? 0
+    : validator.requireNumber('min_order_value', input.min_order_value, { min: 0 });
+
+  validator.throwIfInvalid();
+
+  return {
+    depot_id: depotId!,
+    name: name!,
+    polygon: polygon!,
+    operating_hours: operatingHours!,
+    delivery_windows: deliveryWindows,
+    min_order_value: minOrderValue!
+  };
+}
+
+export async function addDeliveryZone(input: ZoneInput) {
+  const depot = await getDepotById(input.depot_id);
+  if (!depot) {
+    throw new NotFoundError('Depot not found');
+  }
+
+  return await createDeliveryZone({
+    depot_id: input.depot_id,
+    name: input.name,
+    polygon: input.polygon.map(point => ({ latitude: point.latitude, longitude: point.longitude })),
+    operating_hours: Object.fromEntries(
+      Object.entries(input.operating_hours).map(([day, hours]) => [day, { open: hours.open, close: hours.close }])
+    ),
+    delivery_windows: input.delivery_windows
+      ? input.delivery_windows.map(window => ({ start: window.start, end: window.end }))
+      : null,
+    min_order_value: input.min_order_value
+  });
+}
@@ -0,0 +1,17 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  // Tailwind ใช้ PostCSS ของ Next.js ไม่ต้องโหลดตอนรัน test
+  css: {
+    postcss: {},
+  },
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+    },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+  },
+});